@@ -0,0 +1,107 @@
+import { notFound } from 'next/navigation';
+import { PostArticle } from '@/components/blog/PostArticle';
+import { Comments } from '@/components/blog/Comments';
+import { RelatedPosts } from '@/components/blog/RelatedPosts';
+import { LanguageSwitcher } from '@/components/blog/LanguageSwitcher';
+import {
+  getCanonicalPostPath,
+  getPostLocale,
+  getPostTranslations,
+  getPublicPostBySlug,
+  listPublicPosts,
+  renderPostContent,
+} from '@/lib/posts';
+import {
+  buildBlogPostingJsonLd,
+  buildPostMetadata,
+  getLanguageAlternates,
+  serializeJsonLd,
+} from '@/lib/seo';
+import { SITE_LOCALES } from '@/lib/site';
+import { recommendContentSkill } from '@/lib/skills/recommend_content';
+
+export const revalidate = 60;
+
+const RELATED_POSTS_LIMIT = 3;
+
+interface BlogPostPageParams {
+  locale: string;
+  slug: string;
+}
+
+// Generate static params for all public blog posts, each under its own locale
+export async function generateStaticParams(): Promise<BlogPostPageParams[]> {
+  const posts = await listPublicPosts();
+  return posts.map((post) => ({
+    locale: getPostLocale(post),
+    slug: post.slug,
+  }));
+}
+
+// A post only exists under its own locale
+async function getPost(params: BlogPostPageParams) {
+  const post = await getPublicPostBySlug(params.slug);
+  return post && getPostLocale(post) === params.locale ? post : undefined;
+}
+
+// Generate metadata for the page
+export async function generateMetadata({ params }: { params: BlogPostPageParams }) {
+  const post = await getPost(params);
+
+  if (!post) {
+    return {
+      title: 'Post Not Found',
+    };
+  }
+
+  return buildPostMetadata(post, getLanguageAlternates(post, await listPublicPosts()));
+}
+
+// Related posts are optional: a failed recommendation hides the block
+async function getRelatedPosts(postId: string) {
+  try {
+    const result = await recommendContentSkill.execute({
+      currentPostId: postId,
+      context: { maxRecommendations: RELATED_POSTS_LIMIT },
+    });
+    return result.recommendations;
+  } catch (error) {
+    console.error('Error loading related posts:', error);
+    return [];
+  }
+}
+
+export default async function BlogPostPage({
+  params,
+}: {
+  params: BlogPostPageParams;
+}) {
+  const post = await getPost(params);
+
+  if (!post) {
+    notFound();
+  }
+
+  // Site languages without a public translation are listed as unavailable
+  const translations = getPostTranslations(post, await listPublicPosts());
+  const languages = Array.from(new Set([...SITE_LOCALES, ...Object.keys(translations)])).map((locale) => ({
+    locale,
+    href: translations[locale] ? getCanonicalPostPath(translations[locale]) : undefined,
+  }));
+
+  return (
+    <>
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: serializeJsonLd(buildBlogPostingJsonLd(post)) }}
+      />
+      <PostArticle
+        post={post}
+        rendered={await renderPostContent(post.content)}
+        languages={<LanguageSwitcher locale={params.locale} languages={languages} />}
+      />
+      <RelatedPosts recommendations={await getRelatedPosts(post.id)} locale={params.locale} />
+      <Comments slug={post.slug} />
+    </>
+  );
+}
@@ -0,0 +1,46 @@
+import type { Metadata } from 'next';
+import { PostArchive } from '@/components/blog/PostArchive';
+import { LanguageSwitcher } from '@/components/blog/LanguageSwitcher';
+import { listPublicPostsInLocale } from '@/lib/posts';
+import { getMessages } from '@/lib/i18n';
+import { getLocaleBlogPath, SITE_LOCALES, SITE_TITLE } from '@/lib/site';
+
+export const revalidate = 60;
+
+export function generateStaticParams() {
+  return SITE_LOCALES.map((locale) => ({ locale }));
+}
+
+export function generateMetadata({ params }: { params: { locale: string } }): Metadata {
+  return {
+    title: `${getMessages(params.locale).blogTitle} | ${SITE_TITLE}`,
+    alternates: {
+      canonical: getLocaleBlogPath(params.locale),
+      languages: Object.fromEntries(SITE_LOCALES.map((locale) => [locale, getLocaleBlogPath(locale)])),
+    },
+  };
+}
+
+/**
+ * Posts written in (or translated to) one language
+ */
+export default async function LocaleBlogPage({ params }: { params: { locale: string } }) {
+  const posts = await listPublicPostsInLocale(params.locale);
+  const messages = getMessages(params.locale);
+
+  return (
+    <>
+      <div className="max-w-7xl mx-auto">
+        <LanguageSwitcher
+          locale={params.locale}
+          languages={SITE_LOCALES.map((locale) => ({ locale, href: getLocaleBlogPath(locale) }))}
+        />
+      </div>
+      <PostArchive
+        title={messages.blogTitle}
+        description={messages.blogDescription}
+        posts={posts}
+      />
+    </>
+  );
+}
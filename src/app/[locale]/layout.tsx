@@ -0,0 +1,33 @@
+import { notFound } from 'next/navigation';
+import { getPostLocale, listPublicPosts } from '@/lib/posts';
+import { SITE_LOCALES } from '@/lib/site';
+
+/**
+ * Site languages plus any other language a public post is written in
+ */
+async function getLocales(): Promise<string[]> {
+  const posts = await listPublicPosts();
+  return Array.from(new Set([...SITE_LOCALES, ...posts.map(getPostLocale)]));
+}
+
+export async function generateStaticParams() {
+  return (await getLocales()).map((locale) => ({ locale }));
+}
+
+/**
+ * The root layout renders <html lang="en">; localized pages mark their
+ * own language on the content wrapper
+ */
+export default async function LocaleLayout({
+  children,
+  params,
+}: {
+  children: React.ReactNode;
+  params: { locale: string };
+}) {
+  if (!(await getLocales()).includes(params.locale)) {
+    notFound();
+  }
+
+  return <div lang={params.locale}>{children}</div>;
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { orchestrator } from '@/lib/agents';
+import { withRateLimit } from '@/lib/rate-limit';
+import { getClientId } from '@/lib/auth/client';
 
 /**
  * Analyze Content Endpoint
@@ -10,7 +12,7 @@ import { orchestrator } from '@/lib/agents';
  * - Readability metrics
  * - Keyword analysis
  */
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest) {
   try {
     const body = await request.json();
     const { content, title, tags, options } = body;
@@ -41,7 +43,7 @@ export async function POST(request: NextRequest) {
       },
       context: {
         traceId: crypto.randomUUID(),
-        userId: request.headers.get('x-user-id') || 'api-user',
+        userId: getClientId(request),
         sessionId: request.headers.get('x-session-id') || undefined
       }
     });
@@ -71,3 +73,5 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+export const POST = withRateLimit('/api/ai/analyze', handlePost);
@@ -1,53 +1,72 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { POST } from '../route';
 import { NextRequest } from 'next/server';
-
-const mockCreate = vi.fn();
-
-// Mock OpenAI
-vi.mock('openai', () => {
-  return {
-    default: vi.fn().mockImplementation(() => ({
-      chat: {
-        completions: {
-          create: mockCreate,
-        },
-      },
-    })),
+import { readEventStream, type ChatStreamEvent } from '@/lib/utils/sse';
+import { FakeLLMProvider, setLLMProvider, type LLMChatRequest } from '@/lib/llm';
+
+const provider = new FakeLLMProvider();
+const mockComplete = vi.spyOn(provider, 'complete');
+
+/**
+ * Stand-in for a streamed completion: sends each token, then fails if
+ * `error` is given
+ */
+function streamTokens(tokens: string[], error?: Error) {
+  return async (request: LLMChatRequest) => {
+    for (const token of tokens) {
+      request.onToken?.(token);
+    }
+    if (error) throw error;
+    return {
+      content: tokens.join(''),
+      model: request.model,
+      usage: { prompt_tokens: 40, completion_tokens: 10, total_tokens: 50 },
+    };
   };
-});
+}
+
+function chatRequest(messages: unknown[], extra: Record<string, unknown> = {}) {
+  return new NextRequest('http://localhost:3000/api/ai/chat', {
+    method: 'POST',
+    body: JSON.stringify({ messages, ...extra }),
+  });
+}
+
+const hello = { id: '1', role: 'user' as const, content: 'Hello', timestamp: new Date() };
+
+async function readEvents(response: Response): Promise<ChatStreamEvent[]> {
+  const events: ChatStreamEvent[] = [];
+  for await (const event of readEventStream(response.body!)) {
+    events.push(event);
+  }
+  return events;
+}
+
+function textOf(events: ChatStreamEvent[]): string {
+  return events.map((event) => (event.type === 'token' ? event.content : '')).join('');
+}
 
 describe('POST /api/ai/chat', () => {
   beforeEach(() => {
     vi.clearAllMocks();
-    // Reset environment variable
-    delete process.env.OPENAI_API_KEY;
+    setLLMProvider(provider);
     // Default mock: successful response
-    mockCreate.mockResolvedValue({
-      choices: [{ message: { content: 'This is a test response from OpenAI' } }],
-    });
+    mockComplete.mockImplementation(streamTokens(['This is ', 'a test response ', 'from OpenAI']));
   });
 
-  it('should return a mock response when OPENAI_API_KEY is not set', async () => {
-    const messages = [
-      {
-        id: '1',
-        role: 'user' as const,
-        content: 'Hello',
-        timestamp: new Date(),
-      },
-    ];
+  afterEach(() => {
+    setLLMProvider(null);
+  });
 
-    const request = new NextRequest('http://localhost:3000/api/ai/chat', {
-      method: 'POST',
-      body: JSON.stringify({ messages }),
-    });
+  it('should answer offline with the fake provider by default', async () => {
+    setLLMProvider(new FakeLLMProvider());
 
-    const response = await POST(request);
-    const data = await response.json();
+    const response = await POST(chatRequest([hello]));
+    const events = await readEvents(response);
 
     expect(response.status).toBe(200);
-    expect(data.message).toContain('mock AI assistant');
+    expect(textOf(events)).toContain('offline reply from the fake LLM provider');
+    expect(events[events.length - 1].type).toBe('done');
   });
 
   it('should return error for invalid request body', async () => {
@@ -76,52 +95,100 @@ describe('POST /api/ai/chat', () => {
     expect(data.error).toBe('Invalid request body');
   });
 
-  it('should process messages successfully with OPENAI_API_KEY', async () => {
-    process.env.OPENAI_API_KEY = 'test-api-key';
+  it('should answer through chatInteractionSkill and send its output when done', async () => {
+    const response = await POST(chatRequest([hello], { context: { currentPage: '/en/blog/hooks' } }));
+    const events = await readEvents(response);
 
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toContain('text/event-stream');
+    expect(events.filter((event) => event.type === 'token')).toHaveLength(3);
+    expect(textOf(events)).toBe('This is a test response from OpenAI');
+
+    const done = events[events.length - 1];
+    expect(done.type).toBe('done');
+    expect(done.type === 'done' && done.output).toMatchObject({
+      response: 'This is a test response from OpenAI',
+      intent: { type: 'chitchat' },
+      suggestions: expect.any(Array),
+      metadata: { model: 'gpt-4o-mini', tokensUsed: 50, requiresHumanReview: true },
+    });
+
+    const [request] = mockComplete.mock.calls[0];
+    expect(request.model).toBe('gpt-4o-mini');
+    expect(request.messages[request.messages.length - 1].content).toContain('/en/blog/hooks');
+    expect(request.signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it('should pass earlier turns as alternating history', async () => {
+    // The first question never got an answer (the request failed)
     const messages = [
-      {
-        id: '1',
-        role: 'user' as const,
-        content: 'Hello, how are you?',
-        timestamp: new Date(),
-      },
+      { id: '1', role: 'user', content: 'Lost question', timestamp: new Date() },
+      { id: '2', role: 'user', content: 'Hi there', timestamp: new Date() },
+      { id: '3', role: 'assistant', content: 'Hello! How can I help?', timestamp: new Date() },
+      { id: '4', role: 'user', content: 'Thanks, bye', timestamp: new Date() },
     ];
 
-    const request = new NextRequest('http://localhost:3000/api/ai/chat', {
-      method: 'POST',
-      body: JSON.stringify({ messages }),
-    });
+    const events = await readEvents(await POST(chatRequest(messages)));
+    const [request] = mockComplete.mock.calls[0];
 
-    const response = await POST(request);
+    expect(events[events.length - 1].type).toBe('done');
+    expect(request.messages.map((m) => m.role)).toEqual(['system', 'user', 'assistant', 'user']);
+    expect(request.messages[1].content).toBe('Hi there');
+  });
+
+  it('should reject conversations that do not end with a user message', async () => {
+    const response = await POST(chatRequest([{ ...hello, role: 'assistant' }]));
     const data = await response.json();
 
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('The last message must come from the user');
+  });
+
+  it('should end the stream with an error event when it fails midway', async () => {
+    mockComplete.mockImplementation(streamTokens(['Partial '], new Error('Connection reset')));
+
+    const response = await POST(chatRequest([hello]));
+    const events = await readEvents(response);
+
     expect(response.status).toBe(200);
-    expect(data.message).toBe('This is a test response from OpenAI');
+    expect(events).toEqual([
+      { type: 'token', content: 'Partial ' },
+      { type: 'error', error: 'Connection reset', code: 'EXECUTION_FAILED' },
+    ]);
   });
 
-  it('should handle OpenAI API errors gracefully', async () => {
-    process.env.OPENAI_API_KEY = 'test-api-key';
-    mockCreate.mockRejectedValue(new Error('OpenAI API Error'));
+  it('should end the stream with an error event when the response fails validation', async () => {
+    mockComplete.mockImplementation(streamTokens(['Too short']));
 
-    const messages = [
-      {
-        id: '1',
-        role: 'user' as const,
-        content: 'Hello',
-        timestamp: new Date(),
-      },
-    ];
+    const events = await readEvents(await POST(chatRequest([hello])));
 
-    const request = new NextRequest('http://localhost:3000/api/ai/chat', {
-      method: 'POST',
-      body: JSON.stringify({ messages }),
+    expect(events[events.length - 1]).toMatchObject({ type: 'error', code: 'POSTCONDITION_FAILED' });
+  });
+
+  it('should abort the upstream request when the client stops reading', async () => {
+    let signal: AbortSignal | undefined;
+
+    // Never finishes on its own
+    mockComplete.mockImplementation(async (request) => {
+      signal = request.signal;
+      request.onToken?.('Hello');
+      return new Promise((_, reject) => signal!.addEventListener('abort', () => reject(new Error('Aborted'))));
     });
 
-    const response = await POST(request);
-    const data = await response.json();
+    const response = await POST(chatRequest([hello]));
+    const reader = response.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('should report provider errors as an error event', async () => {
+    mockComplete.mockRejectedValue(new Error('OpenAI API Error'));
+
+    const response = await POST(chatRequest([hello]));
+    const events = await readEvents(response);
 
-    expect(response.status).toBe(500);
-    expect(data.error).toBe('Failed to process chat request');
+    expect(events).toEqual([{ type: 'error', error: 'OpenAI API Error', code: 'EXECUTION_FAILED' }]);
   });
 });
@@ -1,66 +1,195 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
 import type { ChatMessage } from '@/types';
+import { chatInteractionSkill, type ChatInteractionInput } from '@/lib/skills/chat_interaction';
+import { SSE_HEADERS, createEventStream } from '@/lib/utils/sse';
+import { isBudgetError } from '@/lib/llm';
+import { logger, logAPIRequest } from '@/lib/utils/logger';
+import {
+  recordAPIRequest,
+  setActiveRequests,
+  metrics,
+  MetricNames,
+} from '@/lib/utils/metrics';
+import { withRateLimit } from '@/lib/rate-limit';
+import { getClientId } from '@/lib/auth/client';
+
+/**
+ * Earlier turns as the skill expects them: strictly alternating, so user
+ * messages that never got an answer (failed or stopped requests) are dropped
+ */
+function toConversationHistory(messages: ChatMessage[]): NonNullable<ChatInteractionInput['conversationHistory']> {
+  return messages
+    .filter((msg, i) => msg.content && !(msg.role === 'user' && messages[i + 1]?.role === 'user'))
+    .map((msg) => ({
+      role: msg.role,
+      content: msg.content,
+      timestamp: new Date(msg.timestamp),
+    }));
+}
+
+/**
+ * Answer the last user message with chatInteractionSkill, streamed as
+ * Server-Sent Events (see lib/utils/sse). The done event carries the full
+ * ChatInteractionOutput; failures once streaming has started end the
+ * stream with an error event.
+ */
+async function handlePost(request: NextRequest) {
+  const startTime = Date.now();
+  const traceId = crypto.randomUUID();
+  let statusCode = 200;
+  let streaming = false;
+
+  // Track active requests
+  const activeReqs = metrics.getGauge(MetricNames.ACTIVE_REQUESTS);
+  setActiveRequests(activeReqs + 1);
+
+  const finish = () => {
+    const duration = Date.now() - startTime;
+
+    // Record metrics
+    recordAPIRequest('/api/ai/chat', 'POST', statusCode, duration);
+    logAPIRequest('/api/ai/chat', 'POST', traceId, statusCode, duration);
+
+    // Update active requests
+    const activeReqs = metrics.getGauge(MetricNames.ACTIVE_REQUESTS);
+    setActiveRequests(Math.max(0, activeReqs - 1));
+  };
 
-export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { messages } = body as { messages: ChatMessage[] };
+    const { messages, context } = body as {
+      messages: ChatMessage[];
+      context?: ChatInteractionInput['context'];
+    };
 
     if (!messages || !Array.isArray(messages)) {
+      statusCode = 400;
       return NextResponse.json(
         { error: 'Invalid request body' },
         { status: 400 }
       );
     }
 
-    // If no OpenAI API key is configured, return a mock response for development
-    if (!process.env.OPENAI_API_KEY) {
-      console.warn('OPENAI_API_KEY not set, returning mock response');
-      return NextResponse.json({
-        message:
-          "Hello! I'm a mock AI assistant. To enable real AI responses, please set the OPENAI_API_KEY environment variable.",
-      });
+    const last = messages[messages.length - 1];
+
+    if (!last || last.role !== 'user') {
+      statusCode = 400;
+      return NextResponse.json(
+        { error: 'The last message must come from the user' },
+        { status: 400 }
+      );
     }
 
-    // Initialize OpenAI client lazily so env var is read per request
-    const openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
+    logger.info('Chat API request received', {
+      service: 'api',
+      operation: '/api/ai/chat',
+      traceId,
+      timestamp: new Date(),
+      metadata: { messages: messages.length, currentPage: context?.currentPage }
     });
 
-    // Convert our ChatMessage format to OpenAI's format
-    const openAIMessages = messages.map((msg) => ({
-      role: msg.role,
-      content: msg.content,
-    }));
+    const input: ChatInteractionInput = {
+      message: last.content,
+      conversationHistory: toConversationHistory(messages).slice(0, -1),
+      userId: getClientId(request),
+      context,
+    };
 
-    // Call OpenAI API
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4',
-      messages: openAIMessages,
-      temperature: 0.7,
-      max_tokens: 500,
-    });
+    const preValidation = await chatInteractionSkill.validatePreconditions(input);
+    if (!preValidation.valid) {
+      statusCode = 400;
+      return NextResponse.json(
+        {
+          error: preValidation.errors.map((e) => e.message).join(', '),
+          code: 'PRECONDITION_FAILED',
+          details: { errors: preValidation.errors }
+        },
+        { status: 400 }
+      );
+    }
 
-    const assistantMessage = completion.choices[0]?.message?.content;
+    // Aborted when the reader goes away, which stops the model request
+    const upstream = new AbortController();
 
-    if (!assistantMessage) {
-      throw new Error('No response from OpenAI');
-    }
+    const stream = createEventStream(
+      async (send) => {
+        try {
+          const output = await chatInteractionSkill.execute(
+            {
+              ...input,
+              options: {
+                onToken: (content) => send({ type: 'token', content }),
+                signal: upstream.signal,
+              },
+            },
+            {
+              traceId,
+              userId: input.userId,
+              sessionId: request.headers.get('x-session-id') || undefined
+            }
+          );
 
-    return NextResponse.json({
-      message: assistantMessage,
-    });
+          logger.info('Chat API request completed', {
+            service: 'api',
+            operation: '/api/ai/chat',
+            traceId,
+            timestamp: new Date(),
+            metadata: {
+              intent: output.intent.type,
+              sources: output.sources?.length || 0,
+              requiresHumanReview: output.metadata.requiresHumanReview,
+              duration_ms: Date.now() - startTime
+            }
+          });
+
+          send({ type: 'done', output });
+        } catch (error: any) {
+          // Stopped by the reader: nothing went wrong
+          if (upstream.signal.aborted) {
+            statusCode = 499;
+            throw error;
+          }
+
+          // The response is already 200; metrics record what it would have been
+          if (isBudgetError(error)) {
+            statusCode = 402;
+          } else {
+            statusCode = error.name === 'SkillExecutionError' && !error.recoverable ? 400 : 500;
+          }
+
+          logger.error('Chat API stream error', {
+            service: 'api',
+            operation: '/api/ai/chat',
+            traceId,
+            timestamp: new Date()
+          }, error);
+
+          throw error;
+        } finally {
+          finish();
+        }
+      },
+      () => upstream.abort()
+    );
+
+    streaming = true;
+    return new Response(stream, { headers: SSE_HEADERS });
   } catch (error) {
+    statusCode = 500;
     console.error('Error in chat API route:', error);
-    
+
     // Return appropriate error response
     const errorMessage =
       error instanceof Error ? error.message : 'An unknown error occurred';
-    
+
     return NextResponse.json(
       { error: 'Failed to process chat request', details: errorMessage },
       { status: 500 }
     );
+  } finally {
+    // Streamed responses are recorded once the stream ends
+    if (!streaming) finish();
   }
 }
+
+export const POST = withRateLimit('/api/ai/chat', handlePost);
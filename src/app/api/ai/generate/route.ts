@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { orchestrator } from '@/lib/agents';
+import { isBudgetError } from '@/lib/llm';
 import { logger, logAPIRequest } from '@/lib/utils/logger';
 import { recordAPIRequest, setActiveRequests, metrics, MetricNames } from '@/lib/utils/metrics';
+import { withRateLimit } from '@/lib/rate-limit';
+import { getClientId } from '@/lib/auth/client';
 
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest) {
   const startTime = Date.now();
   const traceId = crypto.randomUUID();
   let statusCode = 200;
@@ -61,7 +64,7 @@ export async function POST(request: NextRequest) {
       },
       context: {
         traceId,
-        userId: request.headers.get('x-user-id') || 'api-user',
+        userId: getClientId(request),
         sessionId: request.headers.get('x-session-id') || undefined
       }
     });
@@ -77,6 +80,15 @@ export async function POST(request: NextRequest) {
       }
     });
 
+    const overBudget = result.errors.find(isBudgetError);
+    if (overBudget) {
+      statusCode = 402;
+      return NextResponse.json(
+        { error: overBudget.error, code: overBudget.code },
+        { status: 402 }
+      );
+    }
+
     return NextResponse.json({
       success: result.success,
       ...result.result
@@ -119,3 +131,5 @@ export async function POST(request: NextRequest) {
     setActiveRequests(Math.max(0, activeReqs - 1));
   }
 }
+
+export const POST = withRateLimit('/api/ai/generate', handlePost);
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { orchestrator } from '@/lib/agents';
 import { metrics, calculateCacheHitRate } from '@/lib/utils/metrics';
 import { cache } from '@/lib/utils/cache';
+import { getBudgetLedger, getLLMProvider } from '@/lib/llm';
+import { withRateLimit } from '@/lib/rate-limit';
 
 /**
  * Health Check Endpoint
@@ -9,10 +11,11 @@ import { cache } from '@/lib/utils/cache';
  * Returns system health status including:
  * - API availability
  * - Agent system status
+ * - LLM provider in use and today's spend against the budgets
  * - Performance metrics
  * - Cache statistics
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     const startTime = Date.now();
     const cacheStats = cache.getStats();
@@ -33,6 +36,11 @@ export async function GET(request: NextRequest) {
           status: 'up',
           agents: ['planner', 'executor', 'coder', 'reviewer']
         },
+        llm: {
+          status: 'up',
+          provider: getLLMProvider().id,
+          spend: getBudgetLedger().getSpend()
+        },
         cache: {
           status: 'up',
           size: cacheStats.size,
@@ -58,3 +66,5 @@ export async function GET(request: NextRequest) {
     }, { status: 503 });
   }
 }
+
+export const GET = withRateLimit('/api/ai/health', handleGet);
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { metrics, calculateCacheHitRate } from '@/lib/utils/metrics';
+import { withRateLimit } from '@/lib/rate-limit';
 
 /**
  * Metrics Endpoint
@@ -9,7 +10,7 @@ import { metrics, calculateCacheHitRate } from '@/lib/utils/metrics';
  * 
  * Note: In production, this should be protected with authentication
  */
-export async function GET(request: NextRequest) {
+async function handleGet(request: NextRequest) {
   try {
     // Get all metrics
     const allMetrics = metrics.getAllMetrics();
@@ -39,7 +40,7 @@ export async function GET(request: NextRequest) {
  * Reset Metrics (for testing)
  * POST /api/ai/metrics with { "reset": true }
  */
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest) {
   try {
     const body = await request.json();
     
@@ -67,3 +68,6 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+export const GET = withRateLimit('/api/ai/metrics', handleGet);
+export const POST = withRateLimit('/api/ai/metrics', handlePost);
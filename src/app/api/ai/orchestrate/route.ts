@@ -8,8 +8,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { orchestrator } from '@/lib/agents';
 import type { OrchestratorRequest, WorkflowType } from '@/lib/agents';
+import { isBudgetError } from '@/lib/llm';
+import { withRateLimit } from '@/lib/rate-limit';
+import { getClientId } from '@/lib/auth/client';
 
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest) {
   try {
     const body = await request.json();
     const { intent, type, params } = body;
@@ -55,7 +58,7 @@ export async function POST(request: NextRequest) {
       params: params || {},
       context: {
         traceId: crypto.randomUUID(),
-        userId: request.headers.get('x-user-id') || undefined,
+        userId: getClientId(request),
         sessionId: request.headers.get('x-session-id') || undefined
       }
     };
@@ -63,6 +66,14 @@ export async function POST(request: NextRequest) {
     // Execute orchestration
     const result = await orchestrator.orchestrate(orchestratorRequest);
 
+    const overBudget = result.errors.find(isBudgetError);
+    if (overBudget) {
+      return NextResponse.json(
+        { error: overBudget.error, code: overBudget.code },
+        { status: 402 }
+      );
+    }
+
     // Return result
     return NextResponse.json({
       success: result.success,
@@ -105,7 +116,7 @@ export async function POST(request: NextRequest) {
 }
 
 // GET endpoint for supported workflow types
-export async function GET() {
+async function handleGet() {
   return NextResponse.json({
     workflows: [
       {
@@ -141,3 +152,6 @@ export async function GET() {
     ]
   });
 }
+
+export const POST = withRateLimit('/api/ai/orchestrate', handlePost);
+export const GET = withRateLimit('/api/ai/orchestrate', handleGet);
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { orchestrator } from '@/lib/agents';
+import { isBudgetError } from '@/lib/llm';
+import { withRateLimit } from '@/lib/rate-limit';
+import { getClientId } from '@/lib/auth/client';
 
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest) {
   try {
     const body = await request.json();
     const { content, length = 'medium', style = 'paragraph', focus, targetAudience } = body;
@@ -26,11 +29,19 @@ export async function POST(request: NextRequest) {
       },
       context: {
         traceId: crypto.randomUUID(),
-        userId: request.headers.get('x-user-id') || 'api-user',
+        userId: getClientId(request),
         sessionId: request.headers.get('x-session-id') || undefined
       }
     });
 
+    const overBudget = result.errors.find(isBudgetError);
+    if (overBudget) {
+      return NextResponse.json(
+        { error: overBudget.error, code: overBudget.code },
+        { status: 402 }
+      );
+    }
+
     return NextResponse.json({
       success: result.success,
       ...result.result
@@ -56,3 +67,5 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+export const POST = withRateLimit('/api/ai/summarize', handlePost);
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientId } from '@/lib/auth/client';
+import { getPublicPostBySlug } from '@/lib/posts';
+import { COMMENT_REACTIONS, getCommentStore, reactToComment, toPublicComment } from '@/lib/comments';
+import { withRateLimit } from '@/lib/rate-limit';
+
+/**
+ * Toggle the caller's reaction on a comment, one per client and reaction
+ * (see lib/auth/client for what counts as a client)
+ * POST /api/posts/{slug}/comments/{commentId}/reactions { reaction: 'like' }
+ */
+async function handlePost(
+  request: NextRequest,
+  { params }: { params: { slug: string; commentId: string } }
+) {
+  try {
+    const userId = getClientId(request);
+    const body = await request.json().catch(() => null);
+    const reaction = body && typeof body === 'object' ? body.reaction : undefined;
+
+    if (!COMMENT_REACTIONS.includes(reaction)) {
+      return NextResponse.json(
+        { error: `Invalid reaction. Must be: ${COMMENT_REACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const post = await getPublicPostBySlug(params.slug);
+
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+
+    const comment = await reactToComment(getCommentStore(), post.id, params.commentId, userId, reaction);
+
+    return NextResponse.json({ comment: toPublicComment(comment, userId) });
+  } catch (error: any) {
+    if (error.name === 'CommentError') {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'COMMENT_NOT_FOUND' ? 404 : 400 }
+      );
+    }
+
+    console.error('Error in comment reactions API:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to react to comment' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit('/api/posts/comments/reactions', handlePost);
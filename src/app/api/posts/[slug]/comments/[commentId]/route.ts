@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/auth/admin';
+import { getPostStore, getPublicPostBySlug } from '@/lib/posts';
+import {
+  COMMENT_REVIEW_STATUSES,
+  deleteComment,
+  getCommentStore,
+  reviewComment,
+  toPublicComment
+} from '@/lib/comments';
+
+const ERROR_STATUS: Record<string, number> = {
+  COMMENT_NOT_FOUND: 404,
+  FORBIDDEN: 403,
+  NOT_PENDING: 409,
+};
+
+/**
+ * Publish or reject a comment held for review (admin only)
+ * PATCH /api/posts/{slug}/comments/{commentId} { status: 'published' | 'rejected' }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { slug: string; commentId: string } }
+) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const status = body && typeof body === 'object' ? body.status : undefined;
+
+    if (!COMMENT_REVIEW_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Invalid status. Must be: ${COMMENT_REVIEW_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const post = await getPostStore().getBySlug(params.slug);
+
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+
+    const comment = await reviewComment(getCommentStore(), post.id, params.commentId, status);
+
+    return NextResponse.json({ comment });
+  } catch (error: any) {
+    if (error.name === 'CommentError') {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: ERROR_STATUS[error.code] || 400 }
+      );
+    }
+
+    console.error('Error in comment review API:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to review comment' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Delete a comment: an admin (x-admin-key), or its author with the token
+ * returned when it was created (x-comment-token). The comment becomes a
+ * tombstone so replies stay readable.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { slug: string; commentId: string } }
+) {
+  try {
+    const post = await getPublicPostBySlug(params.slug);
+
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+
+    const comment = await deleteComment(getCommentStore(), post.id, params.commentId, {
+      token: request.headers.get('x-comment-token') || undefined,
+      isAdmin: isAdminRequest(request),
+    });
+
+    return NextResponse.json({ comment: toPublicComment(comment) });
+  } catch (error: any) {
+    if (error.name === 'CommentError') {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: ERROR_STATUS[error.code] || 400 }
+      );
+    }
+
+    console.error('Error in comment delete API:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to delete comment' },
+      { status: 500 }
+    );
+  }
+}
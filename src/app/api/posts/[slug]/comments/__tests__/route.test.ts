@@ -0,0 +1,378 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET, POST } from '../route';
+import { DELETE, PATCH } from '../[commentId]/route';
+import { GET as LIST_PENDING } from '../pending/route';
+import { POST as REACT } from '../[commentId]/reactions/route';
+import { InMemoryPostStore, setPostStore } from '@/lib/posts';
+import { InMemoryCommentStore, setCommentStore } from '@/lib/comments';
+import { InMemoryRateLimitStore, setRateLimitStore } from '@/lib/rate-limit';
+import type { BlogPost } from '@/types';
+
+const mockModerate = vi.fn();
+
+// Mock the moderation skill
+vi.mock('@/lib/skills', () => ({
+  moderateContentSkill: {
+    execute: (...args: unknown[]) => mockModerate(...args),
+  },
+}));
+
+const post: BlogPost = {
+  id: '1',
+  slug: 'test-post',
+  title: 'Test Post',
+  excerpt: 'Excerpt',
+  content: 'Content',
+  author: 'Guido Miranda',
+  publishedAt: new Date('2024-01-15'),
+  updatedAt: new Date('2024-01-15'),
+  tags: ['test'],
+  category: 'Web Development',
+  status: 'published',
+};
+
+const moderation = (overrides: Record<string, unknown> = {}) => ({
+  approved: true,
+  flagged: false,
+  violations: [],
+  ...overrides,
+});
+
+const blockViolation = {
+  type: 'harassment',
+  severity: 'critical',
+  confidence: 0.95,
+  reason: 'Harassment detected',
+  suggestedAction: 'block',
+};
+
+const params = { params: { slug: 'test-post' } };
+
+const BASE_URL = 'http://localhost:3000/api/posts/test-post/comments';
+
+function postComment(content: string, clientIp = '198.51.100.1', parentId?: string, userId = 'user-1', author = 'Ada') {
+  return POST(
+    new NextRequest(BASE_URL, {
+      method: 'POST',
+      headers: { 'x-real-ip': clientIp, 'x-user-id': userId },
+      body: JSON.stringify({ author, content, parentId }),
+    }),
+    params
+  );
+}
+
+function getComments(query = '') {
+  return GET(new NextRequest(`${BASE_URL}${query}`), params);
+}
+
+function react(commentId: string, clientIp: string, reaction = 'like', userId = 'user-1') {
+  return REACT(
+    new NextRequest(`${BASE_URL}/${commentId}/reactions`, {
+      method: 'POST',
+      headers: { 'x-real-ip': clientIp, 'x-user-id': userId },
+      body: JSON.stringify({ reaction }),
+    }),
+    { params: { slug: 'test-post', commentId } }
+  );
+}
+
+function deleteComment(commentId: string, headers: Record<string, string>) {
+  return DELETE(
+    new NextRequest(`${BASE_URL}/${commentId}`, { method: 'DELETE', headers }),
+    { params: { slug: 'test-post', commentId } }
+  );
+}
+
+function reviewComment(commentId: string, status: string, headers: Record<string, string> = { 'x-admin-key': 'admin-secret' }) {
+  return PATCH(
+    new NextRequest(`${BASE_URL}/${commentId}`, { method: 'PATCH', headers, body: JSON.stringify({ status }) }),
+    { params: { slug: 'test-post', commentId } }
+  );
+}
+
+function listPending(headers: Record<string, string> = { 'x-admin-key': 'admin-secret' }) {
+  return LIST_PENDING(new NextRequest(`${BASE_URL}/pending`, { headers }), params);
+}
+
+describe('/api/posts/[slug]/comments', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    process.env.ADMIN_API_KEY = 'admin-secret';
+    process.env.COMMENT_SECRET = 'comment-secret';
+    const posts = new InMemoryPostStore();
+    await posts.save(post);
+    setPostStore(posts);
+    setCommentStore(new InMemoryCommentStore());
+    setRateLimitStore(new InMemoryRateLimitStore());
+    mockModerate.mockResolvedValue(moderation());
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    setRateLimitStore(null);
+  });
+
+  it('should publish approved comments', async () => {
+    const response = await postComment('Great post!');
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data.status).toBe('published');
+
+    const list = await (await getComments()).json();
+    expect(list.total).toBe(1);
+    expect(list.comments[0].comment).toMatchObject({ author: 'Ada', content: 'Great post!' });
+    expect(list.comments[0].comment.userId).toBeUndefined();
+  });
+
+  it('should publish comments without an author as Anonymous', async () => {
+    const response = await POST(
+      new NextRequest(BASE_URL, {
+        method: 'POST',
+        headers: { 'x-user-id': 'user-1' },
+        body: JSON.stringify({ author: '  ', content: 'Hi' }),
+      }),
+      params
+    );
+    const data = await response.json();
+
+    expect(data.comment.author).toBe('Anonymous');
+    expect(JSON.stringify(data)).not.toContain('user-1');
+  });
+
+  it('should hold comments that need review', async () => {
+    mockModerate.mockResolvedValue(moderation({
+      approved: false,
+      flagged: true,
+      violations: [{ ...blockViolation, severity: 'medium', suggestedAction: 'review', reason: 'Spam indicators detected' }],
+    }));
+
+    const response = await postComment('Buy now!');
+    const data = await response.json();
+
+    expect(response.status).toBe(202);
+    expect(data.status).toBe('pending');
+    expect((await (await getComments()).json()).comments).toHaveLength(0);
+  });
+
+  it('should let an admin list and publish held comments', async () => {
+    mockModerate.mockRejectedValue(new Error('Moderation API down'));
+    const { id } = await (await postComment('Great post!')).json();
+
+    expect((await listPending({})).status).toBe(401);
+    expect((await reviewComment(id, 'published', {})).status).toBe(401);
+
+    const pending = await (await listPending()).json();
+    expect(pending.comments.map((comment: any) => comment.id)).toEqual([id]);
+    expect(pending.comments[0].moderation.reasons).toEqual(['Moderation unavailable']);
+
+    const response = await reviewComment(id, 'published');
+    expect(response.status).toBe(200);
+    expect((await response.json()).comment.status).toBe('published');
+
+    expect((await (await listPending()).json()).total).toBe(0);
+    expect((await (await getComments()).json()).comments[0].comment.content).toBe('Great post!');
+  });
+
+  it('should only review pending comments', async () => {
+    const { id } = await (await postComment('Great post!')).json();
+
+    expect((await reviewComment(id, 'rejected')).status).toBe(409);
+    expect((await reviewComment(id, 'pending')).status).toBe(400);
+    expect((await reviewComment('missing', 'published')).status).toBe(404);
+  });
+
+  it('should reject blocked comments', async () => {
+    mockModerate.mockResolvedValue(moderation({ approved: false, flagged: true, violations: [blockViolation] }));
+
+    const response = await postComment('Something nasty');
+    const data = await response.json();
+
+    expect(response.status).toBe(422);
+    expect(data.status).toBe('rejected');
+    expect(data.reasons).toEqual(['Harassment detected']);
+  });
+
+  it('should moderate the author name with the content', async () => {
+    mockModerate.mockImplementation(async ({ content }: { content: string }) =>
+      content.includes('Slur')
+        ? moderation({ approved: false, flagged: true, violations: [blockViolation] })
+        : moderation()
+    );
+
+    const response = await postComment('Great post!', '198.51.100.1', undefined, 'user-1', 'Slur McSlurface');
+
+    expect(response.status).toBe(422);
+    expect(mockModerate.mock.calls[0][0].content).toBe('Slur McSlurface\n\nGreat post!');
+  });
+
+  it('should cap the author name', async () => {
+    const response = await postComment('Great post!', '198.51.100.1', undefined, 'user-1', 'a'.repeat(81));
+
+    expect(response.status).toBe(400);
+    expect(mockModerate).not.toHaveBeenCalled();
+  });
+
+  it('should pass the commenter\'s rejected comments as previous violations', async () => {
+    mockModerate.mockResolvedValue(moderation({ approved: false, flagged: true, violations: [blockViolation] }));
+    await postComment('Something nasty');
+    await postComment('Something nasty again');
+
+    mockModerate.mockResolvedValue(moderation());
+    await postComment('Sorry');
+    await postComment('Hello', '198.51.100.2');
+
+    const previousViolations = mockModerate.mock.calls.map(([input]) => input.context.previousViolations);
+    expect(previousViolations).toEqual([0, 1, 2, 0]);
+  });
+
+  it('should keep the moderation history when the client rotates x-user-id', async () => {
+    mockModerate.mockResolvedValue(moderation({ approved: false, flagged: true, violations: [blockViolation] }));
+    await postComment('Something nasty', '198.51.100.1', undefined, 'user-1');
+    await postComment('Something nasty again', '198.51.100.1', undefined, 'user-2');
+
+    expect(mockModerate.mock.calls[1][0].context).toMatchObject({
+      userId: 'ip:198.51.100.1',
+      previousViolations: 1,
+    });
+  });
+
+  it('should hold comments when moderation fails', async () => {
+    mockModerate.mockRejectedValue(new Error('Moderation API down'));
+
+    const response = await postComment('Great post!');
+
+    expect(response.status).toBe(202);
+    expect((await response.json()).status).toBe('pending');
+  });
+
+  it('should require content', async () => {
+    expect((await postComment('   ')).status).toBe(400);
+    expect((await POST(new NextRequest(BASE_URL, { method: 'POST', body: 'null' }), params)).status).toBe(400);
+    expect(mockModerate).not.toHaveBeenCalled();
+  });
+
+  it('should nest replies under their parent', async () => {
+    const { id: parentId } = await (await postComment('Parent')).json();
+    const reply = await postComment('Reply', '198.51.100.2', parentId);
+
+    expect(reply.status).toBe(201);
+
+    const list = await (await getComments()).json();
+    expect(list.comments).toHaveLength(1);
+    expect(list.comments[0].replies[0].comment).toMatchObject({ content: 'Reply', parentId, depth: 1 });
+  });
+
+  it('should reject replies to unknown comments', async () => {
+    const response = await postComment('Reply', '198.51.100.2', 'missing');
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).code).toBe('INVALID_PARENT');
+  });
+
+  it('should toggle reactions and sort by top', async () => {
+    const { id: first } = await (await postComment('First')).json();
+    const { id: second } = await (await postComment('Second')).json();
+
+    await react(second, '198.51.100.2');
+    await react(second, '198.51.100.3', 'insightful');
+    await react(first, '198.51.100.2');
+    const toggledOff = await (await react(first, '198.51.100.2')).json();
+
+    expect(toggledOff.comment.reactions).toEqual({});
+
+    const list = await (await getComments('?sort=top')).json();
+    expect(list.comments.map((node: any) => node.comment.content)).toEqual(['Second', 'First']);
+    expect(list.comments[0].comment.reactions).toEqual({ like: 1, insightful: 1 });
+    expect((await getComments('?sort=best')).status).toBe(400);
+  });
+
+  it('should reject reaction bodies that are not objects', async () => {
+    const { id } = await (await postComment('Popular?')).json();
+
+    for (const body of ['null', '"like"', 'not json']) {
+      const response = await REACT(
+        new NextRequest(`${BASE_URL}/${id}/reactions`, { method: 'POST', body }),
+        { params: { slug: 'test-post', commentId: id } }
+      );
+      expect(response.status).toBe(400);
+    }
+  });
+
+  it('should count one reaction per client however x-user-id rotates', async () => {
+    const { id } = await (await postComment('Popular?')).json();
+
+    await react(id, '198.51.100.2', 'like', 'user-2');
+    const second = await (await react(id, '198.51.100.2', 'like', 'user-3')).json();
+
+    expect(second.comment.reactions).toEqual({});
+  });
+
+  it('should rate limit comment submissions per client', async () => {
+    const statuses: number[] = [];
+
+    for (let i = 0; i < 6; i++) {
+      statuses.push((await postComment(`Comment ${i}`)).status);
+    }
+
+    expect(statuses).toEqual([201, 201, 201, 201, 201, 429]);
+    expect(mockModerate).toHaveBeenCalledTimes(5);
+    expect((await postComment('Hi', '198.51.100.2')).status).toBe(201);
+  });
+
+  it('should rate limit reactions per client', async () => {
+    const { id } = await (await postComment('Popular?')).json();
+    const statuses: number[] = [];
+
+    for (let i = 0; i < 31; i++) {
+      statuses.push((await react(id, '198.51.100.2')).status);
+    }
+
+    expect(statuses.filter(status => status === 429)).toHaveLength(1);
+    expect((await react(id, '198.51.100.3')).status).toBe(200);
+  });
+
+  it('should leave a tombstone when a parent with replies is deleted', async () => {
+    const { id: parentId, token } = await (await postComment('Parent')).json();
+    const { token: replyToken } = await (await postComment('Reply', '198.51.100.2', parentId)).json();
+
+    expect((await deleteComment(parentId, { 'x-comment-token': replyToken })).status).toBe(403);
+    expect((await deleteComment(parentId, { 'x-comment-token': token })).status).toBe(200);
+
+    const list = await (await getComments()).json();
+    expect(list.total).toBe(1);
+    expect(list.comments[0].comment).toMatchObject({ deleted: true, content: '', author: '[deleted]' });
+    expect(list.comments[0].replies[0].comment.content).toBe('Reply');
+  });
+
+  it('should only let the comment token or the admin key delete', async () => {
+    const { id } = await (await postComment('Mine')).json();
+
+    expect((await deleteComment(id, { 'x-user-id': 'user-1' })).status).toBe(403);
+    expect((await deleteComment(id, { 'x-admin-key': 'admin-secret' })).status).toBe(200);
+  });
+
+  it('should not issue tokens for rejected comments or without COMMENT_SECRET', async () => {
+    mockModerate.mockResolvedValue(moderation({ approved: false, flagged: true, violations: [blockViolation] }));
+    expect((await (await postComment('Something nasty')).json()).token).toBeUndefined();
+
+    mockModerate.mockResolvedValue(moderation());
+    delete process.env.COMMENT_SECRET;
+    const { id, token } = await (await postComment('Hi')).json();
+
+    expect(token).toBeUndefined();
+    expect((await deleteComment(id, { 'x-comment-token': 'anything' })).status).toBe(403);
+  });
+
+  it('should return 404 for posts that are not public', async () => {
+    const posts = new InMemoryPostStore();
+    await posts.save({ ...post, status: 'draft' });
+    setPostStore(posts);
+
+    expect((await getComments()).status).toBe(404);
+    expect((await postComment('Hi')).status).toBe(404);
+  });
+});
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/auth/admin';
+import { getPostStore } from '@/lib/posts';
+import { getCommentStore } from '@/lib/comments';
+
+/**
+ * Comments moderation held for review, oldest first, with the moderation
+ * reasons (admin only). Publish or reject them with
+ * PATCH /api/posts/{slug}/comments/{commentId}.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const post = await getPostStore().getBySlug(params.slug);
+
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+
+    const comments = await getCommentStore().list(post.id, { status: 'pending' });
+
+    return NextResponse.json({ comments, total: comments.length });
+  } catch (error: any) {
+    console.error('Error in pending comments API:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to list pending comments' },
+      { status: 500 }
+    );
+  }
+}
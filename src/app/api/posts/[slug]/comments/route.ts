@@ -0,0 +1,205 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientId } from '@/lib/auth/client';
+import { getPublicPostBySlug } from '@/lib/posts';
+import {
+  buildCommentTree,
+  COMMENT_AUTHOR_MAX_LENGTH,
+  COMMENT_MAX_LENGTH,
+  COMMENT_SORTS,
+  createCommentToken,
+  getCommentStore,
+  submitComment,
+  toPublicComment,
+  type CommentSort
+} from '@/lib/comments';
+import { withRateLimit } from '@/lib/rate-limit';
+import { logger, logAPIRequest } from '@/lib/utils/logger';
+import { recordAPIRequest } from '@/lib/utils/metrics';
+
+/**
+ * Shown when the author field is left blank; the commenter id is never public
+ */
+const ANONYMOUS_AUTHOR = 'Anonymous';
+
+/**
+ * Published comments of a public post as a reply tree
+ * GET /api/posts/{slug}/comments?sort=oldest|newest|top
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  const sort = (request.nextUrl.searchParams.get('sort') || 'oldest') as CommentSort;
+
+  if (!COMMENT_SORTS.includes(sort)) {
+    return NextResponse.json(
+      { error: `Invalid sort. Must be: ${COMMENT_SORTS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const post = await getPublicPostBySlug(params.slug);
+
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+
+    const comments = await getCommentStore().list(post.id, { status: 'published' });
+
+    return NextResponse.json({
+      comments: buildCommentTree(comments, sort, getClientId(request)),
+      total: comments.filter(comment => !comment.deletedAt).length,
+      sort,
+    });
+  } catch (error: any) {
+    console.error('Error in comments API:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to load comments' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Submit a comment. It is moderated before anything is stored:
+ * 201 published, 202 held for review, 422 rejected. Unless rejected, the
+ * response carries the token that lets the commenter delete it later.
+ */
+async function handlePost(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  const startTime = Date.now();
+  const traceId = crypto.randomUUID();
+  const operation = `/api/posts/${params.slug}/comments`;
+  let statusCode = 201;
+
+  try {
+    const userId = getClientId(request);
+    const body = await request.json().catch(() => null);
+
+    if (!body || typeof body !== 'object') {
+      statusCode = 400;
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    const { content, author, parentId } = body;
+
+    if (!content || typeof content !== 'string' || !content.trim()) {
+      statusCode = 400;
+      return NextResponse.json(
+        { error: 'Content is required and must be a string' },
+        { status: 400 }
+      );
+    }
+
+    if (content.length > COMMENT_MAX_LENGTH) {
+      statusCode = 400;
+      return NextResponse.json(
+        { error: `Content must be at most ${COMMENT_MAX_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (author !== undefined && typeof author !== 'string') {
+      statusCode = 400;
+      return NextResponse.json(
+        { error: 'Author must be a string' },
+        { status: 400 }
+      );
+    }
+
+    if (author && author.trim().length > COMMENT_AUTHOR_MAX_LENGTH) {
+      statusCode = 400;
+      return NextResponse.json(
+        { error: `Author must be at most ${COMMENT_AUTHOR_MAX_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (parentId !== undefined && typeof parentId !== 'string') {
+      statusCode = 400;
+      return NextResponse.json(
+        { error: 'parentId must be a string' },
+        { status: 400 }
+      );
+    }
+
+    const post = await getPublicPostBySlug(params.slug);
+
+    if (!post) {
+      statusCode = 404;
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+
+    const comment = await submitComment(
+      getCommentStore(),
+      {
+        postId: post.id,
+        userId,
+        author: author?.trim() || ANONYMOUS_AUTHOR,
+        content: content.trim(),
+        parentId,
+      },
+      {
+        traceId,
+        sessionId: request.headers.get('x-session-id') || undefined,
+      }
+    );
+
+    logger.info('Comment submitted', {
+      service: 'api',
+      operation,
+      traceId,
+      timestamp: new Date(),
+      metadata: { postId: post.id, commentId: comment.id, status: comment.status }
+    });
+
+    statusCode = comment.status === 'published' ? 201 : comment.status === 'pending' ? 202 : 422;
+
+    return NextResponse.json(
+      {
+        id: comment.id,
+        status: comment.status,
+        reasons: comment.moderation?.reasons || [],
+        token: comment.status === 'rejected' ? undefined : createCommentToken(comment.id),
+        comment: comment.status === 'published' ? toPublicComment(comment, userId) : undefined,
+      },
+      { status: statusCode }
+    );
+  } catch (error: any) {
+    if (error.name === 'CommentError') {
+      statusCode = 400;
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 400 }
+      );
+    }
+
+    statusCode = 500;
+
+    logger.error('Comments API error', {
+      service: 'api',
+      operation,
+      traceId,
+      timestamp: new Date()
+    }, error);
+
+    return NextResponse.json(
+      { error: 'Failed to submit comment' },
+      { status: 500 }
+    );
+  } finally {
+    const duration = Date.now() - startTime;
+
+    recordAPIRequest('/api/posts/comments', 'POST', statusCode, duration);
+    logAPIRequest('/api/posts/comments', 'POST', traceId, statusCode, duration);
+  }
+}
+
+export const POST = withRateLimit('/api/posts/comments', handlePost);
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/auth/admin';
+import { createPreviewToken, getPostStore, getPreviewPath, isPreviewEnabled } from '@/lib/posts';
+
+/**
+ * Issue a signed preview URL for any post, whatever its status (admin only)
+ * GET /api/posts/{slug}/preview-url?ttl=<seconds>, at most 7 days
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!isPreviewEnabled()) {
+    return NextResponse.json(
+      { error: 'Previews are disabled: PREVIEW_SECRET is not configured' },
+      { status: 503 }
+    );
+  }
+
+  const ttlParam = request.nextUrl.searchParams.get('ttl');
+  const ttl = ttlParam === null ? undefined : Number(ttlParam);
+
+  if (ttl !== undefined && !(Number.isFinite(ttl) && ttl > 0)) {
+    return NextResponse.json(
+      { error: 'ttl must be a positive number of seconds' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const post = await getPostStore().getBySlug(params.slug);
+
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+
+    const token = createPreviewToken(post.slug, ttl);
+
+    return NextResponse.json({
+      url: new URL(getPreviewPath(token), request.nextUrl.origin).toString(),
+      expiresAt: new Date(token.expires * 1000).toISOString(),
+      status: post.status,
+    });
+  } catch (error: any) {
+    console.error('Error in preview-url API:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to create preview URL' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/auth/admin';
+import { getPostStore } from '@/lib/posts';
+
+/**
+ * Restore an older revision as the current post (admin only).
+ * The restore is recorded as a new revision.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { slug: string; revisionId: string } }
+) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const store = getPostStore();
+    const post = await store.getBySlug(params.slug);
+
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+
+    const { post: restored, revision } = await store.restoreRevision(
+      post.id,
+      params.revisionId,
+      request.headers.get('x-user-id') || 'admin'
+    );
+
+    return NextResponse.json({
+      success: true,
+      post: restored,
+      revision: {
+        id: revision.id,
+        number: revision.number,
+        restoredFrom: revision.restoredFrom,
+      },
+    });
+  } catch (error: any) {
+    if (error.name === 'RevisionError') {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 404 }
+      );
+    }
+
+    if (error.name === 'PostStoreError') {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 409 }
+      );
+    }
+
+    console.error('Error in revision restore API:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to restore revision' },
+      { status: 500 }
+    );
+  }
+}
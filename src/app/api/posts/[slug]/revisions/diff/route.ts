@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/auth/admin';
+import { getPostStore } from '@/lib/posts';
+
+/**
+ * Line-level markdown diff between two revisions (admin only)
+ * GET /api/posts/{slug}/revisions/diff?from=rev-1&to=rev-3
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const from = request.nextUrl.searchParams.get('from');
+  const to = request.nextUrl.searchParams.get('to');
+
+  if (!from || !to) {
+    return NextResponse.json(
+      { error: 'Both "from" and "to" revision ids are required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const store = getPostStore();
+    const post = await store.getBySlug(params.slug);
+
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+
+    const comparison = await store.compareRevisions(post.id, from, to);
+
+    return NextResponse.json({
+      from: comparison.from.id,
+      to: comparison.to.id,
+      changedFields: comparison.changedFields,
+      diff: comparison.content,
+    });
+  } catch (error: any) {
+    if (error.name === 'RevisionError') {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 404 }
+      );
+    }
+
+    console.error('Error in revision diff API:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to diff revisions' },
+      { status: 500 }
+    );
+  }
+}
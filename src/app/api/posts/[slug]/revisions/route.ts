@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/auth/admin';
+import { getPostStore } from '@/lib/posts';
+
+/**
+ * Revision history of a post, newest first (admin only)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const store = getPostStore();
+    const post = await store.getBySlug(params.slug);
+
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+
+    const revisions = await store.listRevisions(post.id);
+
+    return NextResponse.json({
+      postId: post.id,
+      revisions: revisions.map(({ snapshot, ...revision }) => ({
+        ...revision,
+        title: snapshot.title,
+        status: snapshot.status,
+      })),
+    });
+  } catch (error: any) {
+    console.error('Error in revisions API:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to list revisions' },
+      { status: 500 }
+    );
+  }
+}
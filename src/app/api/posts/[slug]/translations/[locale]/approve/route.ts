@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/auth/admin';
+import { getCanonicalPostPath } from '@/lib/posts';
+import { approveTranslation } from '@/lib/translation/drafts';
+
+/**
+ * Publish a reviewed translation draft (admin only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { slug: string; locale: string } }
+) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const post = await approveTranslation(
+      params.slug,
+      params.locale.trim().toLowerCase(),
+      request.headers.get('x-user-id') || 'admin'
+    );
+
+    return NextResponse.json({
+      success: true,
+      post,
+      path: getCanonicalPostPath(post),
+    });
+  } catch (error: any) {
+    if (error.name === 'TranslationDraftError') {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'POST_NOT_FOUND' ? 404 : 409 }
+      );
+    }
+
+    if (error.name === 'PostStoreError') {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 409 }
+      );
+    }
+
+    console.error('Error in translation approve API:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to approve translation' },
+      { status: 500 }
+    );
+  }
+}
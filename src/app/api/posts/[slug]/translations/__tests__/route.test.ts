@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+import { POST as APPROVE } from '../[locale]/approve/route';
+import { InMemoryPostStore, setPostStore } from '@/lib/posts';
+import { BudgetLedger, FakeLLMProvider, setBudgetLedger, setLLMProvider } from '@/lib/llm';
+import { translateContentSkill } from '@/lib/skills/translate_content';
+import { cache } from '@/lib/utils/cache';
+import { makePost } from '../../../../../../../tests/fixtures/posts';
+
+const post = makePost({
+  id: 'hooks',
+  slug: 'hooks',
+  title: 'Understanding hooks',
+  excerpt: 'A short tour of hooks',
+  content: 'Hooks let components keep state.\n\nCall them at the top level.',
+});
+
+const translator = new FakeLLMProvider({
+  respond: request => {
+    const { segments } = JSON.parse(request.messages[1].content) as { segments: string[] };
+    return { segments: segments.map(s => `ES ${s}`) };
+  },
+});
+
+function translate(locale: unknown) {
+  return POST(
+    new NextRequest('http://localhost:3000/api/posts/hooks/translations', {
+      method: 'POST',
+      headers: { 'x-admin-key': 'admin-secret' },
+      body: JSON.stringify({ locale }),
+    }),
+    { params: { slug: 'hooks' } }
+  );
+}
+
+describe('POST /api/posts/[slug]/translations', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env.ADMIN_API_KEY = 'admin-secret';
+    process.env.PREVIEW_SECRET = 'preview-secret';
+    cache.clear();
+    setLLMProvider(translator);
+    setPostStore(new InMemoryPostStore(async () => [post]));
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    setPostStore(null);
+    setLLMProvider(null);
+    setBudgetLedger(null);
+    vi.restoreAllMocks();
+  });
+
+  it('should only translate into site locales', async () => {
+    const response = await translate('fr');
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain('en, es');
+  });
+
+  it('should reject bodies that are not objects', async () => {
+    for (const body of ['null', '"es"', 'not json']) {
+      const response = await POST(
+        new NextRequest('http://localhost:3000/api/posts/hooks/translations', {
+          method: 'POST',
+          headers: { 'x-admin-key': 'admin-secret' },
+          body,
+        }),
+        { params: { slug: 'hooks' } }
+      );
+      expect(response.status).toBe(400);
+    }
+  });
+
+  it('should normalize the locale, so case variants cannot duplicate a version', async () => {
+    const created = await translate(' ES ');
+    const duplicate = await translate('es');
+
+    expect(created.status).toBe(201);
+    expect((await created.json()).post.locale).toBe('es');
+    expect(duplicate.status).toBe(409);
+    expect(await duplicate.json()).toMatchObject({ code: 'TRANSLATION_EXISTS' });
+  });
+
+  it('should approve a draft whatever the case of the locale in the path', async () => {
+    await translate('es');
+
+    const response = await APPROVE(
+      new NextRequest('http://localhost:3000/api/posts/hooks/translations/ES/approve', {
+        method: 'POST',
+        headers: { 'x-admin-key': 'admin-secret' },
+      }),
+      { params: { slug: 'hooks', locale: 'ES' } }
+    );
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).post).toMatchObject({ locale: 'es', status: 'published' });
+  });
+
+  it('should answer 503 before translating when previews are disabled', async () => {
+    delete process.env.PREVIEW_SECRET;
+
+    expect((await translate('es')).status).toBe(503);
+
+    // Nothing was saved, so a retry once previews are on is not a conflict
+    process.env.PREVIEW_SECRET = 'preview-secret';
+    expect((await translate('es')).status).toBe(201);
+  });
+
+  it('should answer 402 when over budget', async () => {
+    setBudgetLedger(new BudgetLedger({ perRequestUSD: 0, perUserDailyUSD: 0, dailyUSD: 0 }));
+
+    const response = await translate('es');
+
+    expect(response.status).toBe(402);
+    expect(await response.json()).toMatchObject({ code: 'REQUEST_BUDGET_EXCEEDED' });
+  });
+
+  it('should blame the model, not the client, when translation fails', async () => {
+    setLLMProvider(new FakeLLMProvider({
+      respond: () => {
+        throw new Error('Provider down');
+      },
+    }));
+
+    const response = await translate('es');
+
+    expect(response.status).toBe(502);
+  });
+
+  it('should answer 502 when the translated frontmatter is malformed', async () => {
+    vi.spyOn(translateContentSkill, 'execute').mockResolvedValue({
+      translatedText: '---\ntitle: [unclosed\n---\n\nCuerpo',
+      sourceLanguage: 'en',
+      targetLanguage: 'es',
+      confidence: 0.9,
+      metadata: { translatedAt: new Date(), model: 'gpt-4o-mini', chunks: 1, tokensUsed: 0, costUSD: 0, durationMs: 0 },
+    });
+
+    const response = await translate('es');
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_TRANSLATION' });
+  });
+});
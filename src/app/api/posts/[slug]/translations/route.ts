@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/auth/admin';
+import { createPreviewToken, getMissingLocales, getPostStore, getPreviewPath, isPreviewEnabled } from '@/lib/posts';
+import { createTranslationDraft, listTranslations } from '@/lib/translation/drafts';
+import { isBudgetError } from '@/lib/llm';
+import { SITE_LOCALES } from '@/lib/site';
+
+const TRANSLATION_ERROR_STATUS: Record<string, number> = {
+  POST_NOT_FOUND: 404,
+  INVALID_TRANSLATION: 502,
+};
+
+/**
+ * List every language version of a post, drafts included, and the site
+ * languages it is still missing (admin only)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const store = getPostStore();
+    const post = await store.getBySlug(params.slug);
+
+    if (!post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      translations: await listTranslations(post.slug),
+      missing: getMissingLocales(post, await store.list()),
+    });
+  } catch (error: any) {
+    console.error('Error in translations API:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to list translations' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Machine-translate a post into a missing language (admin only).
+ * The result is saved as a draft and returned with a preview URL; it is
+ * published once approved.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  // The draft is reviewed through its preview URL; don't spend a translation without one
+  if (!isPreviewEnabled()) {
+    return NextResponse.json(
+      { error: 'Previews are disabled: PREVIEW_SECRET is not configured' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { error: 'Request body must be a JSON object' },
+        { status: 400 }
+      );
+    }
+
+    if (!body.locale || typeof body.locale !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing required field: locale' },
+        { status: 400 }
+      );
+    }
+
+    // Only site languages are routed; anything else would be a draft nobody can read
+    const locale = body.locale.trim().toLowerCase();
+    if (!SITE_LOCALES.includes(locale)) {
+      return NextResponse.json(
+        { error: `Invalid locale. Must be one of: ${SITE_LOCALES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { post, confidence, warnings } = await createTranslationDraft(
+      params.slug,
+      locale,
+      request.headers.get('x-user-id') || 'admin'
+    );
+    const token = createPreviewToken(post.slug);
+
+    return NextResponse.json(
+      {
+        success: true,
+        post,
+        previewUrl: new URL(getPreviewPath(token), request.nextUrl.origin).toString(),
+        confidence,
+        warnings,
+      },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    if (error.name === 'TranslationDraftError') {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: TRANSLATION_ERROR_STATUS[error.code] || 409 }
+      );
+    }
+
+    if (error.name === 'PostStoreError') {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 409 }
+      );
+    }
+
+    if (isBudgetError(error)) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 402 }
+      );
+    }
+
+    // Only a precondition failure is about the request; the rest is the model's
+    if (error.name === 'SkillExecutionError') {
+      const status = error.code === 'PRECONDITION_FAILED' ? 400 : error.recoverable ? 502 : 500;
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status }
+      );
+    }
+
+    console.error('Error in translations API:', error);
+
+    return NextResponse.json(
+      { error: 'Failed to create translation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { searchPosts } from '@/lib/search';
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+/**
+ * Full-text search over public posts
+ * GET /api/search?q=typescript&limit=10
+ */
+export async function GET(request: NextRequest) {
+  const query = request.nextUrl.searchParams.get('q')?.trim();
+  const limit = Number(request.nextUrl.searchParams.get('limit') || DEFAULT_LIMIT);
+
+  if (!query) {
+    return NextResponse.json(
+      { error: 'Query parameter "q" is required' },
+      { status: 400 }
+    );
+  }
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return NextResponse.json(
+      { error: `limit must be an integer between 1 and ${MAX_LIMIT}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const results = await searchPosts(query, { limit });
+
+    return NextResponse.json({
+      query,
+      total: results.length,
+      results: results.map(({ post, score, highlightedTitle, snippet }) => ({
+        id: post.id,
+        slug: post.slug,
+        title: post.title,
+        highlightedTitle,
+        snippet,
+        tags: post.tags,
+        publishedAt: post.publishedAt,
+        score,
+      })),
+    });
+  } catch (error: any) {
+    console.error('Error in search API:', error);
+
+    return NextResponse.json(
+      { error: 'Search failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,12 @@
+import { createSiteFeedResponse } from '@/lib/feeds';
+
+export const dynamic = 'force-static';
+export const revalidate = 60;
+
+/**
+ * Site-wide Atom feed
+ * GET /atom.xml
+ */
+export async function GET() {
+  return createSiteFeedResponse('atom');
+}
@@ -0,0 +1,79 @@
+import { notFound } from 'next/navigation';
+import { PostArchive } from '@/components/blog/PostArchive';
+import { ArchiveSidebar } from '@/components/blog/ArchiveSidebar';
+import {
+  filterByMonth,
+  formatArchiveMonth,
+  getArchiveMonths,
+  getArchiveUrl,
+  listPublicPostsInLocale,
+  parseArchiveParams,
+} from '@/lib/posts';
+
+export const revalidate = 60;
+
+/*
+ * Monthly archive at /blog/[year]/[month]. Next.js requires sibling
+ * dynamic segments to share a name, so the year arrives as `slug`
+ * (the same segment as /blog/[slug]).
+ */
+
+type ArchiveParams = { slug: string; month: string };
+
+// Generate static params for every month with a public post
+export async function generateStaticParams() {
+  const posts = await listPublicPostsInLocale();
+  return getArchiveMonths(posts).map(({ year, month }) => ({
+    slug: String(year),
+    month: String(month).padStart(2, '0'),
+  }));
+}
+
+async function getMonth(params: ArchiveParams) {
+  const parsed = parseArchiveParams(params.slug, params.month);
+  if (!parsed) return undefined;
+
+  const posts = await listPublicPostsInLocale();
+  const monthPosts = filterByMonth(posts, parsed.year, parsed.month);
+  if (monthPosts.length === 0) return undefined;
+
+  return { ...parsed, posts: monthPosts, months: getArchiveMonths(posts) };
+}
+
+export async function generateMetadata({ params }: { params: ArchiveParams }) {
+  const archive = await getMonth(params);
+
+  if (!archive) {
+    return {
+      title: 'Archive Not Found',
+    };
+  }
+
+  return {
+    title: `${formatArchiveMonth(archive.year, archive.month)} | Guido Miranda Blog`,
+    description: `Posts published in ${formatArchiveMonth(archive.year, archive.month)}`,
+    alternates: {
+      canonical: getArchiveUrl(archive.year, archive.month),
+    },
+  };
+}
+
+export default async function MonthArchivePage({ params }: { params: ArchiveParams }) {
+  const archive = await getMonth(params);
+
+  if (!archive) {
+    notFound();
+  }
+
+  const { year, month, posts, months } = archive;
+
+  return (
+    <PostArchive
+      title={formatArchiveMonth(year, month)}
+      description={`${posts.length} ${posts.length === 1 ? 'post' : 'posts'} published`}
+      posts={posts}
+      backLink={{ href: '/blog', label: 'All posts' }}
+      sidebar={<ArchiveSidebar months={months} current={{ year, month }} />}
+    />
+  );
+}
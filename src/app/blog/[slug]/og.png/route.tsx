@@ -0,0 +1,59 @@
+import { ImageResponse } from 'next/og';
+import { NextResponse } from 'next/server';
+import { getPublicPostBySlug, listPublicPosts } from '@/lib/posts';
+import { OG_IMAGE_SIZE } from '@/lib/seo';
+import { SITE_TITLE } from '@/lib/site';
+
+export const dynamic = 'force-static';
+
+// Posts with their own imageUrl use it as the social image
+export async function generateStaticParams() {
+  const posts = await listPublicPosts();
+  return posts
+    .filter((post) => !post.imageUrl)
+    .map((post) => ({
+      slug: post.slug,
+    }));
+}
+
+/**
+ * Generated Open Graph card for a post
+ * GET /blog/my-post/og.png
+ */
+export async function GET(_request: Request, { params }: { params: { slug: string } }) {
+  const post = await getPublicPostBySlug(params.slug);
+
+  if (!post) {
+    return NextResponse.json(
+      { error: 'Post not found' },
+      { status: 404 }
+    );
+  }
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'space-between',
+          padding: 80,
+          background: 'linear-gradient(135deg, #1e3a8a 0%, #2563eb 100%)',
+          color: 'white',
+        }}
+      >
+        <div style={{ display: 'flex', fontSize: 28, opacity: 0.8 }}>{post.category}</div>
+        <div style={{ display: 'flex', fontSize: 64, fontWeight: 700, lineHeight: 1.15 }}>
+          {post.title}
+        </div>
+        <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 28 }}>
+          <span>{post.author}</span>
+          <span>{SITE_TITLE}</span>
+        </div>
+      </div>
+    ),
+    OG_IMAGE_SIZE
+  );
+}
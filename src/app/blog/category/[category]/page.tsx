@@ -0,0 +1,51 @@
+import { notFound } from 'next/navigation';
+import { PostArchive } from '@/components/blog/PostArchive';
+import { filterByCategorySlug, getCategoryTerms, listPublicPostsInLocale } from '@/lib/posts';
+
+export const revalidate = 60;
+
+// Generate static params for every category used by a public post
+export async function generateStaticParams() {
+  const posts = await listPublicPostsInLocale();
+  return getCategoryTerms(posts).map((term) => ({
+    category: term.slug,
+  }));
+}
+
+async function getCategory(slug: string) {
+  const posts = await listPublicPostsInLocale();
+  const term = getCategoryTerms(posts).find((t) => t.slug === slug);
+  return term ? { term, posts: filterByCategorySlug(posts, slug) } : undefined;
+}
+
+export async function generateMetadata({ params }: { params: { category: string } }) {
+  const category = await getCategory(params.category);
+
+  if (!category) {
+    return {
+      title: 'Category Not Found',
+    };
+  }
+
+  return {
+    title: `${category.term.name} | Guido Miranda Blog`,
+    description: `${category.term.count} posts in ${category.term.name}`,
+  };
+}
+
+export default async function CategoryPage({ params }: { params: { category: string } }) {
+  const category = await getCategory(params.category);
+
+  if (!category) {
+    notFound();
+  }
+
+  return (
+    <PostArchive
+      title={category.term.name}
+      description={`${category.term.count} ${category.term.count === 1 ? 'post' : 'posts'} in this category`}
+      posts={category.posts}
+      backLink={{ href: '/blog', label: 'Back to Blog' }}
+    />
+  );
+}
@@ -0,0 +1,48 @@
+import { notFound, redirect } from 'next/navigation';
+import { BlogIndex, getBlogIndexMetadata } from '@/components/blog/BlogIndex';
+import { getTotalPages, listPublicPostsInLocale, paginatePosts } from '@/lib/posts';
+
+export const revalidate = 60;
+
+// Page 1 lives at /blog, so only pages 2+ are generated
+export async function generateStaticParams() {
+  const posts = await listPublicPostsInLocale();
+  const totalPages = getTotalPages(posts.length);
+
+  return Array.from({ length: totalPages - 1 }, (_, i) => ({
+    n: String(i + 2),
+  }));
+}
+
+function parsePage(n: string): number {
+  return /^\d+$/.test(n) ? Number(n) : NaN;
+}
+
+export function generateMetadata({ params }: { params: { n: string } }) {
+  const pageNumber = parsePage(params.n);
+
+  if (!(pageNumber >= 1)) {
+    return {
+      title: 'Page Not Found',
+    };
+  }
+
+  return getBlogIndexMetadata(pageNumber);
+}
+
+export default async function BlogPageN({ params }: { params: { n: string } }) {
+  const pageNumber = parsePage(params.n);
+
+  if (pageNumber === 1) {
+    redirect('/blog');
+  }
+
+  const posts = await listPublicPostsInLocale();
+  const page = paginatePosts(posts, pageNumber);
+
+  if (!page) {
+    notFound();
+  }
+
+  return <BlogIndex posts={posts} page={page} />;
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { createTagFeedResponse } from '@/lib/feeds';
+import { getTagTerms, listPublicPostsInLocale } from '@/lib/posts';
+
+export const dynamic = 'force-static';
+export const revalidate = 60;
+
+// Generate a feed for every tag used by a public post
+export async function generateStaticParams() {
+  const posts = await listPublicPostsInLocale();
+  return getTagTerms(posts).map((term) => ({
+    tag: term.slug,
+  }));
+}
+
+/**
+ * RSS 2.0 feed for one tag
+ * GET /blog/tag/typescript/feed.xml
+ */
+export async function GET(_request: Request, { params }: { params: { tag: string } }) {
+  const response = await createTagFeedResponse(params.tag);
+
+  if (!response) {
+    return NextResponse.json(
+      { error: 'Tag not found' },
+      { status: 404 }
+    );
+  }
+
+  return response;
+}
@@ -0,0 +1,57 @@
+import { notFound } from 'next/navigation';
+import { PostArchive } from '@/components/blog/PostArchive';
+import { getTagFeedPath } from '@/lib/feeds';
+import { filterByTagSlug, getTagTerms, listPublicPostsInLocale } from '@/lib/posts';
+
+export const revalidate = 60;
+
+// Generate static params for every tag used by a public post
+export async function generateStaticParams() {
+  const posts = await listPublicPostsInLocale();
+  return getTagTerms(posts).map((term) => ({
+    tag: term.slug,
+  }));
+}
+
+async function getTag(slug: string) {
+  const posts = await listPublicPostsInLocale();
+  const term = getTagTerms(posts).find((t) => t.slug === slug);
+  return term ? { term, posts: filterByTagSlug(posts, slug) } : undefined;
+}
+
+export async function generateMetadata({ params }: { params: { tag: string } }) {
+  const tag = await getTag(params.tag);
+
+  if (!tag) {
+    return {
+      title: 'Tag Not Found',
+    };
+  }
+
+  return {
+    title: `Posts tagged "${tag.term.name}" | Guido Miranda Blog`,
+    description: `${tag.term.count} posts tagged ${tag.term.name}`,
+    alternates: {
+      types: {
+        'application/rss+xml': getTagFeedPath(tag.term.name),
+      },
+    },
+  };
+}
+
+export default async function TagPage({ params }: { params: { tag: string } }) {
+  const tag = await getTag(params.tag);
+
+  if (!tag) {
+    notFound();
+  }
+
+  return (
+    <PostArchive
+      title={`#${tag.term.name}`}
+      description={`${tag.term.count} ${tag.term.count === 1 ? 'post' : 'posts'} tagged ${tag.term.name}`}
+      posts={tag.posts}
+      backLink={{ href: '/blog/tags', label: 'All tags' }}
+    />
+  );
+}
@@ -0,0 +1,40 @@
+import Link from 'next/link';
+import { getTagTerms, listPublicPostsInLocale } from '@/lib/posts';
+
+export const revalidate = 60;
+
+export const metadata = {
+  title: 'Tags | Guido Miranda Blog',
+  description: 'Browse blog posts by tag',
+};
+
+export default async function TagsPage() {
+  const tags = getTagTerms(await listPublicPostsInLocale());
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <section className="mb-12">
+        <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-4">
+          Tags
+        </h1>
+        <p className="text-lg text-gray-600 dark:text-gray-300">
+          Browse posts by topic.
+        </p>
+      </section>
+
+      <ul className="flex flex-wrap gap-3">
+        {tags.map((tag) => (
+          <li key={tag.slug}>
+            <Link
+              href={`/blog/tag/${tag.slug}`}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 rounded-full hover:bg-blue-200 dark:hover:bg-blue-800"
+            >
+              <span>#{tag.name}</span>
+              <span className="text-sm text-blue-600 dark:text-blue-300">{tag.count}</span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
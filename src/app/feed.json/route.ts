@@ -0,0 +1,12 @@
+import { createSiteFeedResponse } from '@/lib/feeds';
+
+export const dynamic = 'force-static';
+export const revalidate = 60;
+
+/**
+ * Site-wide JSON Feed 1.1 feed
+ * GET /feed.json
+ */
+export async function GET() {
+  return createSiteFeedResponse('json');
+}
@@ -0,0 +1,12 @@
+import { createSiteFeedResponse } from '@/lib/feeds';
+
+export const dynamic = 'force-static';
+export const revalidate = 60;
+
+/**
+ * Site-wide RSS 2.0 feed
+ * GET /feed.xml
+ */
+export async function GET() {
+  return createSiteFeedResponse('rss');
+}
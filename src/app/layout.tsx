@@ -6,9 +6,17 @@ import { Analytics } from '@vercel/analytics/react';
 const inter = Inter({ subsets: ['latin'] });
 
 export const metadata: Metadata = {
+  metadataBase: new URL(process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'),
   title: 'Guido Miranda Blog',
   description: 'Personal blog about software development, AI, and technology',
   authors: [{ name: 'Guido Miranda' }],
+  alternates: {
+    types: {
+      'application/rss+xml': '/feed.xml',
+      'application/atom+xml': '/atom.xml',
+      'application/feed+json': '/feed.json',
+    },
+  },
   keywords: ['blog', 'software development', 'AI', 'technology', 'programming'],
   openGraph: {
     title: 'Guido Miranda Blog',
@@ -51,6 +59,12 @@ export default function RootLayout({
                   >
                     Blog
                   </a>
+                  <a
+                    href="/search"
+                    className="text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white transition-colors"
+                  >
+                    Search
+                  </a>
                 </div>
               </div>
             </nav>
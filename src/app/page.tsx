@@ -1,52 +1,12 @@
 import { PostCard } from '@/components/blog/PostCard';
 import { ChatBot } from '@/components/ai/ChatBot';
-import type { BlogPost } from '@/types';
+import { listPublicPostsInLocale } from '@/lib/posts';
+import { DEFAULT_LOCALE } from '@/lib/site';
 
-async function getRecentPosts(): Promise<BlogPost[]> {
-  // This would typically fetch from your database or CMS
-  // For now, returning mock data
-  return [
-    {
-      id: '1',
-      slug: 'getting-started-with-nextjs',
-      title: 'Getting Started with Next.js 14',
-      excerpt: 'Learn how to build modern web applications with Next.js 14 and the App Router.',
-      content: '',
-      author: 'Guido Miranda',
-      publishedAt: new Date('2024-01-15'),
-      updatedAt: new Date('2024-01-15'),
-      tags: ['nextjs', 'react', 'typescript'],
-      imageUrl: '/images/nextjs-blog.jpg',
-    },
-    {
-      id: '2',
-      slug: 'ai-powered-applications',
-      title: 'Building AI-Powered Applications',
-      excerpt: 'Explore how to integrate OpenAI and other AI services into your applications.',
-      content: '',
-      author: 'Guido Miranda',
-      publishedAt: new Date('2024-01-10'),
-      updatedAt: new Date('2024-01-10'),
-      tags: ['ai', 'openai', 'machine-learning'],
-      imageUrl: '/images/ai-blog.jpg',
-    },
-    {
-      id: '3',
-      slug: 'firebase-authentication',
-      title: 'Implementing Firebase Authentication',
-      excerpt: 'A comprehensive guide to adding authentication to your web app with Firebase.',
-      content: '',
-      author: 'Guido Miranda',
-      publishedAt: new Date('2024-01-05'),
-      updatedAt: new Date('2024-01-05'),
-      tags: ['firebase', 'authentication', 'security'],
-      imageUrl: '/images/firebase-blog.jpg',
-    },
-  ];
-}
+export const revalidate = 60;
 
 export default async function HomePage() {
-  const posts = await getRecentPosts();
+  const posts = await listPublicPostsInLocale(DEFAULT_LOCALE, { limit: 3 });
 
   return (
     <div className="space-y-12">
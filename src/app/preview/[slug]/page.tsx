@@ -0,0 +1,39 @@
+import { notFound } from 'next/navigation';
+import { PostArticle } from '@/components/blog/PostArticle';
+import { getPostStore, renderPostContent, verifyPreviewToken } from '@/lib/posts';
+
+// Preview links are signed per request, never prerendered
+export const dynamic = 'force-dynamic';
+
+export const metadata = {
+  title: 'Preview | Guido Miranda Blog',
+  robots: { index: false, follow: false },
+};
+
+export default async function PostPreviewPage({
+  params,
+  searchParams,
+}: {
+  params: { slug: string };
+  searchParams: { expires?: string; signature?: string };
+}) {
+  if (!verifyPreviewToken(params.slug, searchParams.expires, searchParams.signature)) {
+    notFound();
+  }
+
+  const post = await getPostStore().getBySlug(params.slug);
+
+  if (!post) {
+    notFound();
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="max-w-4xl mx-auto px-4 py-3 rounded-lg bg-yellow-100 dark:bg-yellow-900 text-yellow-900 dark:text-yellow-100 text-sm">
+        Preview of a <strong>{post.status}</strong> post
+        {post.scheduledAt && ` scheduled for ${post.scheduledAt.toISOString()}`}. This page is not public.
+      </div>
+      <PostArticle post={post} rendered={await renderPostContent(post.content)} />
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+import type { MetadataRoute } from 'next';
+import { getSiteUrl } from '@/lib/site';
+
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: {
+      userAgent: '*',
+      allow: '/',
+      disallow: ['/api/', '/preview/'],
+    },
+    sitemap: `${getSiteUrl()}/sitemap.xml`,
+  };
+}
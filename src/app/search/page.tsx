@@ -0,0 +1,63 @@
+import Link from 'next/link';
+import { searchPosts } from '@/lib/search';
+import { getCanonicalPostPath } from '@/lib/posts/translations';
+
+// Results depend on the query string
+export const dynamic = 'force-dynamic';
+
+export const metadata = {
+  title: 'Search | Guido Miranda Blog',
+};
+
+export default async function SearchPage({
+  searchParams,
+}: {
+  searchParams: { q?: string };
+}) {
+  const query = searchParams.q?.trim() || '';
+  const results = query ? await searchPosts(query, { limit: 20 }) : [];
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <section className="mb-8">
+        <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-4">
+          Search
+        </h1>
+        <form action="/search" method="get" role="search">
+          <input
+            type="search"
+            name="q"
+            defaultValue={query}
+            placeholder="Search posts..."
+            aria-label="Search posts"
+            className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-600 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+          />
+        </form>
+      </section>
+
+      {query && (
+        <p className="text-gray-600 dark:text-gray-400 mb-6">
+          {results.length} {results.length === 1 ? 'result' : 'results'} for &ldquo;{query}&rdquo;
+        </p>
+      )}
+
+      <ul className="space-y-6">
+        {results.map(({ post, highlightedTitle, snippet }) => (
+          <li key={post.id}>
+            <Link href={getCanonicalPostPath(post)} className="group block">
+              {/* Highlighted fields are escaped by the search module */}
+              <h2
+                className="text-xl font-semibold text-gray-900 dark:text-white group-hover:text-blue-600 dark:group-hover:text-blue-400"
+                dangerouslySetInnerHTML={{ __html: highlightedTitle }}
+              />
+              <p
+                className="mt-1 text-gray-600 dark:text-gray-300"
+                dangerouslySetInnerHTML={{ __html: snippet }}
+              />
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
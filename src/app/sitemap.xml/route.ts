@@ -0,0 +1,17 @@
+import { listPublicPosts } from '@/lib/posts';
+import { buildSitemapEntries, renderSitemap } from '@/lib/seo';
+
+export const dynamic = 'force-static';
+export const revalidate = 60;
+
+/**
+ * XML sitemap of public pages and posts
+ * GET /sitemap.xml
+ */
+export async function GET() {
+  const posts = await listPublicPosts();
+
+  return new Response(renderSitemap(buildSitemapEntries(posts)), {
+    headers: { 'Content-Type': 'application/xml; charset=utf-8' },
+  });
+}
@@ -1,13 +1,48 @@
 'use client';
 
-import { useState } from 'react';
+import { useRef, useState } from 'react';
+import Link from 'next/link';
 import type { ChatMessage } from '@/types';
+import { getPostPath } from '@/lib/site';
+import { readEventStream } from '@/lib/utils/sse';
+
+const ERROR_MESSAGE = 'Sorry, I encountered an error. Please try again later.';
 
 export function ChatBot() {
   const [isOpen, setIsOpen] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const appendToMessage = (id: string, content: string) => {
+    setMessages((prev) =>
+      prev.map((message) =>
+        message.id === id ? { ...message, content: message.content + content } : message
+      )
+    );
+  };
+
+  const attachSources = (id: string, sources: ChatMessage['sources']) => {
+    setMessages((prev) =>
+      prev.map((message) => (message.id === id ? { ...message, sources } : message))
+    );
+  };
+
+  // Drop the assistant message if nothing was streamed into it
+  const discardIfEmpty = (id: string) => {
+    setMessages((prev) => prev.filter((message) => message.id !== id || message.content));
+  };
+
+  const discardMessage = (id: string) => {
+    setMessages((prev) => prev.filter((message) => message.id !== id));
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -19,9 +54,18 @@ export function ChatBot() {
       content: input,
       timestamp: new Date(),
     };
+    const assistantId = (Date.now() + 1).toString();
+    const controller = new AbortController();
+    abortRef.current = controller;
 
-    setMessages((prev) => [...prev, userMessage]);
+    setMessages((prev) => [
+      ...prev,
+      userMessage,
+      { id: assistantId, role: 'assistant', content: '', timestamp: new Date() },
+    ]);
     setInput('');
+    setError(null);
+    setSuggestions([]);
     setIsLoading(true);
 
     try {
@@ -32,30 +76,37 @@ export function ChatBot() {
         },
         body: JSON.stringify({
           messages: [...messages, userMessage],
+          context: { currentPage: window.location.pathname },
         }),
+        signal: controller.signal,
       });
 
-      if (!response.ok) throw new Error('Failed to get response');
-
-      const data = await response.json();
-      const assistantMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: data.message,
-        timestamp: new Date(),
-      };
+      if (!response.ok || !response.body) throw new Error('Failed to get response');
 
-      setMessages((prev) => [...prev, assistantMessage]);
+      for await (const event of readEventStream(response.body)) {
+        if (event.type === 'token') {
+          appendToMessage(assistantId, event.content);
+        } else if (event.type === 'done') {
+          attachSources(
+            assistantId,
+            event.output.sources?.map(({ title, slug, locale }) => ({ title, slug, locale }))
+          );
+          setSuggestions(event.output.suggestions || []);
+        } else if (event.type === 'error') {
+          throw new Error(event.error);
+        }
+      }
     } catch (error) {
-      console.error('Error sending message:', error);
-      const errorMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: 'Sorry, I encountered an error. Please try again later.',
-        timestamp: new Date(),
-      };
-      setMessages((prev) => [...prev, errorMessage]);
+      // Stopping keeps whatever was streamed so far; a failed reply is
+      // dropped, so it is neither shown nor sent back as history
+      if (!controller.signal.aborted) {
+        console.error('Error sending message:', error);
+        discardMessage(assistantId);
+        setError(ERROR_MESSAGE);
+      }
     } finally {
+      discardIfEmpty(assistantId);
+      abortRef.current = null;
       setIsLoading(false);
     }
   };
@@ -117,7 +168,7 @@ export function ChatBot() {
                 <p>Hi! How can I help you today?</p>
               </div>
             )}
-            {messages.map((message) => (
+            {messages.filter((message) => message.content).map((message) => (
               <div
                 key={message.id}
                 className={`flex ${
@@ -131,11 +182,22 @@ export function ChatBot() {
                       : 'bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-white'
                   }`}
                 >
-                  <p className="text-sm">{message.content}</p>
+                  <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                  {message.sources && (
+                    <ul className="mt-2 space-y-1 text-xs">
+                      {message.sources.map((source) => (
+                        <li key={source.slug}>
+                          <Link href={getPostPath(source.slug, source.locale)} className="text-blue-600 dark:text-blue-400 hover:underline">
+                            {source.title}
+                          </Link>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
               </div>
             ))}
-            {isLoading && (
+            {isLoading && !messages[messages.length - 1]?.content && (
               <div className="flex justify-start">
                 <div className="bg-gray-200 dark:bg-gray-700 rounded-lg p-3">
                   <div className="flex space-x-2">
@@ -146,6 +208,25 @@ export function ChatBot() {
                 </div>
               </div>
             )}
+            {!isLoading && suggestions.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {suggestions.map((suggestion) => (
+                  <button
+                    key={suggestion}
+                    type="button"
+                    onClick={() => setInput(suggestion)}
+                    className="text-xs px-3 py-1 rounded-full border border-blue-600 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-gray-700"
+                  >
+                    {suggestion}
+                  </button>
+                ))}
+              </div>
+            )}
+            {error && (
+              <div role="alert" className="text-sm text-red-600 dark:text-red-400 text-center">
+                {error}
+              </div>
+            )}
           </div>
 
           {/* Input */}
@@ -159,13 +240,23 @@ export function ChatBot() {
                 className="flex-1 px-4 py-2 border dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-600 dark:bg-gray-700 dark:text-white"
                 disabled={isLoading}
               />
-              <button
-                type="submit"
-                disabled={isLoading || !input.trim()}
-                className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg transition-colors"
-              >
-                Send
-              </button>
+              {isLoading ? (
+                <button
+                  type="button"
+                  onClick={handleStop}
+                  className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg transition-colors"
+                >
+                  Stop
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={!input.trim()}
+                  className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg transition-colors"
+                >
+                  Send
+                </button>
+              )}
             </div>
           </form>
         </div>
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { ChatBot } from '../ChatBot';
+import { encodeEvent, type ChatStreamEvent } from '@/lib/utils/sse';
+
+vi.mock('next/link', () => ({
+  default: ({ children, href }: { children: React.ReactNode; href: string }) => (
+    <a href={href}>{children}</a>
+  ),
+}));
+
+function streamResponse(events: ChatStreamEvent[]) {
+  return new Response(events.map(encodeEvent).join(''), {
+    headers: { 'Content-Type': 'text/event-stream' },
+  });
+}
+
+function send(text: string) {
+  fireEvent.change(screen.getByPlaceholderText('Type your message...'), { target: { value: text } });
+  fireEvent.submit(screen.getByPlaceholderText('Type your message...').closest('form')!);
+}
+
+describe('ChatBot', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should drop a reply that failed part-way and leave it out of the next request', async () => {
+    fetchMock.mockResolvedValueOnce(
+      streamResponse([
+        { type: 'token', content: 'Half an answer' },
+        { type: 'error', error: 'Provider down' },
+      ])
+    );
+
+    render(<ChatBot />);
+    fireEvent.click(screen.getByLabelText('Open chat'));
+    send('What are hooks?');
+
+    expect((await screen.findByRole('alert')).textContent).toContain('Please try again');
+    expect(screen.queryByText('Half an answer')).toBeNull();
+
+    fetchMock.mockResolvedValueOnce(streamResponse([{ type: 'token', content: 'Hooks keep state.' }]));
+    send('Try again');
+
+    await waitFor(() => expect(screen.getByText('Hooks keep state.')).toBeDefined());
+    const { messages } = JSON.parse(fetchMock.mock.calls[1][1].body);
+    expect(messages.map((m: { role: string; content: string }) => [m.role, m.content])).toEqual([
+      ['user', 'What are hooks?'],
+      ['user', 'Try again'],
+    ]);
+  });
+
+  it('should link sources to the post in its own language', async () => {
+    fetchMock.mockResolvedValueOnce(
+      streamResponse([
+        { type: 'token', content: 'See this post.' },
+        {
+          type: 'done',
+          output: {
+            response: 'See this post.',
+            intent: { type: 'question', confidence: 0.9 },
+            sources: [
+              { postId: '2', title: 'Entendiendo hooks', slug: 'entendiendo-hooks', locale: 'es', excerpt: '', relevanceScore: 1 },
+            ],
+            metadata: {
+              respondedAt: new Date(),
+              model: 'fake',
+              tokensUsed: 0,
+              costUSD: 0,
+              durationMs: 0,
+              requiresHumanReview: false,
+            },
+          },
+        },
+      ])
+    );
+
+    render(<ChatBot />);
+    fireEvent.click(screen.getByLabelText('Open chat'));
+    send('¿Qué son los hooks?');
+
+    const link = await screen.findByText('Entendiendo hooks');
+    expect(link.getAttribute('href')).toBe('/es/blog/entendiendo-hooks');
+  });
+});
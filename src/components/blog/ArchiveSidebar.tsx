@@ -0,0 +1,42 @@
+import Link from 'next/link';
+import { formatArchiveMonth, type ArchiveMonth } from '@/lib/posts/archive';
+
+interface ArchiveSidebarProps {
+  months: ArchiveMonth[];
+  /**
+   * Highlights the month being viewed
+   */
+  current?: { year: number; month: number };
+}
+
+export function ArchiveSidebar({ months, current }: ArchiveSidebarProps) {
+  if (months.length === 0) return null;
+
+  return (
+    <nav aria-labelledby="archive-heading" className="p-6 rounded-lg bg-gray-50 dark:bg-gray-800">
+      <h2 id="archive-heading" className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+        Archive
+      </h2>
+      <ul className="space-y-2">
+        {months.map(({ year, month, count, url }) => {
+          const isCurrent = current?.year === year && current?.month === month;
+
+          return (
+            <li key={url} className="flex items-center justify-between text-sm">
+              <Link
+                href={url}
+                aria-current={isCurrent ? 'page' : undefined}
+                className={`hover:underline ${
+                  isCurrent ? 'font-semibold text-gray-900 dark:text-white' : 'text-blue-600 dark:text-blue-400'
+                }`}
+              >
+                {formatArchiveMonth(year, month)}
+              </Link>
+              <span className="text-gray-500 dark:text-gray-400">{count}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </nav>
+  );
+}
@@ -0,0 +1,47 @@
+import type { Metadata } from 'next';
+import type { BlogPost } from '@/types';
+import { getArchiveMonths, getBlogPageUrl, type PaginatedPosts } from '@/lib/posts/archive';
+import { PostArchive } from './PostArchive';
+import { ArchiveSidebar } from './ArchiveSidebar';
+import { Pagination } from './Pagination';
+
+interface BlogIndexProps {
+  /**
+   * Every public post, newest first (feeds the archive sidebar)
+   */
+  posts: BlogPost[];
+  page: PaginatedPosts;
+}
+
+export function getBlogIndexMetadata(page: number): Metadata {
+  return {
+    title: page > 1 ? `Blog - Page ${page} | Guido Miranda Blog` : 'Blog | Guido Miranda Blog',
+    alternates: {
+      canonical: getBlogPageUrl(page),
+    },
+  };
+}
+
+/**
+ * One page of /blog. Metadata has no prev/next fields, so those <link>s
+ * are rendered here and hoisted into <head> by React.
+ */
+export function BlogIndex({ posts, page }: BlogIndexProps) {
+  return (
+    <>
+      {page.prevUrl && <link rel="prev" href={page.prevUrl} />}
+      {page.nextUrl && <link rel="next" href={page.nextUrl} />}
+      <PostArchive
+        title="Blog"
+        description={
+          page.page > 1
+            ? `Page ${page.page} of ${page.totalPages}`
+            : 'Thoughts on software development, AI, and modern web technologies.'
+        }
+        posts={page.posts}
+        sidebar={<ArchiveSidebar months={getArchiveMonths(posts)} />}
+        footer={<Pagination {...page} />}
+      />
+    </>
+  );
+}
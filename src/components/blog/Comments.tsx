@@ -0,0 +1,266 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { CommentReaction } from '@/types';
+import type { PublicComment } from '@/lib/comments/store';
+import type { CommentNode, CommentSort } from '@/lib/comments/thread';
+
+interface CommentsProps {
+  slug: string;
+}
+
+const COMMENT_TOKENS_KEY = 'comment-tokens';
+
+const REACTION_LABELS: Record<CommentReaction, string> = {
+  like: '👍',
+  insightful: '💡',
+  laugh: '😄',
+  confused: '😕',
+};
+
+const SORT_LABELS: Record<CommentSort, string> = {
+  oldest: 'Oldest',
+  newest: 'Newest',
+  top: 'Top',
+};
+
+/**
+ * Tokens of the comments posted from this browser, by comment id; the
+ * server only lets a comment's token holder delete it
+ */
+function getCommentTokens(): Record<string, string> {
+  try {
+    return JSON.parse(window.localStorage.getItem(COMMENT_TOKENS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function saveCommentToken(commentId: string, token: string): void {
+  window.localStorage.setItem(
+    COMMENT_TOKENS_KEY,
+    JSON.stringify({ ...getCommentTokens(), [commentId]: token })
+  );
+}
+
+export function Comments({ slug }: CommentsProps) {
+  const [comments, setComments] = useState<CommentNode[]>([]);
+  const [total, setTotal] = useState(0);
+  const [sort, setSort] = useState<CommentSort>('oldest');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [tokens, setTokens] = useState<Record<string, string>>({});
+
+  const endpoint = `/api/posts/${slug}/comments`;
+
+  const loadComments = useCallback(async () => {
+    try {
+      const response = await fetch(`${endpoint}?sort=${sort}`);
+      if (!response.ok) return;
+
+      const data = await response.json();
+      setComments(data.comments);
+      setTotal(data.total);
+      setTokens(getCommentTokens());
+    } catch (error) {
+      console.error('Error loading comments:', error);
+    }
+  }, [endpoint, sort]);
+
+  useEffect(() => {
+    loadComments();
+  }, [loadComments]);
+
+  const handleReact = async (comment: PublicComment, reaction: CommentReaction) => {
+    const response = await fetch(`${endpoint}/${comment.id}/reactions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ reaction }),
+    });
+    if (response.ok) loadComments();
+  };
+
+  const handleDelete = async (comment: PublicComment) => {
+    const response = await fetch(`${endpoint}/${comment.id}`, {
+      method: 'DELETE',
+      headers: { 'x-comment-token': tokens[comment.id] },
+    });
+    if (response.ok) loadComments();
+  };
+
+  const renderNode = (node: CommentNode) => {
+    const { comment } = node;
+
+    return (
+      <li key={comment.id} className="space-y-3">
+        <div className="p-4 rounded-lg bg-gray-50 dark:bg-gray-800">
+          <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-400 mb-2">
+            <span className="font-medium">{comment.author}</span>
+            <time dateTime={new Date(comment.createdAt).toISOString()}>
+              {new Date(comment.createdAt).toLocaleDateString('en-US')}
+            </time>
+          </div>
+
+          {comment.deleted ? (
+            <p className="italic text-gray-500 dark:text-gray-400">This comment was deleted.</p>
+          ) : (
+            <>
+              <p className="whitespace-pre-wrap text-gray-700 dark:text-gray-300">{comment.content}</p>
+              <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+                {(Object.keys(REACTION_LABELS) as CommentReaction[]).map((reaction) => (
+                  <button
+                    key={reaction}
+                    onClick={() => handleReact(comment, reaction)}
+                    aria-pressed={comment.viewerReactions.includes(reaction)}
+                    aria-label={reaction}
+                    className={`px-2 py-0.5 rounded-full border dark:border-gray-600 ${
+                      comment.viewerReactions.includes(reaction) ? 'bg-blue-100 dark:bg-blue-900' : ''
+                    }`}
+                  >
+                    {REACTION_LABELS[reaction]} {comment.reactions[reaction] || ''}
+                  </button>
+                ))}
+                <button
+                  onClick={() => setReplyTo(replyTo === comment.id ? null : comment.id)}
+                  className="text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Reply
+                </button>
+                {tokens[comment.id] && (
+                  <button
+                    onClick={() => handleDelete(comment)}
+                    className="text-red-600 dark:text-red-400 hover:underline"
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        {replyTo === comment.id && (
+          <div className="ml-6">
+            <CommentForm
+              endpoint={endpoint}
+              parentId={comment.id}
+              onPublished={() => {
+                setReplyTo(null);
+                loadComments();
+              }}
+            />
+          </div>
+        )}
+
+        {node.replies.length > 0 && (
+          <ul className="ml-6 pl-4 border-l dark:border-gray-700 space-y-3">
+            {node.replies.map(renderNode)}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <section className="max-w-4xl mx-auto mt-12" aria-labelledby="comments-heading">
+      <div className="flex items-center justify-between mb-6">
+        <h2 id="comments-heading" className="text-2xl font-bold text-gray-900 dark:text-white">
+          Comments ({total})
+        </h2>
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as CommentSort)}
+          aria-label="Sort comments"
+          className="px-2 py-1 border rounded-lg dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+        >
+          {(Object.keys(SORT_LABELS) as CommentSort[]).map((option) => (
+            <option key={option} value={option}>
+              {SORT_LABELS[option]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <ul className="space-y-4 mb-8">{comments.map(renderNode)}</ul>
+
+      <CommentForm endpoint={endpoint} onPublished={loadComments} />
+    </section>
+  );
+}
+
+interface CommentFormProps {
+  endpoint: string;
+  parentId?: string;
+  onPublished: () => void;
+}
+
+function CommentForm({ endpoint, parentId, onPublished }: CommentFormProps) {
+  const [author, setAuthor] = useState('');
+  const [content, setContent] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!content.trim() || isSubmitting) return;
+
+    setIsSubmitting(true);
+    setNotice(null);
+
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ author, content, parentId }),
+      });
+      const data = await response.json();
+
+      if (data.token) {
+        saveCommentToken(data.id, data.token);
+      }
+
+      if (data.status === 'published') {
+        setContent('');
+        onPublished();
+      } else if (data.status === 'pending') {
+        setNotice('Thanks! Your comment will appear once a moderator has reviewed it.');
+        setContent('');
+      } else if (data.status === 'rejected') {
+        setNotice('Your comment was rejected by moderation.');
+      } else {
+        throw new Error(data.error || 'Failed to submit comment');
+      }
+    } catch (error) {
+      console.error('Error submitting comment:', error);
+      setNotice('Sorry, your comment could not be submitted. Please try again later.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <input
+        type="text"
+        value={author}
+        onChange={(e) => setAuthor(e.target.value)}
+        placeholder="Your name"
+        className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-600 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+      />
+      <textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        placeholder={parentId ? 'Write a reply...' : 'Join the discussion...'}
+        rows={parentId ? 3 : 4}
+        className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-600 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+      />
+      {notice && <p className="text-sm text-gray-600 dark:text-gray-400">{notice}</p>}
+      <button
+        type="submit"
+        disabled={isSubmitting || !content.trim()}
+        className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isSubmitting ? 'Submitting...' : parentId ? 'Post reply' : 'Post comment'}
+      </button>
+    </form>
+  );
+}
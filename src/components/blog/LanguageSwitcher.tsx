@@ -0,0 +1,76 @@
+import Link from 'next/link';
+import { getLocaleName, getMessages } from '@/lib/i18n';
+
+export interface LanguageLink {
+  locale: string;
+  /**
+   * Absent when there is no version in that language yet
+   */
+  href?: string;
+}
+
+interface LanguageSwitcherProps {
+  /**
+   * Language of the current page
+   */
+  locale: string;
+  languages: LanguageLink[];
+}
+
+/**
+ * Links to the other language versions of a page; languages without a
+ * version are listed but disabled
+ */
+export function LanguageSwitcher({ locale, languages }: LanguageSwitcherProps) {
+  if (languages.length < 2) return null;
+
+  const messages = getMessages(locale);
+
+  return (
+    <nav aria-label={messages.languageSwitcher} className="flex flex-wrap items-center gap-2 mb-6 text-sm">
+      <span className="text-gray-600 dark:text-gray-400">{messages.languageSwitcher}:</span>
+      {languages.map((language) => {
+        const name = getLocaleName(language.locale);
+
+        if (language.locale === locale) {
+          return (
+            <span
+              key={language.locale}
+              lang={language.locale}
+              aria-current="true"
+              className="px-3 py-1 rounded-full bg-blue-600 text-white font-medium"
+            >
+              {name}
+            </span>
+          );
+        }
+
+        if (!language.href) {
+          return (
+            <span
+              key={language.locale}
+              lang={language.locale}
+              aria-disabled="true"
+              title={messages.translationUnavailable}
+              className="px-3 py-1 rounded-full bg-gray-100 dark:bg-gray-800 text-gray-400 dark:text-gray-500 cursor-not-allowed"
+            >
+              {name}
+            </span>
+          );
+        }
+
+        return (
+          <Link
+            key={language.locale}
+            href={language.href}
+            hrefLang={language.locale}
+            lang={language.locale}
+            className="px-3 py-1 rounded-full bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600"
+          >
+            {name}
+          </Link>
+        );
+      })}
+    </nav>
+  );
+}
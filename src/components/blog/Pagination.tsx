@@ -0,0 +1,44 @@
+import Link from 'next/link';
+import { getBlogPageUrl, type PaginatedPosts } from '@/lib/posts/archive';
+
+type PaginationProps = Pick<PaginatedPosts, 'page' | 'totalPages' | 'prevUrl' | 'nextUrl'>;
+
+export function Pagination({ page, totalPages, prevUrl, nextUrl }: PaginationProps) {
+  if (totalPages <= 1) return null;
+
+  const pages = Array.from({ length: totalPages }, (_, i) => i + 1);
+
+  return (
+    <nav aria-label="Pagination" className="flex items-center justify-center gap-2 mt-12">
+      {prevUrl && (
+        <Link href={prevUrl} rel="prev" className="px-3 py-1 text-blue-600 dark:text-blue-400 hover:underline">
+          &larr; Newer
+        </Link>
+      )}
+      {pages.map((n) =>
+        n === page ? (
+          <span
+            key={n}
+            aria-current="page"
+            className="px-3 py-1 rounded-lg bg-blue-600 text-white"
+          >
+            {n}
+          </span>
+        ) : (
+          <Link
+            key={n}
+            href={getBlogPageUrl(n)}
+            className="px-3 py-1 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+          >
+            {n}
+          </Link>
+        )
+      )}
+      {nextUrl && (
+        <Link href={nextUrl} rel="next" className="px-3 py-1 text-blue-600 dark:text-blue-400 hover:underline">
+          Older &rarr;
+        </Link>
+      )}
+    </nav>
+  );
+}
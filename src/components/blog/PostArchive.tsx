@@ -0,0 +1,59 @@
+import Link from 'next/link';
+import type { BlogPost } from '@/types';
+import { PostCard } from './PostCard';
+
+interface PostArchiveProps {
+  title: string;
+  description?: string;
+  posts: BlogPost[];
+  backLink?: { href: string; label: string };
+  /**
+   * Rendered beside the grid, e.g. the monthly archive
+   */
+  sidebar?: React.ReactNode;
+  /**
+   * Rendered below the grid
+   */
+  footer?: React.ReactNode;
+}
+
+/**
+ * Heading plus post grid shared by the blog archive pages
+ */
+export function PostArchive({ title, description, posts, backLink, sidebar, footer }: PostArchiveProps) {
+  return (
+    <div className="max-w-7xl mx-auto">
+      <section className="mb-12">
+        {backLink && (
+          <Link
+            href={backLink.href}
+            className="inline-block text-blue-600 dark:text-blue-400 hover:underline mb-4"
+          >
+            &larr; {backLink.label}
+          </Link>
+        )}
+        <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-4">
+          {title}
+        </h1>
+        {description && (
+          <p className="text-lg text-gray-600 dark:text-gray-300">{description}</p>
+        )}
+      </section>
+
+      <div className={sidebar ? 'grid grid-cols-1 lg:grid-cols-4 gap-8' : undefined}>
+        <section className={sidebar ? 'lg:col-span-3' : undefined}>
+          <div
+            className={`grid grid-cols-1 md:grid-cols-2 gap-8 ${sidebar ? '' : 'lg:grid-cols-3'}`}
+          >
+            {posts.map((post) => (
+              <PostCard key={post.id} post={post} />
+            ))}
+          </div>
+          {footer}
+        </section>
+
+        {sidebar && <aside>{sidebar}</aside>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import Link from 'next/link';
+import Image from 'next/image';
+import type { BlogPost } from '@/types';
+import { getCategoryUrl, getTagUrl } from '@/lib/posts/taxonomy';
+import type { RenderedPost } from '@/lib/posts/markdown';
+import { getPostLocale } from '@/lib/posts/translations';
+import { getLocaleBlogPath } from '@/lib/site';
+import { formatPostDate, getMessages } from '@/lib/i18n';
+import { PostContent } from './PostContent';
+import { TableOfContents } from './TableOfContents';
+
+interface PostArticleProps {
+  post: BlogPost;
+  /**
+   * Output of renderPostContent(post.content)
+   */
+  rendered: RenderedPost;
+  /**
+   * Language switcher, shown under the post metadata
+   */
+  languages?: React.ReactNode;
+}
+
+export function PostArticle({ post, rendered, languages }: PostArticleProps) {
+  const hasToc = rendered.toc.length > 0;
+  const locale = getPostLocale(post);
+  const messages = getMessages(locale);
+  const formattedDate = formatPostDate(post.publishedAt, locale);
+
+  return (
+    <article className={`${hasToc ? 'max-w-6xl' : 'max-w-4xl'} mx-auto`}>
+      {/* Back link */}
+      <Link
+        href={getLocaleBlogPath(locale)}
+        className="inline-flex items-center text-blue-600 dark:text-blue-400 hover:underline mb-8"
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className="h-5 w-5 mr-1"
+          viewBox="0 0 20 20"
+          fill="currentColor"
+        >
+          <path
+            fillRule="evenodd"
+            d="M9.707 16.707a1 1 0 01-1.414 0l-6-6a1 1 0 010-1.414l6-6a1 1 0 011.414 1.414L5.414 9H17a1 1 0 110 2H5.414l4.293 4.293a1 1 0 010 1.414z"
+            clipRule="evenodd"
+          />
+        </svg>
+        {messages.backToBlog}
+      </Link>
+
+      {/* Header image */}
+      {post.imageUrl && (
+        <div className="relative h-96 w-full mb-8 rounded-lg overflow-hidden">
+          <Image
+            src={post.imageUrl}
+            alt={post.title}
+            fill
+            className="object-cover"
+            priority
+          />
+        </div>
+      )}
+
+      {/* Title and metadata */}
+      <header className="mb-8">
+        <h1 className="text-4xl md:text-5xl font-bold text-gray-900 dark:text-white mb-4">
+          {post.title}
+        </h1>
+        
+        <div className="flex flex-wrap items-center gap-4 text-gray-600 dark:text-gray-400 mb-6">
+          <div className="flex items-center">
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className="h-5 w-5 mr-2"
+              viewBox="0 0 20 20"
+              fill="currentColor"
+            >
+              <path
+                fillRule="evenodd"
+                d="M10 9a3 3 0 100-6 3 3 0 000 6zm-7 9a7 7 0 1114 0H3z"
+                clipRule="evenodd"
+              />
+            </svg>
+            <span>{post.author}</span>
+          </div>
+          <div className="flex items-center">
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className="h-5 w-5 mr-2"
+              viewBox="0 0 20 20"
+              fill="currentColor"
+            >
+              <path
+                fillRule="evenodd"
+                d="M6 2a1 1 0 00-1 1v1H4a2 2 0 00-2 2v10a2 2 0 002 2h12a2 2 0 002-2V6a2 2 0 00-2-2h-1V3a1 1 0 10-2 0v1H7V3a1 1 0 00-1-1zm0 5a1 1 0 000 2h8a1 1 0 100-2H6z"
+                clipRule="evenodd"
+              />
+            </svg>
+            <time dateTime={post.publishedAt.toISOString()}>{formattedDate}</time>
+          </div>
+          <div className="flex items-center">
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className="h-5 w-5 mr-2"
+              viewBox="0 0 20 20"
+              fill="currentColor"
+            >
+              <path
+                fillRule="evenodd"
+                d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-12a1 1 0 10-2 0v4a1 1 0 00.293.707l2.828 2.829a1 1 0 101.415-1.415L11 9.586V6z"
+                clipRule="evenodd"
+              />
+            </svg>
+            <span>{rendered.readingTimeMinutes} {messages.minRead}</span>
+          </div>
+        </div>
+
+        {languages}
+
+        {/* Category and tags */}
+        <div className="flex flex-wrap gap-2">
+          <Link
+            href={getCategoryUrl(post.category)}
+            className="px-3 py-1 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-full text-sm font-medium hover:bg-gray-300 dark:hover:bg-gray-600"
+          >
+            {post.category}
+          </Link>
+          {post.tags.map((tag) => (
+            <Link
+              key={tag}
+              href={getTagUrl(tag)}
+              className="px-3 py-1 bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 rounded-full text-sm font-medium hover:bg-blue-200 dark:hover:bg-blue-800"
+            >
+              {tag}
+            </Link>
+          ))}
+        </div>
+      </header>
+
+      {/* Content */}
+      <div className={hasToc ? 'lg:grid lg:grid-cols-[minmax(0,1fr)_14rem] lg:gap-12' : undefined}>
+        <PostContent html={rendered.html} />
+        {hasToc && (
+          <aside className="hidden lg:block">
+            <TableOfContents toc={rendered.toc} />
+          </aside>
+        )}
+      </div>
+
+      {/* Footer */}
+      <footer className="mt-12 pt-8 border-t dark:border-gray-700">
+        <Link
+          href={getLocaleBlogPath(locale)}
+          className="inline-flex items-center text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            className="h-5 w-5 mr-1"
+            viewBox="0 0 20 20"
+            fill="currentColor"
+          >
+            <path
+              fillRule="evenodd"
+              d="M9.707 16.707a1 1 0 01-1.414 0l-6-6a1 1 0 010-1.414l6-6a1 1 0 011.414 1.414L5.414 9H17a1 1 0 110 2H5.414l4.293 4.293a1 1 0 010 1.414z"
+              clipRule="evenodd"
+            />
+          </svg>
+          {messages.backToBlog}
+        </Link>
+      </footer>
+    </article>
+  );
+}
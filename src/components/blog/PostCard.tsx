@@ -1,17 +1,16 @@
 import Link from 'next/link';
 import Image from 'next/image';
 import type { BlogPost } from '@/types';
+import { getCategoryUrl, getTagUrl } from '@/lib/posts/taxonomy';
+import { getCanonicalPostPath, getPostLocale } from '@/lib/posts/translations';
+import { formatPostDate } from '@/lib/i18n';
 
 interface PostCardProps {
   post: BlogPost;
 }
 
 export function PostCard({ post }: PostCardProps) {
-  const formattedDate = new Date(post.publishedAt).toLocaleDateString('en-US', {
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
+  const formattedDate = formatPostDate(post.publishedAt, getPostLocale(post));
 
   return (
     <article className="bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden hover:shadow-xl transition-shadow duration-300">
@@ -26,17 +25,24 @@ export function PostCard({ post }: PostCardProps) {
         </div>
       )}
       <div className="p-6">
+        <Link
+          href={getCategoryUrl(post.category)}
+          className="block text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 mb-2"
+        >
+          {post.category}
+        </Link>
         <div className="flex flex-wrap gap-2 mb-3">
           {post.tags.map((tag) => (
-            <span
+            <Link
               key={tag}
-              className="text-xs px-2 py-1 bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 rounded-full"
+              href={getTagUrl(tag)}
+              className="text-xs px-2 py-1 bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 rounded-full hover:bg-blue-200 dark:hover:bg-blue-800"
             >
               {tag}
-            </span>
+            </Link>
           ))}
         </div>
-        <Link href={`/blog/${post.slug}`}>
+        <Link href={getCanonicalPostPath(post)}>
           <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-2 hover:text-blue-600 dark:hover:text-blue-400 transition-colors">
             {post.title}
           </h3>
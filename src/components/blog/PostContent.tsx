@@ -0,0 +1,42 @@
+'use client';
+
+interface PostContentProps {
+  /**
+   * Rendered post HTML (see renderPostContent)
+   */
+  html: string;
+}
+
+const COPIED_RESET_MS = 2000;
+
+/**
+ * Post body. Code block copy buttons are part of the rendered HTML, so
+ * their clicks are handled here by delegation.
+ */
+export function PostContent({ html }: PostContentProps) {
+  const handleClick = async (e: React.MouseEvent<HTMLDivElement>) => {
+    const button = (e.target as HTMLElement).closest<HTMLButtonElement>('[data-copy-code]');
+    const code = button?.parentElement?.querySelector('pre code');
+    if (!button || !code) return;
+
+    try {
+      await navigator.clipboard.writeText(code.textContent || '');
+      button.textContent = 'Copied!';
+    } catch (error) {
+      console.error('Error copying code:', error);
+      button.textContent = 'Failed';
+    }
+
+    setTimeout(() => {
+      button.textContent = 'Copy';
+    }, COPIED_RESET_MS);
+  };
+
+  return (
+    <div
+      className="prose prose-lg dark:prose-invert max-w-none"
+      onClick={handleClick}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
@@ -0,0 +1,66 @@
+import Link from 'next/link';
+import type { Recommendation } from '@/lib/skills/recommend_content';
+import { getPostPath } from '@/lib/site';
+import { getMessages } from '@/lib/i18n';
+
+interface RelatedPostsProps {
+  recommendations: Recommendation[];
+  /**
+   * Language of the surrounding page
+   */
+  locale?: string;
+}
+
+/**
+ * "Related posts" block; each card explains why it was picked in a
+ * tooltip built from the recommendation reasons
+ */
+export function RelatedPosts({ recommendations, locale }: RelatedPostsProps) {
+  if (recommendations.length === 0) return null;
+
+  return (
+    <section className="max-w-4xl mx-auto mt-12" aria-labelledby="related-heading">
+      <h2 id="related-heading" className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
+        {getMessages(locale).relatedPosts}
+      </h2>
+      <ul className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {recommendations.map((recommendation) => {
+          const tooltipId = `related-reasons-${recommendation.postId}`;
+          const hasReasons = recommendation.reasons.length > 0;
+
+          return (
+            <li
+              key={recommendation.postId}
+              className="group relative p-4 rounded-lg bg-gray-50 dark:bg-gray-800"
+            >
+              <span className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                {recommendation.category}
+              </span>
+              <Link
+                href={getPostPath(recommendation.slug, recommendation.locale)}
+                aria-describedby={hasReasons ? tooltipId : undefined}
+                className="block mt-1 font-semibold text-gray-900 dark:text-white hover:text-blue-600 dark:hover:text-blue-400"
+              >
+                {recommendation.title}
+              </Link>
+
+              {hasReasons && (
+                <div
+                  id={tooltipId}
+                  role="tooltip"
+                  className="invisible opacity-0 group-hover:visible group-hover:opacity-100 group-focus-within:visible group-focus-within:opacity-100 transition-opacity absolute z-10 left-4 right-4 top-full mt-2 p-3 rounded-lg shadow-lg bg-gray-900 text-gray-100 text-sm"
+                >
+                  <ul className="space-y-1">
+                    {recommendation.reasons.map((reason) => (
+                      <li key={reason.type}>{reason.explanation}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { TocEntry } from '@/lib/posts/headings';
+
+interface TableOfContentsProps {
+  toc: TocEntry[];
+}
+
+function flatten(entries: TocEntry[]): TocEntry[] {
+  return entries.flatMap((entry) => [entry, ...flatten(entry.children)]);
+}
+
+/**
+ * Sticky section list; the section currently being read is the last
+ * heading that has scrolled past the top of the viewport
+ */
+export function TableOfContents({ toc }: TableOfContentsProps) {
+  const [activeId, setActiveId] = useState<string | null>(toc[0]?.id ?? null);
+
+  useEffect(() => {
+    const headings = flatten(toc)
+      .map((entry) => document.getElementById(entry.id))
+      .filter((el): el is HTMLElement => el !== null);
+    if (headings.length === 0) return;
+
+    const visible = new Set<string>();
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          if (entry.isIntersecting) visible.add(entry.target.id);
+          else visible.delete(entry.target.id);
+        }
+
+        // Topmost visible heading, else the last one above the viewport
+        const current =
+          headings.find((el) => visible.has(el.id)) ||
+          [...headings].reverse().find((el) => el.getBoundingClientRect().top < 0);
+        if (current) setActiveId(current.id);
+      },
+      { rootMargin: '0px 0px -70% 0px' }
+    );
+
+    headings.forEach((el) => observer.observe(el));
+    return () => observer.disconnect();
+  }, [toc]);
+
+  const renderEntries = (entries: TocEntry[], nested = false) => (
+    <ul className={nested ? 'ml-4 mt-2 space-y-2' : 'space-y-2'}>
+      {entries.map((entry) => (
+        <li key={entry.id}>
+          <a
+            href={`#${entry.id}`}
+            aria-current={entry.id === activeId ? 'location' : undefined}
+            className={`block text-sm hover:text-blue-600 dark:hover:text-blue-400 ${
+              entry.id === activeId
+                ? 'font-semibold text-blue-600 dark:text-blue-400'
+                : 'text-gray-600 dark:text-gray-400'
+            }`}
+          >
+            {entry.text}
+          </a>
+          {entry.children.length > 0 && renderEntries(entry.children, true)}
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <nav aria-labelledby="toc-heading" className="sticky top-24">
+      <h2 id="toc-heading" className="text-sm font-semibold uppercase tracking-wide text-gray-900 dark:text-white mb-3">
+        On this page
+      </h2>
+      {renderEntries(toc)}
+    </nav>
+  );
+}
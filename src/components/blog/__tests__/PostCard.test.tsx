@@ -27,7 +27,9 @@ describe('PostCard', () => {
     publishedAt: new Date('2024-01-15'),
     updatedAt: new Date('2024-01-15'),
     tags: ['test', 'vitest', 'react'],
+    category: 'Web Development',
     imageUrl: '/images/test-image.jpg',
+    status: 'published',
   };
 
   it('should render post title', () => {
@@ -57,6 +59,12 @@ describe('PostCard', () => {
     expect(screen.getByText('react')).toBeDefined();
   });
 
+  it('should link tags and category to their archive pages', () => {
+    const { container } = render(<PostCard post={mockPost} />);
+    expect(container.querySelector('a[href="/blog/tag/vitest"]')?.textContent).toBe('vitest');
+    expect(container.querySelector('a[href="/blog/category/web-development"]')?.textContent).toBe('Web Development');
+  });
+
   it('should render image when imageUrl is provided', () => {
     render(<PostCard post={mockPost} />);
     const image = screen.getByAltText('Test Post Title');
@@ -73,7 +81,7 @@ describe('PostCard', () => {
 
   it('should have correct link to post detail page', () => {
     const { container } = render(<PostCard post={mockPost} />);
-    const link = container.querySelector('a[href="/blog/test-post"]');
+    const link = container.querySelector('a[href="/en/blog/test-post"]');
     expect(link).toBeDefined();
   });
 
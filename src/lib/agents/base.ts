@@ -28,6 +28,10 @@ export interface AgentContext {
   traceId: string;
   sessionId?: string;
   userId?: string;
+  /**
+   * Spending cap for the request, passed on to every skill it runs
+   */
+  budgetUSD?: number;
   timestamp: Date;
   messageHistory?: AgentMessage[];
   systemState?: Record<string, unknown>;
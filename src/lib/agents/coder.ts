@@ -8,6 +8,7 @@
 import { BaseAgent, AgentContext, AgentValidationError } from './base';
 import type { AgentId } from '../protocols';
 import { generateContentSkill, summarizeContentSkill, chatInteractionSkill } from '@/lib/skills';
+import { isBudgetError } from '@/lib/llm';
 
 // ============================================================================
 // Types
@@ -227,6 +228,11 @@ export class CoderAgent extends BaseAgent<GenerationRequest, GenerationResult> {
       return result;
       
     } catch (error: any) {
+      // Over budget is a rejection for the caller, not a failed draft
+      if (isBudgetError(error)) {
+        throw error;
+      }
+      
       return {
         success: false,
         content: {},
@@ -265,6 +271,7 @@ export class CoderAgent extends BaseAgent<GenerationRequest, GenerationResult> {
       traceId: context.traceId,
       userId: context.userId,
       sessionId: context.sessionId,
+      budgetUSD: context.budgetUSD,
       environment: 'production',
       timestamp: new Date()
     });
@@ -316,6 +323,7 @@ export class CoderAgent extends BaseAgent<GenerationRequest, GenerationResult> {
       traceId: context.traceId,
       userId: context.userId,
       sessionId: context.sessionId,
+      budgetUSD: context.budgetUSD,
       environment: 'production',
       timestamp: new Date()
     });
@@ -368,6 +376,7 @@ export class CoderAgent extends BaseAgent<GenerationRequest, GenerationResult> {
       traceId: context.traceId,
       userId: context.userId,
       sessionId: context.sessionId,
+      budgetUSD: context.budgetUSD,
       environment: 'production',
       timestamp: new Date()
     });
@@ -406,6 +415,7 @@ export class CoderAgent extends BaseAgent<GenerationRequest, GenerationResult> {
       traceId: context.traceId,
       userId: context.userId,
       sessionId: context.sessionId,
+      budgetUSD: context.budgetUSD,
       environment: 'production',
       timestamp: new Date()
     });
@@ -9,6 +9,7 @@ import { BaseAgent, AgentContext, AgentValidationError } from './base';
 import type { AgentId } from '../protocols';
 import type { ExecutionPlan, ExecutionStep, SkillId } from './planner';
 import * as skills from '../skills';
+import { isBudgetError } from '../llm';
 
 // ============================================================================
 // Types
@@ -108,6 +109,8 @@ export class ExecutorAgent extends BaseAgent<ExecutionRequest, ExecutionResult>
     
     const { plan } = input;
     const stepResults: StepResult[] = [];
+    // Every step spends from the plan's budget
+    const stepContext: AgentContext = { ...context, budgetUSD: plan.budgetUSD ?? context.budgetUSD };
     
     // Execute steps in order, respecting dependencies
     for (const step of plan.steps) {
@@ -139,7 +142,7 @@ export class ExecutorAgent extends BaseAgent<ExecutionRequest, ExecutionResult>
         }
         
         // Execute step with retry
-        const result = await this.executeStepWithRetry(step, context);
+        const result = await this.executeStepWithRetry(step, stepContext);
         stepResults.push(result);
         this.stepResults.set(step.id, result);
         
@@ -208,6 +211,11 @@ export class ExecutorAgent extends BaseAgent<ExecutionRequest, ExecutionResult>
         lastError = error;
         retries++;
         
+        // Retrying cannot bring spending back under a cap
+        if (isBudgetError(error)) {
+          break;
+        }
+        
         // Wait before retry
         if (attempt < maxAttempts - 1) {
           const delayMs = backoffMs[attempt] || backoffMs[backoffMs.length - 1];
@@ -222,9 +230,9 @@ export class ExecutorAgent extends BaseAgent<ExecutionRequest, ExecutionResult>
       skillId: step.skillId,
       status: 'failed',
       error: {
-        code: lastError?.name || 'EXECUTION_FAILED',
+        code: (lastError as { code?: string } | undefined)?.code || lastError?.name || 'EXECUTION_FAILED',
         message: lastError?.message || 'Unknown error',
-        recoverable: retries < maxAttempts
+        recoverable: retries < maxAttempts && !isBudgetError(lastError)
       },
       duration: Date.now() - startTime,
       retries
@@ -243,6 +251,7 @@ export class ExecutorAgent extends BaseAgent<ExecutionRequest, ExecutionResult>
       traceId: context.traceId,
       userId: context.userId,
       sessionId: context.sessionId,
+      budgetUSD: context.budgetUSD,
       environment: 'production' as const,
       timestamp: new Date()
     };
@@ -265,6 +274,8 @@ export class ExecutorAgent extends BaseAgent<ExecutionRequest, ExecutionResult>
         return skills.recommendContentSkill;
       case 'chat_interaction':
         return skills.chatInteractionSkill;
+      case 'translate_content':
+        return skills.translateContentSkill;
       default:
         throw new Error(`Unknown skill: ${skillId}`);
     }
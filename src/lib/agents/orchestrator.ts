@@ -11,6 +11,7 @@ import { coderAgent, type GenerationRequest, type GenerationResult } from './cod
 import { reviewerAgent, type ReviewRequest, type ReviewResult } from './reviewer';
 import { createAgentMessage, createSystemEvent } from '../protocols';
 import type { AgentMessage, SystemEvent } from '../protocols';
+import { getBudgetLimits } from '../llm';
 
 // ============================================================================
 // Types
@@ -34,6 +35,19 @@ export interface OrchestratorContext {
   traceId: string;
   userId?: string;
   sessionId?: string;
+  /**
+   * Spending cap for the whole workflow; defaults to LLM_BUDGET_REQUEST_USD
+   */
+  budgetUSD?: number;
+}
+
+export interface OrchestratorError {
+  stage: string;
+  error: string;
+  /**
+   * Code of the underlying error, e.g. REQUEST_BUDGET_EXCEEDED
+   */
+  code?: string;
 }
 
 export interface OrchestratorResult {
@@ -43,7 +57,7 @@ export interface OrchestratorResult {
   execution?: ExecutionResult;
   review?: ReviewResult;
   events: SystemEvent[];
-  errors: Array<{ stage: string; error: string }>;
+  errors: OrchestratorError[];
   metadata: {
     duration: number;
     agentsInvolved: string[];
@@ -57,7 +71,7 @@ export interface OrchestratorResult {
 
 export class MultiAgentOrchestrator {
   private events: SystemEvent[] = [];
-  private errors: Array<{ stage: string; error: string }> = [];
+  private errors: OrchestratorError[] = [];
   
   /**
    * Main orchestration method - handles complete workflow
@@ -67,11 +81,15 @@ export class MultiAgentOrchestrator {
     this.events = [];
     this.errors = [];
     
-    const context = request.context || {
+    const requestContext = request.context || {
       traceId: this.generateTraceId(),
       userId: 'anonymous',
       sessionId: this.generateSessionId()
     };
+    const context: OrchestratorContext = {
+      ...requestContext,
+      budgetUSD: requestContext.budgetUSD ?? getBudgetLimits().perRequestUSD
+    };
     
     try {
       this.emitEvent('orchestrator.started', { intent: request.intent, type: request.type });
@@ -122,7 +140,7 @@ export class MultiAgentOrchestrator {
       
     } catch (error: any) {
       this.emitEvent('orchestrator.failed', { error: error.message });
-      this.errors.push({ stage: 'orchestration', error: error.message });
+      this.errors.push({ stage: 'orchestration', error: error.message, code: error.code });
       
       return {
         success: false,
@@ -177,6 +195,7 @@ export class MultiAgentOrchestrator {
       traceId: context.traceId,
       userId: context.userId,
       sessionId: context.sessionId,
+      budgetUSD: context.budgetUSD,
       timestamp: new Date()
     });
     
@@ -203,6 +222,7 @@ export class MultiAgentOrchestrator {
       traceId: context.traceId,
       userId: context.userId,
       sessionId: context.sessionId,
+      budgetUSD: context.budgetUSD,
       timestamp: new Date()
     });
     
@@ -246,6 +266,7 @@ export class MultiAgentOrchestrator {
       traceId: context.traceId,
       userId: context.userId,
       sessionId: context.sessionId,
+      budgetUSD: context.budgetUSD,
       timestamp: new Date()
     });
     
@@ -280,6 +301,7 @@ export class MultiAgentOrchestrator {
       traceId: context.traceId,
       userId: context.userId,
       sessionId: context.sessionId,
+      budgetUSD: context.budgetUSD,
       timestamp: new Date()
     });
     
@@ -313,6 +335,7 @@ export class MultiAgentOrchestrator {
       traceId: context.traceId,
       userId: context.userId,
       sessionId: context.sessionId,
+      budgetUSD: context.budgetUSD,
       timestamp: new Date()
     });
     
@@ -337,7 +360,7 @@ export class MultiAgentOrchestrator {
       userIntent: request.intent,
       userContext: {
         userId: context.userId,
-        preferences: {}
+        preferences: { ...request.params }
       },
       systemContext: {
         availableSkills: [
@@ -346,7 +369,8 @@ export class MultiAgentOrchestrator {
           'moderate_content',
           'analyze_seo',
           'recommend_content',
-          'chat_interaction'
+          'chat_interaction',
+          'translate_content'
         ],
         systemLoad: 0.5,
         rateLimits: {}
@@ -354,7 +378,7 @@ export class MultiAgentOrchestrator {
       constraints: {
         maxSteps: 10,
         timeout: 120000,
-        budget: 1.0
+        budget: context.budgetUSD
       }
     };
     
@@ -362,6 +386,7 @@ export class MultiAgentOrchestrator {
       traceId: context.traceId,
       userId: context.userId,
       sessionId: context.sessionId,
+      budgetUSD: context.budgetUSD,
       timestamp: new Date()
     });
     
@@ -377,6 +402,7 @@ export class MultiAgentOrchestrator {
       traceId: context.traceId,
       userId: context.userId,
       sessionId: context.sessionId,
+      budgetUSD: context.budgetUSD,
       timestamp: new Date()
     });
     
@@ -18,7 +18,8 @@ export type SkillId =
   | 'moderate_content'
   | 'analyze_seo'
   | 'recommend_content'
-  | 'chat_interaction';
+  | 'chat_interaction'
+  | 'translate_content';
 
 export interface PlanningRequest {
   userIntent: string;
@@ -52,6 +53,10 @@ export interface ExecutionPlan {
   steps: ExecutionStep[];
   estimatedDuration: number;
   estimatedCost: number;
+  /**
+   * Spending cap in USD for every LLM call the plan makes
+   */
+  budgetUSD?: number;
   metadata: PlanMetadata;
 }
 
@@ -175,6 +180,7 @@ export class PlannerAgent extends BaseAgent<PlanningRequest, ExecutionPlan> {
       steps: optimizedSteps,
       estimatedDuration: estimates.duration,
       estimatedCost: estimates.cost,
+      budgetUSD: input.constraints?.budget,
       metadata: {
         createdBy: this.id,
         createdAt: new Date(),
@@ -193,9 +199,13 @@ export class PlannerAgent extends BaseAgent<PlanningRequest, ExecutionPlan> {
     const intentLower = userIntent.toLowerCase();
     
     // Detect primary action
+    const targetLanguage = findTargetLanguage(userIntent);
     let action: IntentAction = 'unknown';
-    if (intentLower.includes('generate') || intentLower.includes('create') || intentLower.includes('write')) {
+    if (GENERATE_INTENT.test(intentLower)) {
+      // Checked first: "write a post about machine translation" is a generate request
       action = 'generate';
+    } else if (TRANSLATE_INTENT.test(intentLower) || (TRANSLATE_VERB.test(intentLower) && targetLanguage)) {
+      action = 'translate';
     } else if (intentLower.includes('summarize') || intentLower.includes('summary')) {
       action = 'summarize';
     } else if (intentLower.includes('analyze') || intentLower.includes('check') || intentLower.includes('seo')) {
@@ -221,6 +231,8 @@ export class PlannerAgent extends BaseAgent<PlanningRequest, ExecutionPlan> {
     const lengthMatch = userIntent.match(/(short|medium|long)/i);
     if (lengthMatch) params.length = lengthMatch[1].toLowerCase();
     
+    if (action === 'translate' && targetLanguage) params.targetLanguage = targetLanguage;
+    
     return { action, topic, params };
   }
   
@@ -273,6 +285,12 @@ export class PlannerAgent extends BaseAgent<PlanningRequest, ExecutionPlan> {
         }
         break;
       
+      case 'translate':
+        if (availableSkills.includes('translate_content')) {
+          selected.push('translate_content');
+        }
+        break;
+      
       default:
         // Default to chat if no specific action detected
         if (availableSkills.includes('chat_interaction')) {
@@ -348,6 +366,13 @@ export class PlannerAgent extends BaseAgent<PlanningRequest, ExecutionPlan> {
         params.personality = 'friendly';
         params.citeSources = true;
         break;
+      
+      case 'translate_content':
+        params.text = preferences?.text || intent.topic || '';
+        params.targetLanguage = intent.params.targetLanguage || preferences?.targetLanguage || 'en';
+        if (preferences?.sourceLanguage) params.sourceLanguage = preferences.sourceLanguage;
+        params.context = 'blog-post';
+        break;
     }
     
     return params;
@@ -386,7 +411,8 @@ export class PlannerAgent extends BaseAgent<PlanningRequest, ExecutionPlan> {
       moderate_content: { duration: 1500, cost: 100 },
       analyze_seo: { duration: 1000, cost: 0 },
       recommend_content: { duration: 500, cost: 0 },
-      chat_interaction: { duration: 2000, cost: 300 }
+      chat_interaction: { duration: 2000, cost: 300 },
+      translate_content: { duration: 4000, cost: 300 }
     };
     
     let totalDuration = 0;
@@ -431,7 +457,7 @@ export class PlannerAgent extends BaseAgent<PlanningRequest, ExecutionPlan> {
 // Helper Types
 // ============================================================================
 
-type IntentAction = 'generate' | 'summarize' | 'analyze' | 'moderate' | 'recommend' | 'chat' | 'unknown';
+type IntentAction = 'generate' | 'summarize' | 'analyze' | 'moderate' | 'recommend' | 'chat' | 'translate' | 'unknown';
 
 interface UserIntent {
   action: IntentAction;
@@ -439,5 +465,41 @@ interface UserIntent {
   params: Record<string, string>;
 }
 
+/**
+ * Whole-word verbs, so "the post I created" does not count
+ */
+const GENERATE_INTENT = /\b(?:generate|generating|create|creating|write|writing)\b/;
+
+/**
+ * Translation as the request itself: an imperative at the start
+ * ("translate ...", "traduce ..."); TRANSLATE_VERB counts elsewhere only
+ * together with a target language
+ */
+const TRANSLATE_INTENT = /^\s*(?:please\s+|por favor,?\s+)?(?:translate|traduce|traducir|traduzca)\b/;
+const TRANSLATE_VERB = /\b(?:translate|traduce|traducir|traduzca)\b/;
+
+/**
+ * Language names and codes accepted after "to", "into", "al" or "a".
+ * No bare `it`: "translate this to it" means the pronoun.
+ */
+const LANGUAGE_CODES: Record<string, string> = {
+  english: 'en', inglés: 'en', ingles: 'en', en: 'en',
+  spanish: 'es', español: 'es', espanol: 'es', es: 'es',
+  portuguese: 'pt', portugués: 'pt', portugues: 'pt', pt: 'pt',
+  french: 'fr', francés: 'fr', frances: 'fr', fr: 'fr',
+  german: 'de', alemán: 'de', aleman: 'de', de: 'de',
+  italian: 'it', italiano: 'it',
+  japanese: 'ja', ja: 'ja',
+  chinese: 'zh', zh: 'zh',
+  korean: 'ko', ko: 'ko',
+  russian: 'ru', ru: 'ru'
+};
+
+function findTargetLanguage(userIntent: string): string | undefined {
+  return Array.from(userIntent.matchAll(/\b(?:to|into|al|a)\s+([^\s.,;:!?]+)/gi))
+    .map(match => LANGUAGE_CODES[match[1].toLowerCase()])
+    .find(Boolean);
+}
+
 // Export singleton instance
 export const plannerAgent = new PlannerAgent();
@@ -0,0 +1,20 @@
+/**
+ * Admin Authentication
+ *
+ * Admin-only API routes require an `x-admin-key` header matching
+ * ADMIN_API_KEY. Without ADMIN_API_KEY configured, no request is admin.
+ */
+
+import { timingSafeEqual } from 'crypto';
+
+export function isAdminRequest(request: Request): boolean {
+  const expected = process.env.ADMIN_API_KEY;
+  const provided = request.headers.get('x-admin-key');
+
+  if (!expected || !provided) return false;
+
+  const expectedBuffer = Buffer.from(expected);
+  const providedBuffer = Buffer.from(provided);
+
+  return expectedBuffer.length === providedBuffer.length && timingSafeEqual(expectedBuffer, providedBuffer);
+}
@@ -0,0 +1,34 @@
+/**
+ * Client Identity
+ *
+ * Who a request counts against for rate limits and spending budgets.
+ * Only verified credentials give a stable identity (the admin key, see
+ * ./admin); headers a client sets freely, such as x-user-id, never do,
+ * since a new value per request would mean a fresh allowance each time.
+ * Everyone else is their IP address.
+ */
+
+import { isAdminRequest } from './admin';
+
+/**
+ * Address as seen by our own proxy: the platform's request.ip, then
+ * x-real-ip, then the last x-forwarded-for hop (the one the proxy added;
+ * earlier hops come from the client)
+ */
+export function getClientIp(request: Request): string {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',').map(hop => hop.trim()).filter(Boolean);
+
+  return (
+    (request as Request & { ip?: string }).ip ||
+    request.headers.get('x-real-ip') ||
+    forwarded?.[forwarded.length - 1] ||
+    'unknown'
+  );
+}
+
+/**
+ * `admin` for a verified admin key, otherwise `ip:<address>`
+ */
+export function getClientId(request: Request): string {
+  return isAdminRequest(request) ? 'admin' : `ip:${getClientIp(request)}`;
+}
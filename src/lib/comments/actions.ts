@@ -0,0 +1,78 @@
+/**
+ * Comment Actions
+ *
+ * Actions on existing comments of a given post. Reader actions only
+ * apply to published comments; admins review the ones held as pending.
+ */
+
+import type { Comment, CommentReaction, CommentStatus } from '@/types';
+import { CommentError, type CommentStore } from './store';
+import { verifyCommentToken } from './tokens';
+
+async function getPostComment(store: CommentStore, postId: string, commentId: string): Promise<Comment> {
+  const comment = await store.getById(commentId);
+  if (!comment || comment.postId !== postId || comment.status !== 'published') {
+    throw new CommentError('COMMENT_NOT_FOUND', `Comment ${commentId} not found`);
+  }
+  return comment;
+}
+
+/**
+ * Only an admin, or the commenter holding the comment's token (see
+ * ./tokens), may delete; replies stay visible
+ */
+export async function deleteComment(
+  store: CommentStore,
+  postId: string,
+  commentId: string,
+  actor: { token?: string; isAdmin: boolean }
+): Promise<Comment> {
+  const comment = await getPostComment(store, postId, commentId);
+
+  if (!actor.isAdmin && !verifyCommentToken(comment.id, actor.token)) {
+    throw new CommentError('FORBIDDEN', 'Only the author or an admin can delete this comment');
+  }
+
+  return store.softDelete(commentId);
+}
+
+export async function reactToComment(
+  store: CommentStore,
+  postId: string,
+  commentId: string,
+  userId: string,
+  reaction: CommentReaction
+): Promise<Comment> {
+  const comment = await getPostComment(store, postId, commentId);
+
+  if (comment.deletedAt) {
+    throw new CommentError('COMMENT_NOT_FOUND', `Comment ${commentId} was deleted`);
+  }
+
+  return store.toggleReaction(commentId, userId, reaction);
+}
+
+export type CommentReviewStatus = Extract<CommentStatus, 'published' | 'rejected'>;
+
+export const COMMENT_REVIEW_STATUSES: CommentReviewStatus[] = ['published', 'rejected'];
+
+/**
+ * Publishes or rejects a comment that moderation held for review (admin only)
+ */
+export async function reviewComment(
+  store: CommentStore,
+  postId: string,
+  commentId: string,
+  status: CommentReviewStatus
+): Promise<Comment> {
+  const comment = await store.getById(commentId);
+  if (!comment || comment.postId !== postId) {
+    throw new CommentError('COMMENT_NOT_FOUND', `Comment ${commentId} not found`);
+  }
+
+  if (comment.status !== 'pending') {
+    throw new CommentError('NOT_PENDING', `Comment ${commentId} is already ${comment.status}`);
+  }
+
+  return store.setStatus(commentId, status);
+}
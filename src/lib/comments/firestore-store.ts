@@ -0,0 +1,146 @@
+/**
+ * Firestore Comment Store
+ *
+ * CommentStore backed by the top-level `comments` collection. Comments are
+ * read and written with the Admin SDK only; clients get them through the
+ * comments API, which strips commenter ids (see firestore.rules).
+ */
+
+import { Timestamp, type DocumentData, type Firestore } from 'firebase-admin/firestore';
+import type { Comment, CommentReaction } from '@/types';
+import { getAdminFirestore } from '../firebase/admin';
+import {
+  CommentError,
+  toggleReactionIn,
+  type CommentStore,
+  type ListCommentsOptions,
+  type NewComment
+} from './store';
+
+const COLLECTION = 'comments';
+
+export class FirestoreCommentStore implements CommentStore {
+  constructor(private getDb: () => Firestore = getAdminFirestore) {}
+
+  async list(postId: string, options: ListCommentsOptions = {}): Promise<Comment[]> {
+    let query = this.collection().where('postId', '==', postId);
+
+    if (options.status) {
+      query = query.where('status', '==', options.status);
+    }
+
+    const snapshot = await query.orderBy('createdAt', 'asc').get();
+    return snapshot.docs.map(doc => deserializeComment(doc.id, doc.data()));
+  }
+
+  async getById(id: string): Promise<Comment | undefined> {
+    const doc = await this.collection().doc(id).get();
+    return doc.exists ? deserializeComment(doc.id, doc.data()!) : undefined;
+  }
+
+  async create(input: NewComment): Promise<Comment> {
+    const ref = this.collection().doc();
+    const comment: Comment = { ...input, id: ref.id, createdAt: new Date(), reactions: {} };
+
+    await ref.set(serializeComment(comment));
+    return comment;
+  }
+
+  async countByUser(userId: string, status: Comment['status']): Promise<number> {
+    const snapshot = await this.collection()
+      .where('userId', '==', userId)
+      .where('status', '==', status)
+      .count()
+      .get();
+    return snapshot.data().count;
+  }
+
+  async setStatus(id: string, status: Comment['status']): Promise<Comment> {
+    const ref = this.collection().doc(id);
+
+    return this.getDb().runTransaction(async transaction => {
+      const doc = await transaction.get(ref);
+      if (!doc.exists) {
+        throw new CommentError('COMMENT_NOT_FOUND', `Comment ${id} not found`);
+      }
+
+      transaction.update(ref, { status });
+      return { ...deserializeComment(doc.id, doc.data()!), status };
+    });
+  }
+
+  async softDelete(id: string): Promise<Comment> {
+    const ref = this.collection().doc(id);
+
+    return this.getDb().runTransaction(async transaction => {
+      const doc = await transaction.get(ref);
+      if (!doc.exists) {
+        throw new CommentError('COMMENT_NOT_FOUND', `Comment ${id} not found`);
+      }
+
+      const comment = deserializeComment(doc.id, doc.data()!);
+      const deleted: Comment = { ...comment, content: '', deletedAt: comment.deletedAt || new Date() };
+
+      transaction.update(ref, { content: '', deletedAt: Timestamp.fromDate(deleted.deletedAt!) });
+      return deleted;
+    });
+  }
+
+  async toggleReaction(id: string, userId: string, reaction: CommentReaction): Promise<Comment> {
+    const ref = this.collection().doc(id);
+
+    return this.getDb().runTransaction(async transaction => {
+      const doc = await transaction.get(ref);
+      if (!doc.exists) {
+        throw new CommentError('COMMENT_NOT_FOUND', `Comment ${id} not found`);
+      }
+
+      const comment = deserializeComment(doc.id, doc.data()!);
+      const reactions = toggleReactionIn(comment.reactions, userId, reaction);
+
+      transaction.update(ref, { reactions });
+      return { ...comment, reactions };
+    });
+  }
+
+  private collection() {
+    return this.getDb().collection(COLLECTION);
+  }
+}
+
+// ============================================================================
+// Serialization
+// ============================================================================
+
+function serializeComment(comment: Comment): DocumentData {
+  const { id, ...data } = comment;
+
+  return {
+    ...data,
+    parentId: comment.parentId ?? null,
+    createdAt: Timestamp.fromDate(comment.createdAt),
+    deletedAt: comment.deletedAt ? Timestamp.fromDate(comment.deletedAt) : null,
+    moderation: comment.moderation
+      ? { ...comment.moderation, checkedAt: Timestamp.fromDate(comment.moderation.checkedAt) }
+      : null,
+  };
+}
+
+function deserializeComment(id: string, data: DocumentData): Comment {
+  return {
+    id,
+    postId: data.postId,
+    parentId: data.parentId ?? undefined,
+    depth: data.depth ?? 0,
+    userId: data.userId,
+    author: data.author,
+    content: data.content,
+    createdAt: data.createdAt.toDate(),
+    status: data.status,
+    reactions: data.reactions || {},
+    deletedAt: data.deletedAt ? data.deletedAt.toDate() : undefined,
+    moderation: data.moderation
+      ? { ...data.moderation, checkedAt: data.moderation.checkedAt.toDate() }
+      : undefined,
+  };
+}
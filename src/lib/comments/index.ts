@@ -0,0 +1,51 @@
+/**
+ * Comments Module
+ *
+ * Central access point for post comments. The backing store follows
+ * COMMENT_STORE ('memory' | 'firestore'), defaulting to memory; reply
+ * nesting is capped by COMMENT_MAX_DEPTH (see ./thread).
+ */
+
+import { InMemoryCommentStore, type CommentStore } from './store';
+import { FirestoreCommentStore } from './firestore-store';
+
+export * from './store';
+export * from './firestore-store';
+export * from './submit';
+export * from './thread';
+export * from './actions';
+export * from './tokens';
+
+export type CommentStoreKind = 'memory' | 'firestore';
+
+let commentStore: CommentStore | null = null;
+
+export function createCommentStore(
+  kind: CommentStoreKind = (process.env.COMMENT_STORE as CommentStoreKind) || 'memory'
+): CommentStore {
+  switch (kind) {
+    case 'firestore':
+      return new FirestoreCommentStore();
+    case 'memory':
+      return new InMemoryCommentStore();
+    default:
+      throw new Error(`Unknown COMMENT_STORE: ${kind}. Must be one of: memory, firestore`);
+  }
+}
+
+/**
+ * Shared store used by API routes
+ */
+export function getCommentStore(): CommentStore {
+  if (!commentStore) {
+    commentStore = createCommentStore();
+  }
+  return commentStore;
+}
+
+/**
+ * Replace the shared store (tests and scripts)
+ */
+export function setCommentStore(store: CommentStore | null): void {
+  commentStore = store;
+}
@@ -0,0 +1,193 @@
+/**
+ * Comment Store
+ *
+ * Read/write access to post comments behind a single interface:
+ * - FirestoreCommentStore: the `comments` collection (see firestore.rules)
+ * - InMemoryCommentStore: same semantics, for tests and local development
+ */
+
+import { randomUUID } from 'crypto';
+import type { Comment, CommentReaction, CommentStatus } from '@/types';
+
+// ============================================================================
+// Interface
+// ============================================================================
+
+export type NewComment = Omit<Comment, 'id' | 'createdAt' | 'reactions' | 'deletedAt'>;
+
+export const COMMENT_REACTIONS: CommentReaction[] = ['like', 'insightful', 'laugh', 'confused'];
+
+export interface ListCommentsOptions {
+  /**
+   * Defaults to every status
+   */
+  status?: CommentStatus;
+}
+
+export interface CommentStore {
+  /**
+   * Comments on a post, oldest first
+   */
+  list(postId: string, options?: ListCommentsOptions): Promise<Comment[]>;
+  getById(id: string): Promise<Comment | undefined>;
+
+  /**
+   * Stores a new comment; the store assigns id and createdAt
+   */
+  create(comment: NewComment): Promise<Comment>;
+
+  /**
+   * Number of comments by a user with the given status, across all posts
+   */
+  countByUser(userId: string, status: CommentStatus): Promise<number>;
+
+  /**
+   * Sets the moderation outcome, e.g. when an admin reviews a held comment
+   */
+  setStatus(id: string, status: CommentStatus): Promise<Comment>;
+
+  /**
+   * Turns the comment into a tombstone: content is cleared, replies are kept
+   */
+  softDelete(id: string): Promise<Comment>;
+
+  /**
+   * Adds the user's reaction, or removes it if already present
+   */
+  toggleReaction(id: string, userId: string, reaction: CommentReaction): Promise<Comment>;
+}
+
+export class CommentError extends Error {
+  constructor(
+    public code: 'COMMENT_NOT_FOUND' | 'INVALID_PARENT' | 'INVALID_REACTION' | 'FORBIDDEN' | 'NOT_PENDING',
+    message: string
+  ) {
+    super(message);
+    this.name = 'CommentError';
+  }
+}
+
+/**
+ * What readers see: reaction counts instead of user ids, no moderation
+ * details, and no author or content for deleted comments
+ */
+export interface PublicComment extends Omit<Comment, 'userId' | 'moderation' | 'reactions' | 'deletedAt'> {
+  reactions: Partial<Record<CommentReaction, number>>;
+  deleted: boolean;
+  /**
+   * Relative to the viewer passed to toPublicComment
+   */
+  viewerReactions: CommentReaction[];
+}
+
+export function toPublicComment(
+  { userId, moderation, reactions, deletedAt, ...comment }: Comment,
+  viewerId?: string
+): PublicComment {
+  const counts: Partial<Record<CommentReaction, number>> = {};
+  const viewerReactions: CommentReaction[] = [];
+
+  for (const [reaction, users] of Object.entries(reactions) as Array<[CommentReaction, string[] | undefined]>) {
+    if (users && users.length > 0) counts[reaction] = users.length;
+    if (viewerId && users?.includes(viewerId)) viewerReactions.push(reaction);
+  }
+
+  if (deletedAt) {
+    return { ...comment, author: '[deleted]', content: '', reactions: {}, deleted: true, viewerReactions: [] };
+  }
+
+  return { ...comment, reactions: counts, deleted: false, viewerReactions };
+}
+
+/**
+ * Applies a reaction toggle to a reactions map (shared by the stores)
+ */
+export function toggleReactionIn(
+  reactions: Comment['reactions'],
+  userId: string,
+  reaction: CommentReaction
+): Comment['reactions'] {
+  if (!COMMENT_REACTIONS.includes(reaction)) {
+    throw new CommentError('INVALID_REACTION', `Unknown reaction: ${reaction}`);
+  }
+
+  const users = reactions[reaction] || [];
+  return {
+    ...reactions,
+    [reaction]: users.includes(userId) ? users.filter(id => id !== userId) : [...users, userId],
+  };
+}
+
+// ============================================================================
+// In-Memory Implementation
+// ============================================================================
+
+export class InMemoryCommentStore implements CommentStore {
+  private comments: Map<string, Comment> = new Map();
+
+  async list(postId: string, options: ListCommentsOptions = {}): Promise<Comment[]> {
+    return Array.from(this.comments.values())
+      .filter(comment => comment.postId === postId)
+      .filter(comment => !options.status || comment.status === options.status)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(cloneComment);
+  }
+
+  async getById(id: string): Promise<Comment | undefined> {
+    const comment = this.comments.get(id);
+    return comment ? cloneComment(comment) : undefined;
+  }
+
+  async create(input: NewComment): Promise<Comment> {
+    const comment: Comment = { ...input, id: randomUUID(), createdAt: new Date(), reactions: {} };
+    this.comments.set(comment.id, cloneComment(comment));
+    return cloneComment(comment);
+  }
+
+  async countByUser(userId: string, status: CommentStatus): Promise<number> {
+    return Array.from(this.comments.values()).filter(
+      comment => comment.userId === userId && comment.status === status
+    ).length;
+  }
+
+  async setStatus(id: string, status: CommentStatus): Promise<Comment> {
+    const comment = this.require(id);
+    comment.status = status;
+    return cloneComment(comment);
+  }
+
+  async softDelete(id: string): Promise<Comment> {
+    const comment = this.require(id);
+    comment.content = '';
+    comment.deletedAt = comment.deletedAt || new Date();
+    return cloneComment(comment);
+  }
+
+  async toggleReaction(id: string, userId: string, reaction: CommentReaction): Promise<Comment> {
+    const comment = this.require(id);
+    comment.reactions = toggleReactionIn(comment.reactions, userId, reaction);
+    return cloneComment(comment);
+  }
+
+  private require(id: string): Comment {
+    const comment = this.comments.get(id);
+    if (!comment) {
+      throw new CommentError('COMMENT_NOT_FOUND', `Comment ${id} not found`);
+    }
+    return comment;
+  }
+}
+
+function cloneComment(comment: Comment): Comment {
+  return {
+    ...comment,
+    createdAt: new Date(comment.createdAt),
+    reactions: Object.fromEntries(
+      Object.entries(comment.reactions).map(([reaction, users]) => [reaction, [...(users || [])]])
+    ),
+    deletedAt: comment.deletedAt ? new Date(comment.deletedAt) : undefined,
+    moderation: comment.moderation
+      ? { ...comment.moderation, checkedAt: new Date(comment.moderation.checkedAt), reasons: [...comment.moderation.reasons] }
+      : undefined,
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Comment Submission
+ *
+ * Every new comment goes through moderate_content before it is stored:
+ * - approved → published immediately
+ * - any violation suggesting 'block' → rejected
+ * - anything else (review, edit, warn) → pending, held for an admin, who
+ *   publishes or rejects it through reviewComment (see ./actions)
+ *
+ * The commenter's rejected comments count as previous violations, so
+ * repeat offenders are judged more strictly. The display name is
+ * moderated together with the content, since both are published side by
+ * side. userId must come from the server (see lib/auth/client), or a new
+ * id would reset that history. Replies must target a published,
+ * non-deleted comment on the same post.
+ */
+
+import type { Comment, CommentStatus } from '@/types';
+import { moderateContentSkill, type ModerateContentOutput } from '../skills';
+import { logger } from '../utils/logger';
+import { CommentError, type CommentStore } from './store';
+import { resolveReplyPlacement } from './thread';
+
+export const COMMENT_MAX_LENGTH = 5000;
+export const COMMENT_AUTHOR_MAX_LENGTH = 80;
+
+export interface SubmitCommentInput {
+  postId: string;
+  userId: string;
+  author: string;
+  content: string;
+  parentId?: string;
+}
+
+export interface SubmitCommentContext {
+  traceId: string;
+  sessionId?: string;
+}
+
+export function decideCommentStatus(result: ModerateContentOutput): CommentStatus {
+  if (result.violations.some(v => v.suggestedAction === 'block')) {
+    return 'rejected';
+  }
+  return result.approved ? 'published' : 'pending';
+}
+
+export async function submitComment(
+  store: CommentStore,
+  input: SubmitCommentInput,
+  context: SubmitCommentContext
+): Promise<Comment> {
+  const placement = await resolvePlacement(store, input);
+  const previousViolations = await store.countByUser(input.userId, 'rejected');
+  let status: CommentStatus;
+  let reasons: string[];
+  let flagged: boolean;
+
+  try {
+    const result = await moderateContentSkill.execute(
+      {
+        content: `${input.author}\n\n${input.content}`,
+        checkTypes: ['hate', 'harassment', 'self-harm', 'sexual', 'violence', 'spam', 'malicious-links'],
+        context: {
+          userId: input.userId,
+          postId: input.postId,
+          previousViolations,
+        },
+      },
+      {
+        traceId: context.traceId,
+        userId: input.userId,
+        sessionId: context.sessionId,
+      }
+    );
+
+    status = decideCommentStatus(result);
+    reasons = result.violations.map(v => v.reason);
+    flagged = result.flagged;
+  } catch (error: any) {
+    // Never publish unmoderated content; an admin can review it later
+    logger.error('Comment moderation failed', {
+      service: 'system',
+      operation: 'submitComment',
+      traceId: context.traceId,
+      timestamp: new Date(),
+      metadata: { postId: input.postId, userId: input.userId }
+    }, error);
+
+    status = 'pending';
+    reasons = ['Moderation unavailable'];
+    flagged = false;
+  }
+
+  return store.create({
+    ...input,
+    ...placement,
+    status,
+    moderation: {
+      checkedAt: new Date(),
+      flagged,
+      reasons,
+      previousViolations,
+    },
+  });
+}
+
+async function resolvePlacement(
+  store: CommentStore,
+  input: SubmitCommentInput
+): Promise<Pick<Comment, 'parentId' | 'depth'>> {
+  if (!input.parentId) {
+    return { parentId: undefined, depth: 0 };
+  }
+
+  const parent = await store.getById(input.parentId);
+  if (!parent || parent.postId !== input.postId || parent.status !== 'published' || parent.deletedAt) {
+    throw new CommentError('INVALID_PARENT', `Cannot reply to comment ${input.parentId}`);
+  }
+
+  return resolveReplyPlacement(parent);
+}
@@ -0,0 +1,86 @@
+/**
+ * Comment Threads
+ *
+ * Builds the reply tree shown under a post. Nesting is capped at
+ * COMMENT_MAX_DEPTH (default 3): a reply to a comment already at the
+ * maximum depth is attached to that comment's parent instead, so the
+ * discussion continues as a sibling rather than being refused.
+ */
+
+import type { Comment } from '@/types';
+import { toPublicComment, type PublicComment } from './store';
+
+export type CommentSort = 'oldest' | 'newest' | 'top';
+
+export const COMMENT_SORTS: CommentSort[] = ['oldest', 'newest', 'top'];
+
+const DEFAULT_MAX_DEPTH = 3;
+
+export interface CommentNode {
+  comment: PublicComment;
+  replies: CommentNode[];
+}
+
+export function getMaxCommentDepth(): number {
+  const configured = Number(process.env.COMMENT_MAX_DEPTH);
+  return Number.isInteger(configured) && configured >= 0 ? configured : DEFAULT_MAX_DEPTH;
+}
+
+/**
+ * Where a reply to `parent` actually goes, given the depth cap
+ */
+export function resolveReplyPlacement(
+  parent: Comment,
+  maxDepth: number = getMaxCommentDepth()
+): Pick<Comment, 'parentId' | 'depth'> {
+  if (parent.depth >= maxDepth) {
+    return { parentId: parent.parentId, depth: parent.depth };
+  }
+  return { parentId: parent.id, depth: parent.depth + 1 };
+}
+
+/**
+ * Nests comments under their parents and sorts every level. Deleted
+ * comments stay as tombstones only while they still have visible replies.
+ */
+export function buildCommentTree(
+  comments: Comment[],
+  sort: CommentSort = 'oldest',
+  viewerId?: string
+): CommentNode[] {
+  const children = new Map<string | undefined, Comment[]>();
+  const ids = new Set(comments.map(comment => comment.id));
+
+  for (const comment of comments) {
+    // Replies whose parent is not visible are shown at the top level
+    const parentId = comment.parentId && ids.has(comment.parentId) ? comment.parentId : undefined;
+    const siblings = children.get(parentId) || [];
+    siblings.push(comment);
+    children.set(parentId, siblings);
+  }
+
+  const build = (parentId: string | undefined): CommentNode[] =>
+    sortComments(children.get(parentId) || [], sort)
+      .map(comment => ({ comment: toPublicComment(comment, viewerId), replies: build(comment.id) }))
+      .filter(node => !node.comment.deleted || node.replies.length > 0);
+
+  return build(undefined);
+}
+
+export function sortComments(comments: Comment[], sort: CommentSort): Comment[] {
+  const byDate = (a: Comment, b: Comment) => a.createdAt.getTime() - b.createdAt.getTime();
+
+  switch (sort) {
+    case 'newest':
+      return [...comments].sort((a, b) => byDate(b, a));
+    case 'top':
+      return [...comments].sort((a, b) => countReactions(b) - countReactions(a) || byDate(a, b));
+    default:
+      return [...comments].sort(byDate);
+  }
+}
+
+function countReactions(comment: Comment): number {
+  if (comment.deletedAt) return 0;
+  return Object.values(comment.reactions).reduce((total, users) => total + (users?.length || 0), 0);
+}
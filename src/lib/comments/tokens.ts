@@ -0,0 +1,30 @@
+/**
+ * Comment Tokens
+ *
+ * Proof of authorship, handed to the commenter once when a comment is
+ * created: an HMAC-SHA256 of the comment id keyed with COMMENT_SECRET.
+ * Sending it back as x-comment-token lets the commenter delete the
+ * comment. Without COMMENT_SECRET no tokens are issued and only admins
+ * can delete.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+function sign(commentId: string, secret: string): string {
+  return createHmac('sha256', secret).update(`comment.${commentId}`).digest('base64url');
+}
+
+export function createCommentToken(commentId: string): string | undefined {
+  const secret = process.env.COMMENT_SECRET;
+  return secret ? sign(commentId, secret) : undefined;
+}
+
+export function verifyCommentToken(commentId: string, token: string | undefined): boolean {
+  const secret = process.env.COMMENT_SECRET;
+  if (!secret || !token) return false;
+
+  const expected = Buffer.from(sign(commentId, secret));
+  const actual = Buffer.from(token);
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
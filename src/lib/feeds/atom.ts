@@ -0,0 +1,39 @@
+/**
+ * Atom 1.0
+ *
+ * https://www.rfc-editor.org/rfc/rfc4287
+ */
+
+import type { FeedItem, FeedMeta } from './feed';
+import { escapeXml } from './xml';
+
+export function renderAtom(meta: FeedMeta, items: FeedItem[]): string {
+  const entries = items.map(item => [
+    '  <entry>',
+    `    <id>${escapeXml(item.id)}</id>`,
+    `    <title>${escapeXml(item.title)}</title>`,
+    `    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}"/>`,
+    `    <published>${item.published.toISOString()}</published>`,
+    `    <updated>${item.updated.toISOString()}</updated>`,
+    `    <author><name>${escapeXml(item.author)}</name></author>`,
+    ...item.tags.map(tag => `    <category term="${escapeXml(tag)}"/>`),
+    `    <summary>${escapeXml(item.summary)}</summary>`,
+    `    <content type="html">${escapeXml(item.contentHtml)}</content>`,
+    '  </entry>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${escapeXml(meta.language)}">`,
+    `  <id>${escapeXml(meta.feedUrl)}</id>`,
+    `  <title>${escapeXml(meta.title)}</title>`,
+    `  <subtitle>${escapeXml(meta.description)}</subtitle>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(meta.feedUrl)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(meta.homeUrl)}"/>`,
+    `  <updated>${meta.updated.toISOString()}</updated>`,
+    `  <author><name>${escapeXml(meta.author)}</name></author>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
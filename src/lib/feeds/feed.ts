@@ -0,0 +1,104 @@
+/**
+ * Feed Model
+ *
+ * Format-neutral feed data built from public posts. The RSS, Atom and
+ * JSON Feed renderers all take the same FeedMeta and FeedItem[].
+ */
+
+import type { BlogPost } from '@/types';
+import { getEffectivePublishDate } from '@/lib/posts/lifecycle';
+import { renderMarkdown } from '@/lib/posts/markdown';
+import { getCanonicalPostPath } from '@/lib/posts/translations';
+import { DEFAULT_LOCALE, getSiteUrl, SITE_AUTHOR, SITE_DESCRIPTION, SITE_TITLE } from '@/lib/site';
+
+export const FEED_ITEM_LIMIT = 20;
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export const FEED_PATHS: Record<FeedFormat, string> = {
+  rss: '/feed.xml',
+  atom: '/atom.xml',
+  json: '/feed.json',
+};
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+};
+
+export interface FeedMeta {
+  title: string;
+  description: string;
+  /**
+   * Absolute URL of the HTML page the feed mirrors
+   */
+  homeUrl: string;
+  /**
+   * Absolute URL of the feed itself
+   */
+  feedUrl: string;
+  author: string;
+  /**
+   * Locale the items are written in
+   */
+  language: string;
+  /**
+   * Latest item date (now when the feed is empty)
+   */
+  updated: Date;
+}
+
+export interface FeedItem {
+  id: string;
+  url: string;
+  title: string;
+  summary: string;
+  contentHtml: string;
+  author: string;
+  tags: string[];
+  published: Date;
+  updated: Date;
+}
+
+export async function buildFeedItems(posts: BlogPost[], siteUrl: string = getSiteUrl()): Promise<FeedItem[]> {
+  return Promise.all(
+    posts.slice(0, FEED_ITEM_LIMIT).map(async (post) => {
+      const published = getEffectivePublishDate(post);
+      const url = `${siteUrl}${getCanonicalPostPath(post)}`;
+
+      return {
+        id: url,
+        url,
+        title: post.title,
+        summary: post.excerpt,
+        contentHtml: await renderMarkdown(post.content),
+        author: post.author,
+        tags: post.tags,
+        published,
+        updated: post.updatedAt > published ? post.updatedAt : published,
+      };
+    })
+  );
+}
+
+export function buildFeedMeta(
+  options: { title?: string; description?: string; homePath?: string; feedPath: string; language?: string },
+  items: FeedItem[],
+  siteUrl: string = getSiteUrl()
+): FeedMeta {
+  const updated = items.reduce<Date | undefined>(
+    (latest, item) => (!latest || item.updated > latest ? item.updated : latest),
+    undefined
+  );
+
+  return {
+    title: options.title || SITE_TITLE,
+    description: options.description || SITE_DESCRIPTION,
+    homeUrl: `${siteUrl}${options.homePath || '/blog'}`,
+    feedUrl: `${siteUrl}${options.feedPath}`,
+    author: SITE_AUTHOR,
+    language: options.language || DEFAULT_LOCALE,
+    updated: updated || new Date(),
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * Feeds Module
+ *
+ * RSS 2.0, Atom and JSON Feed 1.1 for the whole blog and per tag,
+ * served by the /feed.xml, /atom.xml, /feed.json and
+ * /blog/tag/[tag]/feed.xml route handlers.
+ */
+
+import { filterByTagSlug, getTagTerms, getTagUrl, listPublicPostsInLocale } from '@/lib/posts';
+import {
+  FEED_CONTENT_TYPES,
+  FEED_PATHS,
+  buildFeedItems,
+  buildFeedMeta,
+  type FeedFormat,
+} from './feed';
+import { SITE_TITLE } from '@/lib/site';
+import { renderRss } from './rss';
+import { renderAtom } from './atom';
+import { renderJsonFeed } from './json-feed';
+
+export * from './feed';
+export * from './xml';
+export * from './rss';
+export * from './atom';
+export * from './json-feed';
+
+export function getTagFeedPath(tag: string): string {
+  return `${getTagUrl(tag)}/feed.xml`;
+}
+
+/**
+ * Site-wide feed as an HTTP response
+ */
+export async function createSiteFeedResponse(format: FeedFormat): Promise<Response> {
+  const items = await buildFeedItems(await listPublicPostsInLocale());
+  const meta = buildFeedMeta({ feedPath: FEED_PATHS[format] }, items);
+
+  const body =
+    format === 'rss'
+      ? renderRss(meta, items)
+      : format === 'atom'
+        ? renderAtom(meta, items)
+        : JSON.stringify(renderJsonFeed(meta, items));
+
+  return new Response(body, {
+    headers: { 'Content-Type': FEED_CONTENT_TYPES[format] },
+  });
+}
+
+/**
+ * RSS feed for one tag; undefined for unknown tags
+ */
+export async function createTagFeedResponse(tagSlug: string): Promise<Response | undefined> {
+  const posts = await listPublicPostsInLocale();
+  const term = getTagTerms(posts).find(t => t.slug === tagSlug);
+  if (!term) return undefined;
+
+  const items = await buildFeedItems(filterByTagSlug(posts, tagSlug));
+  const meta = buildFeedMeta(
+    {
+      title: `${SITE_TITLE}: #${term.name}`,
+      description: `Posts tagged ${term.name}`,
+      homePath: getTagUrl(term.name),
+      feedPath: getTagFeedPath(term.name),
+    },
+    items
+  );
+
+  return new Response(renderRss(meta, items), {
+    headers: { 'Content-Type': FEED_CONTENT_TYPES.rss },
+  });
+}
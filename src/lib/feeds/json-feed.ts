@@ -0,0 +1,51 @@
+/**
+ * JSON Feed 1.1
+ *
+ * https://www.jsonfeed.org/version/1.1/
+ */
+
+import type { FeedItem, FeedMeta } from './feed';
+
+export interface JsonFeed {
+  version: 'https://jsonfeed.org/version/1.1';
+  title: string;
+  home_page_url: string;
+  feed_url: string;
+  description: string;
+  language: string;
+  authors: Array<{ name: string }>;
+  items: Array<{
+    id: string;
+    url: string;
+    title: string;
+    summary: string;
+    content_html: string;
+    date_published: string;
+    date_modified: string;
+    authors: Array<{ name: string }>;
+    tags: string[];
+  }>;
+}
+
+export function renderJsonFeed(meta: FeedMeta, items: FeedItem[]): JsonFeed {
+  return {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: meta.title,
+    home_page_url: meta.homeUrl,
+    feed_url: meta.feedUrl,
+    description: meta.description,
+    language: meta.language,
+    authors: [{ name: meta.author }],
+    items: items.map(item => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      summary: item.summary,
+      content_html: item.contentHtml,
+      date_published: item.published.toISOString(),
+      date_modified: item.updated.toISOString(),
+      authors: [{ name: item.author }],
+      tags: item.tags,
+    })),
+  };
+}
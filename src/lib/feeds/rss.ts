@@ -0,0 +1,40 @@
+/**
+ * RSS 2.0
+ *
+ * https://www.rssboard.org/rss-specification. Full content goes in
+ * content:encoded; description carries the excerpt.
+ */
+
+import type { FeedItem, FeedMeta } from './feed';
+import { cdata, escapeXml } from './xml';
+
+export function renderRss(meta: FeedMeta, items: FeedItem[]): string {
+  const entries = items.map(item => [
+    '    <item>',
+    `      <title>${escapeXml(item.title)}</title>`,
+    `      <link>${escapeXml(item.url)}</link>`,
+    `      <guid isPermaLink="true">${escapeXml(item.id)}</guid>`,
+    `      <pubDate>${item.published.toUTCString()}</pubDate>`,
+    `      <dc:creator>${escapeXml(item.author)}</dc:creator>`,
+    ...item.tags.map(tag => `      <category>${escapeXml(tag)}</category>`),
+    `      <description>${escapeXml(item.summary)}</description>`,
+    `      <content:encoded>${cdata(item.contentHtml)}</content:encoded>`,
+    '    </item>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '  <channel>',
+    `    <title>${escapeXml(meta.title)}</title>`,
+    `    <link>${escapeXml(meta.homeUrl)}</link>`,
+    `    <description>${escapeXml(meta.description)}</description>`,
+    `    <language>${escapeXml(meta.language)}</language>`,
+    `    <lastBuildDate>${meta.updated.toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(meta.feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    ...entries,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
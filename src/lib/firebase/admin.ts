@@ -0,0 +1,45 @@
+/**
+ * Firebase Admin
+ *
+ * Lazily initializes the server-side Firebase Admin SDK from
+ * FIREBASE_SERVICE_ACCOUNT_KEY so modules can import it without
+ * requiring credentials until Firestore is actually used.
+ */
+
+import { cert, getApps, initializeApp, type App } from 'firebase-admin/app';
+import { getFirestore, type Firestore } from 'firebase-admin/firestore';
+
+let app: App | null = null;
+
+export function getAdminApp(): App {
+  if (app) return app;
+
+  const existing = getApps();
+  if (existing.length > 0) {
+    app = existing[0];
+    return app;
+  }
+
+  const serviceAccountKey = process.env.FIREBASE_SERVICE_ACCOUNT_KEY;
+  if (!serviceAccountKey) {
+    throw new Error('Missing FIREBASE_SERVICE_ACCOUNT_KEY environment variable');
+  }
+
+  let serviceAccount: Record<string, string>;
+  try {
+    serviceAccount = JSON.parse(serviceAccountKey);
+  } catch {
+    throw new Error('FIREBASE_SERVICE_ACCOUNT_KEY must be valid JSON');
+  }
+
+  app = initializeApp({
+    credential: cert(serviceAccount),
+    projectId: serviceAccount.project_id,
+  });
+
+  return app;
+}
+
+export function getAdminFirestore(): Firestore {
+  return getFirestore(getAdminApp());
+}
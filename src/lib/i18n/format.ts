@@ -0,0 +1,52 @@
+/**
+ * Locale Formatting
+ *
+ * Language names and dates in the reader's language. Unknown locales fall
+ * back to DEFAULT_LOCALE.
+ */
+
+import { DEFAULT_LOCALE } from '@/lib/site';
+
+/**
+ * Language names in their own language, for the language switcher
+ */
+export const LOCALE_NAMES: Record<string, string> = {
+  en: 'English',
+  es: 'Español',
+  pt: 'Português',
+  fr: 'Français',
+  de: 'Deutsch',
+  it: 'Italiano',
+};
+
+/**
+ * Intl locale used for dates in each site language
+ */
+const DATE_LOCALES: Record<string, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+};
+
+/**
+ * "es-AR" -> "es"
+ */
+export function getLanguage(locale: string): string {
+  return locale.split('-')[0].toLowerCase();
+}
+
+export function getLocaleName(locale: string): string {
+  return LOCALE_NAMES[locale] || LOCALE_NAMES[getLanguage(locale)] || locale;
+}
+
+/**
+ * "January 15, 2024" / "15 de enero de 2024"
+ */
+export function formatPostDate(date: Date, locale: string = DEFAULT_LOCALE): string {
+  const intlLocale = DATE_LOCALES[locale] || DATE_LOCALES[getLanguage(locale)] || DATE_LOCALES[DEFAULT_LOCALE];
+
+  return new Date(date).toLocaleDateString(intlLocale, {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+}
@@ -0,0 +1,8 @@
+/**
+ * I18n Module
+ *
+ * Locale names, date formatting and UI strings for /[locale] pages
+ */
+
+export * from './format';
+export * from './messages';
@@ -0,0 +1,45 @@
+/**
+ * UI Messages
+ *
+ * Interface strings for the localized blog pages. Post content is
+ * translated separately (see translate_content); these only cover the
+ * chrome around it.
+ */
+
+import { DEFAULT_LOCALE } from '@/lib/site';
+import { getLanguage } from './format';
+
+export interface Messages {
+  blogTitle: string;
+  blogDescription: string;
+  backToBlog: string;
+  minRead: string;
+  relatedPosts: string;
+  languageSwitcher: string;
+  translationUnavailable: string;
+}
+
+const MESSAGES: Record<string, Messages> = {
+  en: {
+    blogTitle: 'Blog',
+    blogDescription: 'Thoughts on software development, AI, and modern web technologies.',
+    backToBlog: 'Back to Blog',
+    minRead: 'min read',
+    relatedPosts: 'Related posts',
+    languageSwitcher: 'Read in',
+    translationUnavailable: 'Translation not available yet',
+  },
+  es: {
+    blogTitle: 'Blog',
+    blogDescription: 'Notas sobre desarrollo de software, IA y tecnologías web modernas.',
+    backToBlog: 'Volver al blog',
+    minRead: 'min de lectura',
+    relatedPosts: 'Artículos relacionados',
+    languageSwitcher: 'Leer en',
+    translationUnavailable: 'Traducción aún no disponible',
+  },
+};
+
+export function getMessages(locale: string = DEFAULT_LOCALE): Messages {
+  return MESSAGES[locale] || MESSAGES[getLanguage(locale)] || MESSAGES[DEFAULT_LOCALE];
+}
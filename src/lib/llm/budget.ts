@@ -0,0 +1,386 @@
+/**
+ * Budget Ledger
+ *
+ * Caps LLM spending per request, per user per day and for the whole app
+ * per day. Every call reserves its worst-case cost (estimateRequest)
+ * before it is sent and settles the cost the provider reports afterwards,
+ * so concurrent calls cannot overshoot a cap between them. A call that
+ * fails or is aborted still settles its prompt and whatever it streamed,
+ * since the provider bills those. Kept in
+ * memory like the metrics: a restart starts the day over. Per-request
+ * accounts are only needed while a request runs, so at most `maxRequests`
+ * are kept and the least recently used one is dropped to make room.
+ *
+ * Limits come from LLM_BUDGET_REQUEST_USD, LLM_BUDGET_USER_DAILY_USD and
+ * LLM_BUDGET_DAILY_USD.
+ */
+
+import { calculateCost, estimateCost, estimateRequest, estimateTokens } from './models';
+import type {
+  LLMChatRequest,
+  LLMChatResult,
+  LLMEmbeddingResult,
+  LLMJSONResult,
+  LLMModerationResult,
+  LLMProvider,
+  LLMProviderKind,
+  LLMUsage,
+} from './types';
+
+export interface BudgetLimits {
+  perRequestUSD: number;
+  perUserDailyUSD: number;
+  dailyUSD: number;
+}
+
+export const DEFAULT_BUDGET_LIMITS: BudgetLimits = {
+  perRequestUSD: 1,
+  perUserDailyUSD: 5,
+  dailyUSD: 50,
+};
+
+export function getBudgetLimits(): BudgetLimits {
+  const read = (name: string, fallback: number) => {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+
+  return {
+    perRequestUSD: read('LLM_BUDGET_REQUEST_USD', DEFAULT_BUDGET_LIMITS.perRequestUSD),
+    perUserDailyUSD: read('LLM_BUDGET_USER_DAILY_USD', DEFAULT_BUDGET_LIMITS.perUserDailyUSD),
+    dailyUSD: read('LLM_BUDGET_DAILY_USD', DEFAULT_BUDGET_LIMITS.dailyUSD),
+  };
+}
+
+export interface BudgetScope {
+  /**
+   * Calls with the same id share the per-request cap (the trace id)
+   */
+  requestId: string;
+  /**
+   * Verified client identity (lib/auth/client), never a header the
+   * client picks freely
+   */
+  userId?: string;
+  /**
+   * Per-request cap for this request, e.g. a plan's budget
+   */
+  limitUSD?: number;
+}
+
+export const BUDGET_ERROR_CODES = [
+  'REQUEST_BUDGET_EXCEEDED',
+  'USER_BUDGET_EXCEEDED',
+  'DAILY_BUDGET_EXCEEDED',
+] as const;
+
+export type BudgetErrorCode = (typeof BUDGET_ERROR_CODES)[number];
+
+export class BudgetExceededError extends Error {
+  constructor(
+    public code: BudgetErrorCode,
+    message: string,
+    public details: { limitUSD: number; spentUSD: number; estimatedUSD: number }
+  ) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Whether an error (or an error entry with a code) is a budget rejection,
+ * however many layers have wrapped it
+ */
+export function isBudgetError(error: unknown): error is { code: BudgetErrorCode; message?: string } {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && (BUDGET_ERROR_CODES as readonly string[]).includes(code);
+}
+
+interface Account {
+  spentUSD: number;
+  reservedUSD: number;
+}
+
+interface BudgetCap {
+  key: string;
+  limitUSD: number;
+  code: BudgetErrorCode;
+  label: string;
+}
+
+export interface BudgetReservation {
+  scope: BudgetScope;
+  amountUSD: number;
+  day: string;
+}
+
+export interface BudgetSpend {
+  /**
+   * UTC day the totals belong to
+   */
+  date: string;
+  spentUSD: number;
+  reservedUSD: number;
+  remainingUSD: number;
+  users: number;
+  /**
+   * Requests with a call in flight
+   */
+  requests: number;
+  limits: BudgetLimits;
+}
+
+export class BudgetLedger {
+  private day = currentDay();
+  private accounts = new Map<string, Account>();
+  private requests = new Map<string, Account>();
+
+  constructor(
+    readonly limits: BudgetLimits = getBudgetLimits(),
+    private readonly maxRequests = 10_000
+  ) {}
+
+  /**
+   * Holds `amountUSD` against every cap that applies, or throws without
+   * holding anything
+   */
+  reserve(scope: BudgetScope, amountUSD: number): BudgetReservation {
+    this.rollOver();
+
+    const caps = this.capsFor(scope);
+
+    for (const { key, limitUSD, code, label } of caps) {
+      const account = this.getAccount(key);
+      const committedUSD = account.spentUSD + account.reservedUSD;
+
+      if (committedUSD + amountUSD > limitUSD) {
+        throw new BudgetExceededError(
+          code,
+          `${label} budget of $${limitUSD.toFixed(2)} exceeded: $${committedUSD.toFixed(4)} used, ` +
+            `this call may cost up to $${amountUSD.toFixed(4)}`,
+          { limitUSD, spentUSD: committedUSD, estimatedUSD: amountUSD }
+        );
+      }
+    }
+
+    for (const { key } of caps) {
+      this.getAccount(key).reservedUSD += amountUSD;
+    }
+
+    return { scope, amountUSD, day: this.day };
+  }
+
+  /**
+   * Replaces a reservation with what the call actually cost
+   */
+  settle(reservation: BudgetReservation, actualUSD: number): void {
+    this.rollOver();
+
+    for (const { key } of this.capsFor(reservation.scope)) {
+      const account = this.getAccount(key);
+      // Reservations from before midnight were dropped with their day
+      if (reservation.day === this.day) {
+        account.reservedUSD = Math.max(0, account.reservedUSD - reservation.amountUSD);
+      }
+      account.spentUSD += actualUSD;
+    }
+  }
+
+  getSpend(): BudgetSpend {
+    this.rollOver();
+
+    const day = this.getAccount('day');
+    const keys = Array.from(this.accounts.keys());
+    const requests = Array.from(this.requests.values());
+
+    return {
+      date: this.day,
+      spentUSD: Number(day.spentUSD.toFixed(6)),
+      reservedUSD: Number(day.reservedUSD.toFixed(6)),
+      remainingUSD: Number(Math.max(0, this.limits.dailyUSD - day.spentUSD - day.reservedUSD).toFixed(6)),
+      users: keys.filter(key => key.startsWith('user:')).length,
+      requests: requests.filter(account => account.reservedUSD > 0).length,
+      limits: this.limits,
+    };
+  }
+
+  getUserSpend(userId: string): number {
+    this.rollOver();
+    return this.accounts.get(`user:${userId}`)?.spentUSD || 0;
+  }
+
+  private capsFor(scope: BudgetScope): BudgetCap[] {
+    const caps: BudgetCap[] = [
+      {
+        key: `request:${scope.requestId}`,
+        limitUSD: scope.limitUSD ?? this.limits.perRequestUSD,
+        code: 'REQUEST_BUDGET_EXCEEDED',
+        label: 'Request',
+      },
+    ];
+
+    if (scope.userId) {
+      caps.push({
+        key: `user:${scope.userId}`,
+        limitUSD: this.limits.perUserDailyUSD,
+        code: 'USER_BUDGET_EXCEEDED',
+        label: 'Daily user',
+      });
+    }
+
+    caps.push({ key: 'day', limitUSD: this.limits.dailyUSD, code: 'DAILY_BUDGET_EXCEEDED', label: 'Daily' });
+    return caps;
+  }
+
+  private getAccount(key: string): Account {
+    if (key.startsWith('request:')) {
+      return this.getRequestAccount(key);
+    }
+
+    let account = this.accounts.get(key);
+    if (!account) {
+      account = { spentUSD: 0, reservedUSD: 0 };
+      this.accounts.set(key, account);
+    }
+    return account;
+  }
+
+  private getRequestAccount(key: string): Account {
+    const account = this.requests.get(key) || { spentUSD: 0, reservedUSD: 0 };
+
+    // Re-inserting moves the key to the most recently used end
+    this.requests.delete(key);
+    this.requests.set(key, account);
+
+    if (this.requests.size > this.maxRequests) {
+      const oldest = this.requests.keys().next().value as string;
+      this.requests.delete(oldest);
+    }
+    return account;
+  }
+
+  private rollOver(): void {
+    const today = currentDay();
+    if (today !== this.day) {
+      this.day = today;
+      this.accounts.clear();
+      this.requests.clear();
+    }
+  }
+}
+
+function currentDay(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Estimated usage of a call that failed or was aborted, which its caller
+ * never gets a result for
+ */
+export type PartialUsageListener = (model: string, usage: LLMUsage) => void;
+
+/**
+ * Provider that charges every call to a budget scope
+ */
+export class BudgetedLLMProvider implements LLMProvider {
+  constructor(
+    private inner: LLMProvider,
+    private ledger: BudgetLedger,
+    private scope: BudgetScope,
+    private onPartialUsage?: PartialUsageListener
+  ) {}
+
+  get id(): LLMProviderKind {
+    return this.inner.id;
+  }
+
+  async complete(request: LLMChatRequest): Promise<LLMChatResult> {
+    const estimate = estimateRequest(request);
+    let streamed = '';
+    const onToken = request.onToken && ((token: string) => {
+      streamed += token;
+      request.onToken!(token);
+    });
+
+    return this.charge(estimate.maxCostUSD, () => this.inner.complete({ ...request, onToken }), {
+      model: request.model,
+      usage: () => toUsage(estimate.promptTokens, estimateTokens(streamed)),
+    });
+  }
+
+  async completeJSON<T = any>(request: LLMChatRequest): Promise<LLMJSONResult<T>> {
+    const estimate = estimateRequest(request);
+
+    return this.charge(estimate.maxCostUSD, () => this.inner.completeJSON<T>(request), {
+      model: request.model,
+      usage: () => toUsage(estimate.promptTokens, 0),
+    });
+  }
+
+  /**
+   * Free on OpenAI and reports no usage, so it is never charged
+   */
+  async moderate(input: string): Promise<LLMModerationResult> {
+    return this.inner.moderate(input);
+  }
+
+  /**
+   * Cheap enough not to reserve; settled at the reported usage, and not
+   * at all if it fails
+   */
+  async embed(input: string[]): Promise<LLMEmbeddingResult> {
+    return this.charge(0, () => this.inner.embed(input));
+  }
+
+  /**
+   * @param failed - The requested model and what it bills when the call
+   *   fails or is aborted part-way
+   */
+  private async charge<T extends { model: string; usage?: LLMUsage }>(
+    estimatedUSD: number,
+    call: () => Promise<T>,
+    failed?: { model: string; usage: () => LLMUsage }
+  ): Promise<T> {
+    const reservation = this.ledger.reserve(this.scope, estimatedUSD);
+    let actualUSD = 0;
+
+    try {
+      const result = await call();
+      // Without reported usage, the estimate is the best we know
+      actualUSD = result.usage ? calculateCost(result.usage, result.model) : estimatedUSD;
+      return result;
+    } catch (error) {
+      if (failed) {
+        const usage = failed.usage();
+        actualUSD = estimateCost(usage, failed.model);
+        this.onPartialUsage?.(failed.model, usage);
+      }
+      throw error;
+    } finally {
+      this.ledger.settle(reservation, actualUSD);
+    }
+  }
+}
+
+function toUsage(promptTokens: number, completionTokens: number): LLMUsage {
+  return { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens };
+}
+
+let budgetLedger: BudgetLedger | null = null;
+
+/**
+ * Shared ledger used by skills and reported by /api/ai/health
+ */
+export function getBudgetLedger(): BudgetLedger {
+  if (!budgetLedger) {
+    budgetLedger = new BudgetLedger();
+  }
+  return budgetLedger;
+}
+
+/**
+ * Replace the shared ledger (tests); null starts a fresh one from config
+ */
+export function setBudgetLedger(ledger: BudgetLedger | null): void {
+  budgetLedger = ledger;
+}
@@ -0,0 +1,127 @@
+/**
+ * Fake LLM Provider
+ *
+ * Deterministic and offline: the same request always gets the same reply,
+ * and no network is touched. Used in tests, CI and local development
+ * without an API key. By default:
+ * - complete: a fixed sentence naming the requested model
+ * - completeJSON: echoes the last user message when it is a JSON object
+ *   (so translation returns the source), `{}` otherwise
+ * - moderate: nothing flagged
+ * - embed: hashed bag-of-words vectors, so similar texts stay close
+ */
+
+import { estimateChatTokens, estimateTokens } from './models';
+import {
+  MODERATION_CATEGORIES,
+  parseJSONContent,
+  type LLMChatRequest,
+  type LLMChatResult,
+  type LLMEmbeddingResult,
+  type LLMJSONResult,
+  type LLMModerationResult,
+  type LLMProvider,
+  type LLMUsage,
+} from './types';
+
+export const FAKE_EMBEDDING_DIMENSIONS = 64;
+
+export interface FakeLLMOptions {
+  /**
+   * Replaces the default replies; objects are serialized as JSON
+   */
+  respond?: (request: LLMChatRequest, json: boolean) => string | object | Promise<string | object>;
+}
+
+export class FakeLLMProvider implements LLMProvider {
+  readonly id = 'fake' as const;
+
+  constructor(private options: FakeLLMOptions = {}) {}
+
+  async complete(request: LLMChatRequest): Promise<LLMChatResult> {
+    const content = await this.reply(request, false);
+
+    // Stream word by word so callers see several tokens
+    for (const token of content.split(/(?= )/)) {
+      if (request.signal?.aborted) {
+        throw new Error('Request aborted');
+      }
+      if (token) request.onToken?.(token);
+    }
+
+    return { content, model: request.model, usage: estimateUsage(request, content) };
+  }
+
+  async completeJSON<T = any>(request: LLMChatRequest): Promise<LLMJSONResult<T>> {
+    const content = await this.reply(request, true);
+    return {
+      content,
+      model: request.model,
+      usage: estimateUsage(request, content),
+      data: parseJSONContent<T>(content),
+    };
+  }
+
+  async moderate(): Promise<LLMModerationResult> {
+    const categories: Record<string, boolean> = {};
+    const categoryScores: Record<string, number> = {};
+
+    for (const category of MODERATION_CATEGORIES) {
+      categories[category] = false;
+      categoryScores[category] = 0;
+    }
+
+    return { flagged: false, categories, categoryScores };
+  }
+
+  async embed(input: string[]): Promise<LLMEmbeddingResult> {
+    return {
+      embeddings: input.map(embedText),
+      model: 'fake-embedding',
+    };
+  }
+
+  private async reply(request: LLMChatRequest, json: boolean): Promise<string> {
+    if (this.options.respond) {
+      const reply = await this.options.respond(request, json);
+      return typeof reply === 'string' ? reply : JSON.stringify(reply);
+    }
+
+    if (json) {
+      const last = [...request.messages].reverse().find(message => message.role === 'user');
+      try {
+        const parsed = JSON.parse(last?.content || '');
+        return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? JSON.stringify(parsed) : '{}';
+      } catch {
+        return '{}';
+      }
+    }
+
+    return `This is an offline reply from the fake LLM provider standing in for ${request.model}.`;
+  }
+}
+
+/**
+ * Usage as the model catalog estimates it
+ */
+function estimateUsage(request: LLMChatRequest, content: string): LLMUsage {
+  const prompt_tokens = estimateChatTokens(request.messages);
+  const completion_tokens = estimateTokens(content);
+
+  return { prompt_tokens, completion_tokens, total_tokens: prompt_tokens + completion_tokens };
+}
+
+function embedText(text: string): number[] {
+  const vector = new Array<number>(FAKE_EMBEDDING_DIMENSIONS).fill(0);
+
+  for (const word of text.toLowerCase().split(/\W+/).filter(Boolean)) {
+    let hash = 0;
+    for (let i = 0; i < word.length; i++) {
+      hash = (hash * 31 + word.charCodeAt(i)) >>> 0;
+    }
+    vector[hash % FAKE_EMBEDDING_DIMENSIONS] += 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map(value => value / norm);
+}
@@ -0,0 +1,77 @@
+/**
+ * LLM Module
+ *
+ * Every model call goes through the shared provider, selected with
+ * LLM_PROVIDER ('openai' | 'ollama' | 'fake'). Without LLM_PROVIDER the
+ * app uses OpenAI when OPENAI_API_KEY is set and, outside production, the
+ * offline fake otherwise, so it boots in dev, CI and offline. Production
+ * never falls back to the fake: its moderation approves everything.
+ */
+
+import { logger } from '@/lib/utils/logger';
+import { createOllamaProvider, createOpenAIProvider } from './openai';
+import { FakeLLMProvider } from './fake';
+import { LLMProviderError, type LLMProvider, type LLMProviderKind } from './types';
+
+export * from './types';
+export * from './models';
+export * from './budget';
+export * from './openai';
+export * from './fake';
+
+let llmProvider: LLMProvider | null = null;
+
+function getDefaultKind(): LLMProviderKind {
+  if (process.env.LLM_PROVIDER) {
+    return process.env.LLM_PROVIDER as LLMProviderKind;
+  }
+
+  if (process.env.OPENAI_API_KEY) {
+    return 'openai';
+  }
+
+  // Fail closed: callers such as comment moderation keep content pending
+  if (process.env.NODE_ENV === 'production') {
+    throw new LLMProviderError(
+      'NOT_CONFIGURED',
+      'No LLM provider configured: set OPENAI_API_KEY, or LLM_PROVIDER explicitly'
+    );
+  }
+
+  logger.warn('OPENAI_API_KEY not set, using the offline fake LLM provider', {
+    service: 'system',
+    operation: 'llm_provider',
+    timestamp: new Date(),
+  });
+  return 'fake';
+}
+
+export function createLLMProvider(kind: LLMProviderKind = getDefaultKind()): LLMProvider {
+  switch (kind) {
+    case 'openai':
+      return createOpenAIProvider();
+    case 'ollama':
+      return createOllamaProvider();
+    case 'fake':
+      return new FakeLLMProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${kind}. Must be one of: openai, ollama, fake`);
+  }
+}
+
+/**
+ * Shared provider used by skills and API routes
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!llmProvider) {
+    llmProvider = createLLMProvider();
+  }
+  return llmProvider;
+}
+
+/**
+ * Replace the shared provider (tests and scripts); null goes back to config
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  llmProvider = provider;
+}
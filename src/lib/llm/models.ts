@@ -0,0 +1,209 @@
+/**
+ * Model Catalog
+ *
+ * The one place that knows what each model costs and can hold: pricing,
+ * context window, output limit and JSON-mode support. Lookups accept
+ * dated snapshots and local tags ('gpt-4o-mini-2024-07-18',
+ * 'llama3.1:8b'), since providers report the model that actually answered.
+ *
+ * Token counts here are estimates for pre-flight checks; billing always
+ * uses the usage the provider reports. A model missing from the catalog
+ * is priced as the costliest one it has, both when estimating and when
+ * settling, so a budget cannot be slipped past with an unknown model name.
+ * Local models are free only when listed.
+ */
+
+import { Tiktoken } from 'js-tiktoken/lite';
+import o200kBase from 'js-tiktoken/ranks/o200k_base';
+import { logger } from '@/lib/utils/logger';
+import type { LLMChatRequest, LLMMessage } from './types';
+
+export interface ModelInfo {
+  id: string;
+  /**
+   * USD per 1M tokens (OpenAI list prices; local models are free)
+   */
+  pricing: { input: number; output: number };
+  contextWindow: number;
+  maxOutputTokens: number;
+  supportsJSON: boolean;
+}
+
+export const MODEL_CATALOG: Record<string, ModelInfo> = {
+  'gpt-4o': {
+    id: 'gpt-4o',
+    pricing: { input: 2.5, output: 10 },
+    contextWindow: 128_000,
+    maxOutputTokens: 16_384,
+    supportsJSON: true,
+  },
+  'gpt-4o-mini': {
+    id: 'gpt-4o-mini',
+    pricing: { input: 0.15, output: 0.6 },
+    contextWindow: 128_000,
+    maxOutputTokens: 16_384,
+    supportsJSON: true,
+  },
+  'gpt-4-turbo': {
+    id: 'gpt-4-turbo',
+    pricing: { input: 10, output: 30 },
+    contextWindow: 128_000,
+    maxOutputTokens: 4_096,
+    supportsJSON: true,
+  },
+  'gpt-4': {
+    id: 'gpt-4',
+    pricing: { input: 30, output: 60 },
+    contextWindow: 8_192,
+    maxOutputTokens: 8_192,
+    supportsJSON: false,
+  },
+  'gpt-3.5-turbo': {
+    id: 'gpt-3.5-turbo',
+    pricing: { input: 0.5, output: 1.5 },
+    contextWindow: 16_385,
+    maxOutputTokens: 4_096,
+    supportsJSON: true,
+  },
+  'text-embedding-3-small': {
+    id: 'text-embedding-3-small',
+    pricing: { input: 0.02, output: 0 },
+    contextWindow: 8_191,
+    maxOutputTokens: 0,
+    supportsJSON: false,
+  },
+  'text-moderation-stable': {
+    id: 'text-moderation-stable',
+    pricing: { input: 0, output: 0 },
+    contextWindow: 32_768,
+    maxOutputTokens: 0,
+    supportsJSON: false,
+  },
+  'llama3.1': {
+    id: 'llama3.1',
+    pricing: { input: 0, output: 0 },
+    contextWindow: 131_072,
+    maxOutputTokens: 4_096,
+    supportsJSON: true,
+  },
+  'nomic-embed-text': {
+    id: 'nomic-embed-text',
+    pricing: { input: 0, output: 0 },
+    contextWindow: 8_192,
+    maxOutputTokens: 0,
+    supportsJSON: false,
+  },
+};
+
+/**
+ * Catalog entry for a model name, matching the longest known prefix
+ */
+export function getModelInfo(model: string): ModelInfo | undefined {
+  if (MODEL_CATALOG[model]) {
+    return MODEL_CATALOG[model];
+  }
+
+  const base = Object.keys(MODEL_CATALOG)
+    .filter(id => model.startsWith(`${id}-`) || model.startsWith(`${id}:`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return base ? MODEL_CATALOG[base] : undefined;
+}
+
+/**
+ * Catalog entry with the highest output price
+ */
+export const COSTLIEST_MODEL: ModelInfo = Object.values(MODEL_CATALOG).reduce((costliest, info) =>
+  info.pricing.output > costliest.pricing.output ? info : costliest
+);
+
+const unpricedModels = new Set<string>();
+
+/**
+ * Cost in USD of reported usage. Unknown models are priced as
+ * COSTLIEST_MODEL, like their estimate, and logged once.
+ */
+export function calculateCost(usage: { prompt_tokens: number; completion_tokens: number }, model: string): number {
+  const info = getModelInfo(model);
+
+  if (!info && !unpricedModels.has(model)) {
+    unpricedModels.add(model);
+    logger.warn(`No pricing for model ${model}, recording its cost at ${COSTLIEST_MODEL.id} rates`, {
+      service: 'system',
+      operation: 'model_catalog',
+      timestamp: new Date(),
+    });
+  }
+
+  return priceUsage(usage, info ?? COSTLIEST_MODEL);
+}
+
+/**
+ * Pre-flight cost of estimated usage: unknown models are priced as
+ * COSTLIEST_MODEL
+ */
+export function estimateCost(usage: { prompt_tokens: number; completion_tokens: number }, model: string): number {
+  return priceUsage(usage, getModelInfo(model) ?? COSTLIEST_MODEL);
+}
+
+function priceUsage(usage: { prompt_tokens: number; completion_tokens: number }, info: ModelInfo): number {
+  const inputCost = (usage.prompt_tokens / 1_000_000) * info.pricing.input;
+  const outputCost = (usage.completion_tokens / 1_000_000) * info.pricing.output;
+
+  return Number((inputCost + outputCost).toFixed(6));
+}
+
+// ====================================
+// Token estimates
+// ====================================
+
+let tokenizer: Tiktoken | undefined;
+
+/**
+ * Token count under o200k_base, the BPE encoding of the gpt-4o family.
+ * Exact for those models; for older OpenAI models (cl100k_base) and local
+ * ones it is close enough to size requests.
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+
+  tokenizer ??= new Tiktoken(o200kBase);
+  return tokenizer.encode(text).length;
+}
+
+/**
+ * Prompt tokens of a chat request, including the per-message framing
+ * OpenAI adds (about 3 tokens per message and 3 to prime the reply)
+ */
+export function estimateChatTokens(messages: LLMMessage[]): number {
+  return messages.reduce((sum, message) => sum + 3 + estimateTokens(message.content), 3);
+}
+
+export interface RequestEstimate {
+  promptTokens: number;
+  /**
+   * Worst case: maxTokens, or the model's output limit
+   */
+  maxCompletionTokens: number;
+  /**
+   * Upper bound, if the reply uses every completion token
+   */
+  maxCostUSD: number;
+  fitsContext: boolean;
+}
+
+/**
+ * Pre-flight estimate of a request against the catalog
+ */
+export function estimateRequest(request: Pick<LLMChatRequest, 'model' | 'messages' | 'maxTokens'>): RequestEstimate {
+  const info = getModelInfo(request.model);
+  const promptTokens = estimateChatTokens(request.messages);
+  const maxCompletionTokens = request.maxTokens ?? (info ?? COSTLIEST_MODEL).maxOutputTokens;
+
+  return {
+    promptTokens,
+    maxCompletionTokens,
+    maxCostUSD: estimateCost({ prompt_tokens: promptTokens, completion_tokens: maxCompletionTokens }, request.model),
+    fitsContext: !info || promptTokens + maxCompletionTokens <= info.contextWindow,
+  };
+}
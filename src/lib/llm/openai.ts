@@ -0,0 +1,239 @@
+/**
+ * OpenAI-Compatible Providers
+ *
+ * One implementation for OpenAI itself and for local servers speaking
+ * the same API (Ollama's /v1, LM Studio, vLLM). The SDK client is created
+ * on first use, so a missing key fails the request, not the import.
+ */
+
+import OpenAI from 'openai';
+import { getModelInfo } from './models';
+import {
+  LLMProviderError,
+  MODERATION_CATEGORIES,
+  parseJSONContent,
+  type LLMChatRequest,
+  type LLMChatResult,
+  type LLMEmbeddingResult,
+  type LLMJSONResult,
+  type LLMModerationResult,
+  type LLMProvider,
+  type LLMProviderKind,
+  type LLMUsage,
+} from './types';
+
+export interface OpenAICompatibleOptions {
+  id: LLMProviderKind;
+  apiKey?: string;
+  baseURL?: string;
+  /**
+   * Serves every chat request whatever model it names (local servers
+   * only have the models pulled into them)
+   */
+  chatModel?: string;
+  embeddingModel: string;
+  /**
+   * Whether the server has /moderations; otherwise the chat model classifies
+   */
+  moderationEndpoint: boolean;
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id: LLMProviderKind;
+  private client: OpenAI | null = null;
+
+  constructor(private options: OpenAICompatibleOptions) {
+    this.id = options.id;
+  }
+
+  async complete(request: LLMChatRequest): Promise<LLMChatResult> {
+    return request.onToken ? this.stream(request, request.onToken) : this.create(request, false);
+  }
+
+  async completeJSON<T = any>(request: LLMChatRequest): Promise<LLMJSONResult<T>> {
+    const result = await this.create(request, true);
+    return { ...result, data: parseJSONContent<T>(result.content) };
+  }
+
+  async moderate(input: string): Promise<LLMModerationResult> {
+    if (!this.options.moderationEndpoint) {
+      return this.classify(input);
+    }
+
+    const response = await this.getClient().moderations.create({
+      input,
+      model: 'text-moderation-stable',
+    });
+    const result = response.results[0];
+
+    return {
+      flagged: result.flagged,
+      categories: Object.fromEntries(
+        Object.entries(result.categories).map(([category, flagged]) => [category, Boolean(flagged)])
+      ),
+      categoryScores: { ...result.category_scores },
+    };
+  }
+
+  async embed(input: string[]): Promise<LLMEmbeddingResult> {
+    const response = await this.getClient().embeddings.create({
+      input,
+      model: this.options.embeddingModel,
+    });
+
+    return {
+      embeddings: response.data
+        .slice()
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding),
+      model: response.model,
+      usage: response.usage && {
+        prompt_tokens: response.usage.prompt_tokens,
+        completion_tokens: 0,
+        total_tokens: response.usage.total_tokens,
+      },
+    };
+  }
+
+  // ====================================
+  // Helpers
+  // ====================================
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      if (!this.options.apiKey) {
+        throw new LLMProviderError('NOT_CONFIGURED', `No API key configured for the ${this.id} provider`);
+      }
+
+      this.client = new OpenAI({
+        apiKey: this.options.apiKey,
+        baseURL: this.options.baseURL,
+      });
+    }
+    return this.client;
+  }
+
+  private toParams(request: LLMChatRequest) {
+    return {
+      model: this.options.chatModel || request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      presence_penalty: request.presencePenalty,
+      frequency_penalty: request.frequencyPenalty,
+    };
+  }
+
+  private async create(request: LLMChatRequest, json: boolean): Promise<LLMChatResult> {
+    const params = this.toParams(request);
+    // Models without JSON mode reject response_format; the prompt asks for JSON anyway
+    const jsonMode = json && getModelInfo(params.model)?.supportsJSON !== false;
+
+    const completion = await this.getClient().chat.completions.create(
+      {
+        ...params,
+        ...(jsonMode && { response_format: { type: 'json_object' as const } }),
+      },
+      { signal: request.signal }
+    );
+
+    return {
+      content: completion.choices[0]?.message?.content || '',
+      model: completion.model,
+      usage: completion.usage && toUsage(completion.usage),
+    };
+  }
+
+  private async stream(request: LLMChatRequest, onToken: (token: string) => void): Promise<LLMChatResult> {
+    const params = this.toParams(request);
+    const stream = await this.getClient().chat.completions.create(
+      { ...params, stream: true, stream_options: { include_usage: true } },
+      { signal: request.signal }
+    );
+
+    let content = '';
+    let model = params.model;
+    let usage: LLMUsage | undefined;
+
+    for await (const chunk of stream) {
+      const token = chunk.choices[0]?.delta?.content;
+      if (token) {
+        content += token;
+        onToken(token);
+      }
+      model = chunk.model || model;
+      // Usage arrives on the last chunk, which has no choices
+      usage = chunk.usage ? toUsage(chunk.usage) : usage;
+    }
+
+    return { content, model, usage };
+  }
+
+  /**
+   * Moderation through the chat model, for servers without /moderations
+   */
+  private async classify(input: string): Promise<LLMModerationResult> {
+    const { data } = await this.completeJSON<{ scores?: Record<string, number> }>({
+      model: 'gpt-4o-mini',
+      messages: [
+        {
+          role: 'system',
+          content: [
+            'You are a content moderation classifier.',
+            `Rate how strongly the text contains each category: ${MODERATION_CATEGORIES.join(', ')}.`,
+            'Respond with JSON {"scores": {"<category>": <number from 0 to 1>}}.',
+          ].join('\n'),
+        },
+        { role: 'user', content: input },
+      ],
+      temperature: 0,
+    });
+
+    const categoryScores: Record<string, number> = {};
+    const categories: Record<string, boolean> = {};
+
+    for (const category of MODERATION_CATEGORIES) {
+      const score = Number(data.scores?.[category]) || 0;
+      categoryScores[category] = Math.min(1, Math.max(0, score));
+      categories[category] = categoryScores[category] >= 0.5;
+    }
+
+    return {
+      flagged: Object.values(categories).some(Boolean),
+      categories,
+      categoryScores,
+    };
+  }
+}
+
+function toUsage(usage: OpenAI.CompletionUsage): LLMUsage {
+  return {
+    prompt_tokens: usage.prompt_tokens,
+    completion_tokens: usage.completion_tokens,
+    total_tokens: usage.total_tokens,
+  };
+}
+
+export function createOpenAIProvider(): OpenAICompatibleProvider {
+  return new OpenAICompatibleProvider({
+    id: 'openai',
+    apiKey: process.env.OPENAI_API_KEY,
+    embeddingModel: 'text-embedding-3-small',
+    moderationEndpoint: true,
+  });
+}
+
+/**
+ * Ollama (or any OpenAI-compatible local server) at OLLAMA_BASE_URL
+ */
+export function createOllamaProvider(): OpenAICompatibleProvider {
+  return new OpenAICompatibleProvider({
+    id: 'ollama',
+    // Local servers ignore the key, but the SDK requires one
+    apiKey: process.env.OLLAMA_API_KEY || 'ollama',
+    baseURL: process.env.OLLAMA_BASE_URL || 'http://localhost:11434/v1',
+    chatModel: process.env.OLLAMA_MODEL || 'llama3.1',
+    embeddingModel: process.env.OLLAMA_EMBEDDING_MODEL || 'nomic-embed-text',
+    moderationEndpoint: false,
+  });
+}
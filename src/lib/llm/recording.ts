@@ -0,0 +1,258 @@
+/**
+ * Recorded LLM Provider
+ *
+ * Record/replay for tests. Every request is keyed by a hash of its
+ * normalized form (operation, model, messages and sampling parameters;
+ * never callbacks or signals) and looked up in a JSON fixture file under
+ * tests/fixtures/llm. Replay is the default: no network is touched and an
+ * unrecorded request fails loudly, naming its hash. Re-recording is an
+ * explicit opt-in against a real provider:
+ *
+ *   OPENAI_API_KEY=sk-... npm run test:record    # sets LLM_RECORD=1
+ *
+ * Entries marked `synthetic` were written by hand, not captured: they
+ * pin the skills' behaviour but say nothing about real response shapes
+ * (dated model names, how a provider chunks its stream). Recording
+ * replaces an entry, and with it the mark.
+ *
+ * Not exported from the barrel: it reads and writes files, so it stays out
+ * of anything the app imports.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { createLLMProvider } from './index';
+import {
+  LLMProviderError,
+  parseJSONContent,
+  type LLMChatRequest,
+  type LLMChatResult,
+  type LLMEmbeddingResult,
+  type LLMJSONResult,
+  type LLMModerationResult,
+  type LLMProvider,
+  type LLMProviderKind,
+} from './types';
+
+export const LLM_FIXTURES_DIR = path.join(process.cwd(), 'tests', 'fixtures', 'llm');
+
+type LLMOperation = 'complete' | 'completeJSON' | 'moderate' | 'embed';
+
+export interface LLMFixture {
+  /**
+   * Normalized request the key was computed from, kept for review
+   */
+  request: Record<string, unknown>;
+  response: unknown;
+  /**
+   * Hand-written stand-in rather than a captured reply
+   */
+  synthetic?: boolean;
+}
+
+/**
+ * Recorded completion; `tokens` keeps the streamed chunks so replays
+ * stream the same way
+ */
+interface RecordedChatResult extends LLMChatResult {
+  tokens?: string[];
+}
+
+export interface RecordedLLMOptions {
+  /**
+   * Fixture file name in tests/fixtures/llm (without .json), or a path
+   */
+  fixture: string;
+  /**
+   * Records instead of replaying; defaults to LLM_RECORD=1
+   */
+  record?: boolean;
+  /**
+   * Provider answering while recording; defaults to the configured one
+   */
+  inner?: LLMProvider;
+}
+
+export class RecordedLLMProvider implements LLMProvider {
+  readonly file: string;
+  readonly recording: boolean;
+  private fixtures: Record<string, LLMFixture> | null = null;
+  private inner: LLMProvider | null;
+
+  constructor(options: RecordedLLMOptions) {
+    this.file = options.fixture.endsWith('.json')
+      ? path.resolve(options.fixture)
+      : path.join(LLM_FIXTURES_DIR, `${options.fixture}.json`);
+    this.recording = options.record ?? process.env.LLM_RECORD === '1';
+    this.inner = options.inner || null;
+  }
+
+  /**
+   * Fixtures stand in for OpenAI unless they are being recorded elsewhere
+   */
+  get id(): LLMProviderKind {
+    return this.recording ? this.getInner().id : 'openai';
+  }
+
+  async complete(request: LLMChatRequest): Promise<LLMChatResult> {
+    const recorded = await this.lookup<RecordedChatResult>(
+      normalizeChatRequest('complete', request),
+      async () => {
+        const tokens: string[] = [];
+        const result = await this.getInner().complete({
+          ...request,
+          onToken: request.onToken && (token => {
+            tokens.push(token);
+            request.onToken!(token);
+          }),
+        });
+        return request.onToken ? { ...result, tokens } : result;
+      }
+    );
+
+    // While recording, the inner provider already streamed
+    if (request.onToken && !this.recording) {
+      for (const token of recorded.tokens || [recorded.content]) {
+        if (request.signal?.aborted) {
+          throw new Error('Request aborted');
+        }
+        request.onToken(token);
+      }
+    }
+
+    return withoutTokens(recorded);
+  }
+
+  async completeJSON<T = any>(request: LLMChatRequest): Promise<LLMJSONResult<T>> {
+    const recorded = await this.lookup<LLMChatResult>(
+      normalizeChatRequest('completeJSON', request),
+      async () => {
+        const { data, ...result } = await this.getInner().completeJSON(request);
+        return result;
+      }
+    );
+
+    return { ...recorded, data: parseJSONContent<T>(recorded.content) };
+  }
+
+  async moderate(input: string): Promise<LLMModerationResult> {
+    return this.lookup({ operation: 'moderate', input: normalizeText(input) }, () =>
+      this.getInner().moderate(input)
+    );
+  }
+
+  async embed(input: string[]): Promise<LLMEmbeddingResult> {
+    return this.lookup({ operation: 'embed', input: input.map(normalizeText) }, () =>
+      this.getInner().embed(input)
+    );
+  }
+
+  // ====================================
+  // Helpers
+  // ====================================
+
+  private getInner(): LLMProvider {
+    if (!this.inner) {
+      const provider = createLLMProvider();
+
+      if (provider.id === 'fake') {
+        throw new LLMProviderError(
+          'NOT_CONFIGURED',
+          'LLM_RECORD=1 needs a real provider: set OPENAI_API_KEY or LLM_PROVIDER=ollama'
+        );
+      }
+      this.inner = provider;
+    }
+    return this.inner;
+  }
+
+  private async lookup<T>(
+    request: Record<string, unknown> & { operation: LLMOperation },
+    call: () => Promise<T>
+  ): Promise<T> {
+    const key = hashRequest(request);
+    const fixtures = this.load();
+
+    if (this.recording) {
+      const response = await call();
+      fixtures[key] = { request, response };
+      this.save();
+      return response;
+    }
+
+    const fixture = fixtures[key];
+    if (!fixture) {
+      throw new LLMProviderError(
+        'UNRECORDED_REQUEST',
+        `No recorded LLM response for ${request.operation} request ${key} in ${path.relative(process.cwd(), this.file)}` +
+          `${describeRequest(request)}. Re-record with: npm run test:record`
+      );
+    }
+    return fixture.response as T;
+  }
+
+  private load(): Record<string, LLMFixture> {
+    if (!this.fixtures) {
+      this.fixtures = existsSync(this.file)
+        ? (JSON.parse(readFileSync(this.file, 'utf-8')) as Record<string, LLMFixture>)
+        : {};
+    }
+    return this.fixtures;
+  }
+
+  private save(): void {
+    const fixtures = this.load();
+    // Sorted keys keep re-recordings diffable
+    const sorted = Object.fromEntries(Object.keys(fixtures).sort().map(key => [key, fixtures[key]]));
+
+    mkdirSync(path.dirname(this.file), { recursive: true });
+    writeFileSync(this.file, `${JSON.stringify(sorted, null, 2)}\n`);
+  }
+}
+
+/**
+ * The parts of a chat request that decide the reply, in a fixed order
+ */
+function normalizeChatRequest(operation: LLMOperation, request: LLMChatRequest) {
+  return {
+    operation,
+    model: request.model,
+    messages: request.messages.map(message => ({
+      role: message.role,
+      content: normalizeText(message.content),
+    })),
+    temperature: request.temperature ?? null,
+    maxTokens: request.maxTokens ?? null,
+    presencePenalty: request.presencePenalty ?? null,
+    frequencyPenalty: request.frequencyPenalty ?? null,
+  };
+}
+
+/**
+ * Line endings and trailing whitespace never change the key
+ */
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .trim();
+}
+
+export function hashRequest(request: Record<string, unknown>): string {
+  return createHash('sha256').update(JSON.stringify(request)).digest('hex').slice(0, 16);
+}
+
+function describeRequest(request: Record<string, unknown>): string {
+  const messages = request.messages as Array<{ content: string }> | undefined;
+  const last = messages?.[messages.length - 1]?.content;
+
+  if (!last) return '';
+  return ` (${request.model}: "${last.length > 80 ? `${last.slice(0, 80)}...` : last}")`;
+}
+
+function withoutTokens({ tokens, ...result }: RecordedChatResult): LLMChatResult {
+  return result;
+}
@@ -0,0 +1,110 @@
+/**
+ * LLM Provider Interface
+ *
+ * What skills need from a language model, independent of who serves it:
+ * chat completion (optionally streamed), JSON mode, moderation and
+ * embeddings. Usage is reported in OpenAI's shape so calculateCost works
+ * for every provider.
+ */
+
+export type LLMProviderKind = 'openai' | 'ollama' | 'fake';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface LLMChatRequest {
+  /**
+   * Requested model; providers without it substitute their own
+   */
+  model: string;
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+  /**
+   * Streams the reply as it is generated; the full text is still returned
+   */
+  onToken?: (token: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface LLMChatResult {
+  content: string;
+  /**
+   * Model that actually answered
+   */
+  model: string;
+  usage?: LLMUsage;
+}
+
+export interface LLMJSONResult<T> extends LLMChatResult {
+  data: T;
+}
+
+/**
+ * Category names follow OpenAI's moderation API (hate, harassment,
+ * self-harm, sexual, violence, ...); scores are 0-1
+ */
+export interface LLMModerationResult {
+  flagged: boolean;
+  categories: Record<string, boolean>;
+  categoryScores: Record<string, number>;
+}
+
+export interface LLMEmbeddingResult {
+  embeddings: number[][];
+  model: string;
+  usage?: LLMUsage;
+}
+
+export interface LLMProvider {
+  readonly id: LLMProviderKind;
+
+  complete(request: LLMChatRequest): Promise<LLMChatResult>;
+
+  /**
+   * Completion constrained to a JSON object, parsed
+   */
+  completeJSON<T = any>(request: LLMChatRequest): Promise<LLMJSONResult<T>>;
+
+  moderate(input: string): Promise<LLMModerationResult>;
+
+  /**
+   * One vector per input, in order
+   */
+  embed(input: string[]): Promise<LLMEmbeddingResult>;
+}
+
+export class LLMProviderError extends Error {
+  constructor(
+    public code: 'NOT_CONFIGURED' | 'INVALID_JSON' | 'UNRECORDED_REQUEST',
+    message: string
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
+
+export const MODERATION_CATEGORIES = ['hate', 'harassment', 'self-harm', 'sexual', 'violence'] as const;
+
+/**
+ * Parse a JSON-mode reply, tolerating a markdown code fence around it
+ */
+export function parseJSONContent<T>(content: string): T {
+  const json = content.trim().replace(/^```(?:json)?\s*|\s*```$/g, '');
+
+  try {
+    return JSON.parse(json || '{}') as T;
+  } catch {
+    throw new LLMProviderError('INVALID_JSON', `Model did not return valid JSON: ${content.slice(0, 100)}`);
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Blog Archive
+ *
+ * Page-number pagination for /blog and /blog/page/[n], and the monthly
+ * archive behind /blog/[year]/[month]. Months are bucketed in UTC by the
+ * date a post became public (see ./lifecycle). Pure helpers.
+ */
+
+import type { BlogPost } from '@/types';
+import { getEffectivePublishDate } from './lifecycle';
+
+export const POSTS_PER_PAGE = 9;
+
+export interface PaginatedPosts {
+  posts: BlogPost[];
+  page: number;
+  totalPages: number;
+  prevUrl?: string;
+  nextUrl?: string;
+}
+
+export interface ArchiveMonth {
+  year: number;
+  /**
+   * 1-12
+   */
+  month: number;
+  count: number;
+  url: string;
+}
+
+// ============================================================================
+// Pagination
+// ============================================================================
+
+/**
+ * Page 1 is /blog itself, so it never has two URLs
+ */
+export function getBlogPageUrl(page: number): string {
+  return page <= 1 ? '/blog' : `/blog/page/${page}`;
+}
+
+export function getTotalPages(postCount: number, perPage: number = POSTS_PER_PAGE): number {
+  return Math.max(1, Math.ceil(postCount / perPage));
+}
+
+/**
+ * Returns undefined for pages past the end
+ */
+export function paginatePosts(
+  posts: BlogPost[],
+  page: number,
+  perPage: number = POSTS_PER_PAGE
+): PaginatedPosts | undefined {
+  const totalPages = getTotalPages(posts.length, perPage);
+  if (!Number.isInteger(page) || page < 1 || page > totalPages) return undefined;
+
+  return {
+    posts: posts.slice((page - 1) * perPage, page * perPage),
+    page,
+    totalPages,
+    prevUrl: page > 1 ? getBlogPageUrl(page - 1) : undefined,
+    nextUrl: page < totalPages ? getBlogPageUrl(page + 1) : undefined,
+  };
+}
+
+// ============================================================================
+// Monthly Archive
+// ============================================================================
+
+export function getArchiveUrl(year: number, month: number): string {
+  return `/blog/${year}/${String(month).padStart(2, '0')}`;
+}
+
+export function formatArchiveMonth(year: number, month: number): string {
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * Months that have posts, newest first
+ */
+export function getArchiveMonths(posts: BlogPost[]): ArchiveMonth[] {
+  const months = new Map<string, ArchiveMonth>();
+
+  for (const post of posts) {
+    const date = getEffectivePublishDate(post);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1;
+    const key = `${year}-${month}`;
+
+    const entry = months.get(key) || { year, month, count: 0, url: getArchiveUrl(year, month) };
+    entry.count++;
+    months.set(key, entry);
+  }
+
+  return Array.from(months.values()).sort((a, b) => b.year - a.year || b.month - a.month);
+}
+
+export function filterByMonth(posts: BlogPost[], year: number, month: number): BlogPost[] {
+  return posts.filter(post => {
+    const date = getEffectivePublishDate(post);
+    return date.getUTCFullYear() === year && date.getUTCMonth() + 1 === month;
+  });
+}
+
+/**
+ * Parses the [year]/[month] route segments ("2024", "01")
+ */
+export function parseArchiveParams(year: string, month: string): { year: number; month: number } | undefined {
+  if (!/^\d{4}$/.test(year) || !/^\d{2}$/.test(month)) return undefined;
+
+  const parsed = { year: Number(year), month: Number(month) };
+  return parsed.month >= 1 && parsed.month <= 12 ? parsed : undefined;
+}
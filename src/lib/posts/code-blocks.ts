@@ -0,0 +1,155 @@
+/**
+ * Code Blocks
+ *
+ * Build-time syntax highlighting for fenced code with Shiki. Both the
+ * light and dark themes are emitted (dark colors as --shiki-dark CSS
+ * variables, switched in globals.css), so no client JS is needed.
+ *
+ * Fence meta supports line highlights and a filename title:
+ *
+ *   ```ts {1,3-5} title="src/app/page.tsx"
+ */
+
+import { createHighlighter, type Highlighter } from 'shiki';
+import { visit } from 'unist-util-visit';
+import type { Element, ElementContent, Root } from 'hast';
+
+export const CODE_THEMES = { light: 'github-light', dark: 'github-dark' } as const;
+
+/**
+ * Languages loaded into the highlighter; anything else renders as plain text
+ */
+export const CODE_LANGUAGES = [
+  'typescript', 'tsx', 'javascript', 'jsx', 'json', 'bash', 'shell',
+  'css', 'html', 'markdown', 'yaml', 'python', 'diff', 'sql',
+] as const;
+
+export interface CodeMeta {
+  /**
+   * 1-based line numbers
+   */
+  highlightLines: Set<number>;
+  title?: string;
+}
+
+let highlighter: Promise<Highlighter> | undefined;
+
+function getHighlighter(): Promise<Highlighter> {
+  if (!highlighter) {
+    highlighter = createHighlighter({
+      themes: Object.values(CODE_THEMES),
+      langs: [...CODE_LANGUAGES],
+    });
+  }
+  return highlighter;
+}
+
+/**
+ * Parses fence meta such as `{1,3-5} title="app.ts"`. Ranges are clamped
+ * to the block's lineCount, so `{1-999999999}` costs no more than `{1-10}`.
+ */
+export function parseCodeMeta(meta: string | undefined, lineCount: number): CodeMeta {
+  const highlightLines = new Set<number>();
+  if (!meta) return { highlightLines };
+
+  const ranges = meta.match(/\{([\d,\s-]+)\}/);
+  if (ranges) {
+    for (const part of ranges[1].split(',')) {
+      const [start, end = start] = part.trim().split('-').map(Number);
+      if (!Number.isInteger(start) || !Number.isInteger(end)) continue;
+      for (let line = Math.max(start, 1); line <= Math.min(end, lineCount); line++) {
+        highlightLines.add(line);
+      }
+    }
+  }
+
+  const title = meta.match(/(?:title|filename)=(?:"([^"]*)"|'([^']*)'|(\S+))/);
+  return {
+    highlightLines,
+    title: title ? title[1] ?? title[2] ?? title[3] : undefined,
+  };
+}
+
+function textOf(node: ElementContent): string {
+  if (node.type === 'text') return node.value;
+  if (node.type === 'element') return node.children.map(textOf).join('');
+  return '';
+}
+
+function getLanguage(code: Element): string | undefined {
+  const classes = code.properties.className;
+  const match = Array.isArray(classes)
+    ? classes.map(String).find(name => name.startsWith('language-'))
+    : undefined;
+  return match?.slice('language-'.length);
+}
+
+/**
+ * Rehype plugin: replaces each <pre><code> with a highlighted block
+ * wrapped in a <figure> carrying the title and a copy button
+ */
+export function rehypeCodeBlocks() {
+  return async (tree: Root) => {
+    const blocks: Array<{ pre: Element; code: Element }> = [];
+
+    visit(tree, 'element', (node: Element) => {
+      const code = node.tagName === 'pre' ? node.children[0] : undefined;
+      if (code?.type === 'element' && code.tagName === 'code') {
+        blocks.push({ pre: node, code });
+      }
+    });
+    if (blocks.length === 0) return;
+
+    const shiki = await getHighlighter();
+    const loaded = new Set(shiki.getLoadedLanguages());
+
+    for (const { pre, code } of blocks) {
+      const source = code.children.map(textOf).join('').replace(/\n$/, '');
+      const requested = getLanguage(code);
+      const lang = requested && loaded.has(requested) ? requested : 'text';
+      const { highlightLines, title } = parseCodeMeta(
+        code.data?.meta ?? undefined,
+        source.split('\n').length
+      );
+
+      const highlighted = shiki.codeToHast(source, {
+        lang,
+        themes: CODE_THEMES,
+        defaultColor: 'light',
+        transformers: [
+          {
+            line(node, line) {
+              if (highlightLines.has(line)) this.addClassToHast(node, 'highlighted');
+            },
+          },
+        ],
+      });
+
+      const figure: Element = {
+        type: 'element',
+        tagName: 'figure',
+        properties: { className: ['code-block'], dataLanguage: requested || 'text' },
+        children: [
+          ...(title
+            ? [{
+                type: 'element',
+                tagName: 'figcaption',
+                properties: { className: ['code-block-title'] },
+                children: [{ type: 'text', value: title }],
+              } satisfies Element]
+            : []),
+          {
+            type: 'element',
+            tagName: 'button',
+            properties: { type: 'button', className: ['code-block-copy'], dataCopyCode: true, ariaLabel: 'Copy code' },
+            children: [{ type: 'text', value: 'Copy' }],
+          },
+          ...(highlighted.children as ElementContent[]),
+        ],
+      };
+
+      // Replace the <pre> in place, keeping its position in the parent
+      Object.assign(pre, figure);
+    }
+  };
+}
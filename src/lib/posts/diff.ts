@@ -0,0 +1,119 @@
+/**
+ * Line Diff
+ *
+ * Line-level diff of two markdown documents based on the longest common
+ * subsequence. Common leading and trailing lines are trimmed before the
+ * LCS table is built, so small edits to long posts stay cheap. When the
+ * changed region is still too large for the table, it is reported as a
+ * whole-block replace instead.
+ */
+
+/**
+ * Largest LCS table (cells) built for the changed region: 16 MB of Uint32
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+export type DiffLineType = 'equal' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  /**
+   * 1-based line number in the old document (absent for added lines)
+   */
+  oldLine?: number;
+  /**
+   * 1-based line number in the new document (absent for removed lines)
+   */
+  newLine?: number;
+}
+
+export interface LineDiff {
+  lines: DiffLine[];
+  added: number;
+  removed: number;
+}
+
+export function diffLines(oldText: string, newText: string): LineDiff {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const lines: DiffLine[] = [];
+  for (let i = 0; i < prefix; i++) {
+    lines.push({ type: 'equal', text: a[i], oldLine: i + 1, newLine: i + 1 });
+  }
+
+  lines.push(...diffMiddle(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix), prefix));
+
+  for (let i = suffix; i > 0; i--) {
+    lines.push({ type: 'equal', text: a[a.length - i], oldLine: a.length - i + 1, newLine: b.length - i + 1 });
+  }
+
+  return {
+    lines,
+    added: lines.filter(line => line.type === 'added').length,
+    removed: lines.filter(line => line.type === 'removed').length,
+  };
+}
+
+function diffMiddle(a: string[], b: string[], offset: number): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+  const width = m + 1;
+
+  if ((n + 1) * width > MAX_LCS_CELLS) {
+    return [
+      ...a.map((text, i): DiffLine => ({ type: 'removed', text, oldLine: offset + i + 1 })),
+      ...b.map((text, j): DiffLine => ({ type: 'added', text, newLine: offset + j + 1 })),
+    ];
+  }
+
+  // lcs[i * width + j] = LCS length of a[i..] and b[j..]
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < n || j < m) {
+    if (i < n && j < m && a[i] === b[j]) {
+      lines.push({ type: 'equal', text: a[i], oldLine: offset + i + 1, newLine: offset + j + 1 });
+      i++;
+      j++;
+    } else if (i < n && (j === m || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      lines.push({ type: 'removed', text: a[i], oldLine: offset + i + 1 });
+      i++;
+    } else {
+      lines.push({ type: 'added', text: b[j], newLine: offset + j + 1 });
+      j++;
+    }
+  }
+
+  return lines;
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  return text.replace(/\r\n/g, '\n').split('\n');
+}
@@ -0,0 +1,75 @@
+/**
+ * Firestore Revision Store
+ *
+ * RevisionStore backed by the `posts/{postId}/revisions` subcollection.
+ * Revision numbers are assigned inside a transaction so concurrent saves
+ * cannot produce the same number.
+ */
+
+import { Timestamp, type DocumentData, type Firestore } from 'firebase-admin/firestore';
+import type { BlogPost, PostRevision } from '@/types';
+import { getAdminFirestore } from '../firebase/admin';
+import { deserializePost, serializePost, toDate } from './firestore-store';
+import { buildRevision, type RevisionMeta, type RevisionStore } from './revisions';
+
+const POSTS_COLLECTION = 'posts';
+const REVISIONS_COLLECTION = 'revisions';
+
+export class FirestoreRevisionStore implements RevisionStore {
+  constructor(private getDb: () => Firestore = getAdminFirestore) {}
+
+  async append(post: BlogPost, meta: RevisionMeta): Promise<PostRevision> {
+    const db = this.getDb();
+    const revisions = this.collection(post.id);
+
+    return db.runTransaction(async transaction => {
+      const latest = await transaction.get(revisions.orderBy('number', 'desc').limit(1));
+      const number = latest.empty ? 1 : latest.docs[0].data().number + 1;
+      const revision = buildRevision(post, meta, number);
+
+      transaction.create(revisions.doc(revision.id), serializeRevision(revision));
+      return revision;
+    });
+  }
+
+  async list(postId: string): Promise<PostRevision[]> {
+    const snapshot = await this.collection(postId).orderBy('number', 'desc').get();
+    return snapshot.docs.map(doc => deserializeRevision(doc.data()));
+  }
+
+  async get(postId: string, revisionId: string): Promise<PostRevision | undefined> {
+    const doc = await this.collection(postId).doc(revisionId).get();
+    return doc.exists ? deserializeRevision(doc.data()!) : undefined;
+  }
+
+  private collection(postId: string) {
+    return this.getDb().collection(POSTS_COLLECTION).doc(postId).collection(REVISIONS_COLLECTION);
+  }
+}
+
+// ============================================================================
+// Serialization
+// ============================================================================
+
+function serializeRevision(revision: PostRevision): DocumentData {
+  return {
+    ...revision,
+    createdAt: Timestamp.fromDate(revision.createdAt),
+    snapshot: serializePost(revision.snapshot),
+    restoredFrom: revision.restoredFrom ?? null,
+  };
+}
+
+function deserializeRevision(data: DocumentData): PostRevision {
+  return {
+    id: data.id,
+    postId: data.postId,
+    number: data.number,
+    author: data.author,
+    source: data.source,
+    createdAt: toDate(data.createdAt),
+    contentHash: data.contentHash,
+    snapshot: deserializePost(data.postId, data.snapshot),
+    restoredFrom: data.restoredFrom ?? undefined,
+  };
+}
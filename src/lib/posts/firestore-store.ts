@@ -0,0 +1,162 @@
+/**
+ * Firestore Post Store
+ *
+ * PostStore backed by the `posts` collection. Document ids are post ids
+ * and dates are stored as Firestore Timestamps. A derived `published`
+ * flag mirrors status === 'published' so public listings can use the
+ * (published, publishedAt) index.
+ */
+
+import { Timestamp, type DocumentData, type Firestore } from 'firebase-admin/firestore';
+import type { BlogPost } from '@/types';
+import { getAdminFirestore } from '../firebase/admin';
+import { assertValidPost, PostStoreError, type ListPostsOptions, type PostStore } from './store';
+import { sortByPublishDate } from './lifecycle';
+import { DEFAULT_CATEGORY } from './taxonomy';
+import { estimateReadingTime } from './headings';
+
+const COLLECTION = 'posts';
+
+export class FirestorePostStore implements PostStore {
+  constructor(private getDb: () => Firestore = getAdminFirestore) {}
+
+  async list(options: ListPostsOptions = {}): Promise<BlogPost[]> {
+    if (options.publicOnly) {
+      return this.listPublic(options);
+    }
+
+    let query = this.collection().orderBy('publishedAt', 'desc');
+
+    if (options.tag) {
+      query = query.where('tags', 'array-contains', options.tag);
+    }
+
+    if (options.limit !== undefined) {
+      query = query.limit(options.limit);
+    }
+
+    const snapshot = await query.get();
+    return snapshot.docs.map(doc => deserializePost(doc.id, doc.data()));
+  }
+
+  async getById(id: string): Promise<BlogPost | undefined> {
+    const doc = await this.collection().doc(id).get();
+    return doc.exists ? deserializePost(doc.id, doc.data()!) : undefined;
+  }
+
+  async getBySlug(slug: string): Promise<BlogPost | undefined> {
+    const snapshot = await this.collection().where('slug', '==', slug).limit(1).get();
+    if (snapshot.empty) return undefined;
+
+    const doc = snapshot.docs[0];
+    return deserializePost(doc.id, doc.data());
+  }
+
+  async save(post: BlogPost): Promise<BlogPost> {
+    assertValidPost(post);
+
+    const existing = await this.getBySlug(post.slug);
+    if (existing && existing.id !== post.id) {
+      throw new PostStoreError('SLUG_CONFLICT', `Slug "${post.slug}" is already used by post ${existing.id}`);
+    }
+
+    await this.collection().doc(post.id).set(serializePost(post));
+    return post;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const ref = this.collection().doc(id);
+    const doc = await ref.get();
+    if (!doc.exists) return false;
+
+    await ref.delete();
+    return true;
+  }
+
+  /**
+   * Published posts plus scheduled posts that are due, merged by publish date
+   */
+  private async listPublic(options: ListPostsOptions): Promise<BlogPost[]> {
+    const now = Timestamp.fromDate(options.now || new Date());
+
+    let published = this.collection()
+      .where('published', '==', true)
+      .orderBy('publishedAt', 'desc');
+    let dueScheduled = this.collection()
+      .where('status', '==', 'scheduled')
+      .where('scheduledAt', '<=', now)
+      .orderBy('scheduledAt', 'desc');
+
+    if (options.tag) {
+      published = published.where('tags', 'array-contains', options.tag);
+      dueScheduled = dueScheduled.where('tags', 'array-contains', options.tag);
+    }
+
+    if (options.limit !== undefined) {
+      published = published.limit(options.limit);
+      dueScheduled = dueScheduled.limit(options.limit);
+    }
+
+    const [publishedSnapshot, scheduledSnapshot] = await Promise.all([published.get(), dueScheduled.get()]);
+    const posts = sortByPublishDate(
+      [...publishedSnapshot.docs, ...scheduledSnapshot.docs].map(doc => deserializePost(doc.id, doc.data()))
+    );
+
+    return options.limit !== undefined ? posts.slice(0, options.limit) : posts;
+  }
+
+  private collection() {
+    return this.getDb().collection(COLLECTION);
+  }
+}
+
+// ============================================================================
+// Serialization
+// ============================================================================
+
+export function serializePost(post: BlogPost): DocumentData {
+  const { id, ...data } = post;
+
+  return {
+    ...data,
+    publishedAt: Timestamp.fromDate(post.publishedAt),
+    updatedAt: Timestamp.fromDate(post.updatedAt),
+    scheduledAt: post.scheduledAt ? Timestamp.fromDate(post.scheduledAt) : null,
+    published: post.status === 'published',
+    // Firestore rejects undefined values
+    imageUrl: post.imageUrl ?? null,
+    locale: post.locale ?? null,
+    alternates: post.alternates ?? null,
+    translationOf: post.translationOf ?? null,
+    // Derived from content; stored so queries and exports can use it
+    readingTimeMinutes: estimateReadingTime(post.content),
+  };
+}
+
+export function deserializePost(id: string, data: DocumentData): BlogPost {
+  return {
+    id,
+    slug: data.slug,
+    title: data.title,
+    excerpt: data.excerpt,
+    content: data.content,
+    author: data.author,
+    publishedAt: toDate(data.publishedAt),
+    updatedAt: toDate(data.updatedAt),
+    tags: data.tags || [],
+    category: data.category || DEFAULT_CATEGORY,
+    imageUrl: data.imageUrl ?? undefined,
+    status: data.status || (data.published ? 'published' : 'draft'),
+    scheduledAt: data.scheduledAt ? toDate(data.scheduledAt) : undefined,
+    locale: data.locale ?? undefined,
+    alternates: data.alternates ?? undefined,
+    translationOf: data.translationOf ?? undefined,
+    readingTimeMinutes: data.content ? estimateReadingTime(data.content) : undefined,
+  };
+}
+
+export function toDate(value: unknown): Date {
+  if (value instanceof Timestamp) return value.toDate();
+  if (value instanceof Date) return value;
+  return new Date(value as string);
+}
@@ -0,0 +1,136 @@
+/**
+ * Post Headings
+ *
+ * Slugged heading ids, the table of contents built from them, and
+ * reading time. Ids are derived from the heading text and de-duplicated
+ * in document order ("setup", "setup-1", ...), so they stay stable
+ * as long as the headings themselves do.
+ */
+
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import { visit } from 'unist-util-visit';
+import type { Heading as MdastHeading, Nodes, Root } from 'mdast';
+import { stripMarkdown } from '@/lib/search/snippet';
+import { slugifyTerm } from './taxonomy';
+
+export const READING_WORDS_PER_MINUTE = 200;
+
+/**
+ * Deepest heading level listed in the table of contents
+ */
+export const TOC_MAX_DEPTH = 3;
+
+export interface PostHeading {
+  depth: number;
+  text: string;
+  id: string;
+}
+
+export interface TocEntry {
+  id: string;
+  text: string;
+  depth: number;
+  children: TocEntry[];
+}
+
+/**
+ * Returns a function that slugs heading text, suffixing repeats
+ */
+export function createHeadingSlugger(): (text: string) => string {
+  const seen = new Map<string, number>();
+
+  return (text: string) => {
+    const base = slugifyTerm(text) || 'section';
+    let slug = base;
+    let count = seen.get(base) || 0;
+
+    while (seen.has(slug)) {
+      count++;
+      slug = `${base}-${count}`;
+    }
+
+    seen.set(base, count);
+    seen.set(slug, 0);
+    return slug;
+  };
+}
+
+function nodeText(node: Nodes): string {
+  if ('value' in node) return node.value;
+  if ('children' in node) return (node.children as Nodes[]).map(nodeText).join('');
+  return '';
+}
+
+/**
+ * Remark plugin: gives every heading an id (rendered by remark-rehype)
+ * and records the headings on file.data.headings
+ */
+export function remarkHeadingIds() {
+  return (tree: Root, file: { data: Record<string, unknown> }) => {
+    const slug = createHeadingSlugger();
+    const headings: PostHeading[] = [];
+
+    visit(tree, 'heading', (node: MdastHeading) => {
+      const text = nodeText(node).trim();
+      const id = slug(text);
+
+      node.data = { ...node.data, hProperties: { ...node.data?.hProperties, id } };
+      headings.push({ depth: node.depth, text, id });
+    });
+
+    file.data.headings = headings;
+  };
+}
+
+const headingParser = unified().use(remarkParse).use(remarkGfm);
+
+/**
+ * Headings of a markdown document, in order. Lines inside code blocks
+ * are not headings.
+ */
+export function extractHeadings(markdown: string): PostHeading[] {
+  const tree = headingParser.parse(markdown);
+  const file = { data: {} as Record<string, unknown> };
+  remarkHeadingIds()(tree, file);
+  return file.data.headings as PostHeading[];
+}
+
+/**
+ * Nests headings into a table of contents. Headings above `minDepth`
+ * (the post title) and below `maxDepth` are left out.
+ */
+export function buildToc(
+  headings: PostHeading[],
+  minDepth: number = 2,
+  maxDepth: number = TOC_MAX_DEPTH
+): TocEntry[] {
+  const root: TocEntry[] = [];
+  const stack: TocEntry[] = [];
+
+  for (const heading of headings) {
+    if (heading.depth < minDepth || heading.depth > maxDepth) continue;
+
+    const entry: TocEntry = { ...heading, children: [] };
+    while (stack.length > 0 && stack[stack.length - 1].depth >= entry.depth) {
+      stack.pop();
+    }
+
+    (stack.length > 0 ? stack[stack.length - 1].children : root).push(entry);
+    stack.push(entry);
+  }
+
+  return root;
+}
+
+export function countContentWords(markdown: string): number {
+  return stripMarkdown(markdown).split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Whole minutes at READING_WORDS_PER_MINUTE, at least 1
+ */
+export function estimateReadingTime(markdown: string): number {
+  return Math.max(1, Math.ceil(countContentWords(markdown) / READING_WORDS_PER_MINUTE));
+}
@@ -0,0 +1,106 @@
+/**
+ * Posts Module
+ *
+ * Central access point for blog posts. The backing store is selected
+ * with POST_STORE ('memory' | 'firestore'); the in-memory store is
+ * seeded from the markdown files in content/posts. Every save through
+ * the shared store records a revision.
+ */
+
+import type { BlogPost } from '@/types';
+import { postRepository } from './repository';
+import { InMemoryPostStore, type ListPostsOptions, type PostStore } from './store';
+import { FirestorePostStore } from './firestore-store';
+import { isPostPublic } from './lifecycle';
+import { InMemoryRevisionStore } from './revisions';
+import { FirestoreRevisionStore } from './firestore-revisions';
+import { RevisionedPostStore } from './revisioned-store';
+import { filterByLocale } from './translations';
+import { DEFAULT_LOCALE } from '@/lib/site';
+
+export * from './repository';
+export * from './store';
+export * from './firestore-store';
+export * from './lifecycle';
+export * from './preview';
+export * from './revisions';
+export * from './firestore-revisions';
+export * from './revisioned-store';
+export * from './diff';
+export * from './taxonomy';
+export * from './archive';
+export * from './headings';
+export * from './code-blocks';
+export * from './markdown';
+export * from './translations';
+
+export type PostStoreKind = 'memory' | 'firestore';
+
+let postStore: RevisionedPostStore | null = null;
+
+export function createPostStore(
+  kind: PostStoreKind = (process.env.POST_STORE as PostStoreKind) || 'memory'
+): RevisionedPostStore {
+  switch (kind) {
+    case 'firestore':
+      return new RevisionedPostStore(new FirestorePostStore(), new FirestoreRevisionStore());
+    case 'memory':
+      return new RevisionedPostStore(
+        new InMemoryPostStore(() => postRepository.getAllPosts()),
+        new InMemoryRevisionStore()
+      );
+    default:
+      throw new Error(`Unknown POST_STORE: ${kind}. Must be one of: memory, firestore`);
+  }
+}
+
+/**
+ * Shared store used by pages, skills and API routes
+ */
+export function getPostStore(): RevisionedPostStore {
+  if (!postStore) {
+    postStore = createPostStore();
+  }
+  return postStore;
+}
+
+/**
+ * Replace the shared store (tests and scripts). Plain stores get an
+ * in-memory revision history.
+ */
+export function setPostStore(store: PostStore | null): void {
+  postStore = !store || store instanceof RevisionedPostStore
+    ? store
+    : new RevisionedPostStore(store, new InMemoryRevisionStore());
+}
+
+// ============================================================================
+// Public Listings
+// ============================================================================
+
+/**
+ * Posts readers may see, newest first. Used by /blog, the home page,
+ * generateStaticParams and anything else rendered to the public.
+ */
+export async function listPublicPosts(options: Omit<ListPostsOptions, 'publicOnly'> = {}): Promise<BlogPost[]> {
+  return getPostStore().list({ ...options, publicOnly: true });
+}
+
+/**
+ * Public posts written in `locale`, newest first. The unprefixed pages
+ * and feeds list the default locale only, so a translated post is not
+ * shown once per language.
+ */
+export async function listPublicPostsInLocale(
+  locale: string = DEFAULT_LOCALE,
+  options: Omit<ListPostsOptions, 'publicOnly'> = {}
+): Promise<BlogPost[]> {
+  const { limit, ...rest } = options;
+  const posts = filterByLocale(await listPublicPosts(rest), locale);
+  return limit === undefined ? posts : posts.slice(0, limit);
+}
+
+export async function getPublicPostBySlug(slug: string): Promise<BlogPost | undefined> {
+  const post = await getPostStore().getBySlug(slug);
+  return post && isPostPublic(post) ? post : undefined;
+}
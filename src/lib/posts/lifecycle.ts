@@ -0,0 +1,45 @@
+/**
+ * Post Lifecycle
+ *
+ * draft → scheduled → published → archived
+ *
+ * Only published posts and scheduled posts whose publish time has passed
+ * are public. Drafts, future scheduled posts and archived posts are hidden
+ * from listings and static params; admins can still open them through a
+ * signed preview URL (see ./preview).
+ *
+ * Post pages, listings, feeds and the sitemap revalidate every 60 seconds,
+ * so a scheduled post goes live, and a newly saved or approved post shows
+ * up, without a rebuild.
+ */
+
+import type { BlogPost, PostStatus } from '@/types';
+
+export const POST_STATUSES: PostStatus[] = ['draft', 'scheduled', 'published', 'archived'];
+
+/**
+ * When the post becomes (or became) visible to readers
+ */
+export function getEffectivePublishDate(post: BlogPost): Date {
+  if (post.status === 'scheduled' && post.scheduledAt) {
+    return post.scheduledAt;
+  }
+  return post.publishedAt;
+}
+
+export function isPostPublic(post: BlogPost, now: Date = new Date()): boolean {
+  switch (post.status) {
+    case 'published':
+      return true;
+    case 'scheduled':
+      return !!post.scheduledAt && post.scheduledAt.getTime() <= now.getTime();
+    default:
+      return false;
+  }
+}
+
+export function sortByPublishDate(posts: BlogPost[]): BlogPost[] {
+  return posts.sort(
+    (a, b) => getEffectivePublishDate(b).getTime() - getEffectivePublishDate(a).getTime()
+  );
+}
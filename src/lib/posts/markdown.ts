@@ -0,0 +1,105 @@
+/**
+ * Markdown Rendering
+ *
+ * Post markdown to HTML (GitHub-flavoured). Raw HTML in the source is
+ * dropped rather than passed through, and link and image URLs are limited
+ * to safe protocols, so the output is safe to embed.
+ * Headings get slugged ids for anchors and the table of contents.
+ *
+ * Post pages also get highlighted code blocks (./code-blocks); feeds use
+ * plain <pre><code>, since readers drop the styles and copy button.
+ */
+
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import remarkRehype from 'remark-rehype';
+import rehypeStringify from 'rehype-stringify';
+import { visit } from 'unist-util-visit';
+import type { Element, Root } from 'hast';
+import {
+  buildToc,
+  estimateReadingTime,
+  remarkHeadingIds,
+  type PostHeading,
+  type TocEntry,
+} from './headings';
+import { rehypeCodeBlocks } from './code-blocks';
+
+export interface RenderedPost {
+  html: string;
+  toc: TocEntry[];
+  readingTimeMinutes: number;
+}
+
+// Schemes a link may use; relative URLs and fragments are always kept
+const SAFE_PROTOCOLS: Record<'href' | 'src', string[]> = {
+  href: ['http', 'https', 'mailto'],
+  src: ['http', 'https'],
+};
+
+/**
+ * Whether `url` is relative or uses one of `protocols`. Browsers ignore
+ * whitespace and control characters inside a scheme, so those are dropped
+ * before checking.
+ */
+function isSafeUrl(url: string, protocols: string[]): boolean {
+  const value = url.replace(/[\u0000-\u0020\u007f]/g, '');
+  const colon = value.indexOf(':');
+  const boundary = value.search(/[/?#]/);
+
+  if (colon === -1 || (boundary !== -1 && boundary < colon)) return true;
+  return protocols.includes(value.slice(0, colon).toLowerCase());
+}
+
+/**
+ * Rehype plugin: removes href and src values with an unsafe protocol
+ * (javascript:, data:, vbscript:, ...)
+ */
+function rehypeSafeUrls() {
+  return (tree: Root) => {
+    visit(tree, 'element', (node: Element) => {
+      for (const attribute of ['href', 'src'] as const) {
+        const value = node.properties[attribute];
+        if (typeof value === 'string' && !isSafeUrl(value, SAFE_PROTOCOLS[attribute])) {
+          delete node.properties[attribute];
+        }
+      }
+    });
+  };
+}
+
+const processor = unified()
+  .use(remarkParse)
+  .use(remarkGfm)
+  .use(remarkHeadingIds)
+  .use(remarkRehype)
+  .use(rehypeSafeUrls)
+  .use(rehypeStringify);
+
+const pageProcessor = unified()
+  .use(remarkParse)
+  .use(remarkGfm)
+  .use(remarkHeadingIds)
+  .use(remarkRehype)
+  .use(rehypeSafeUrls)
+  .use(rehypeCodeBlocks)
+  .use(rehypeStringify);
+
+export async function renderMarkdown(markdown: string): Promise<string> {
+  const file = await processor.process(markdown);
+  return String(file);
+}
+
+/**
+ * HTML plus the table of contents and reading time for a post page
+ */
+export async function renderPostContent(markdown: string): Promise<RenderedPost> {
+  const file = await pageProcessor.process(markdown);
+
+  return {
+    html: String(file),
+    toc: buildToc((file.data.headings as PostHeading[] | undefined) || []),
+    readingTimeMinutes: estimateReadingTime(markdown),
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * Signed Preview URLs
+ *
+ * Lets admins share a time-limited link to a post regardless of its
+ * status. The signature is an HMAC-SHA256 of `${slug}.${expires}`
+ * keyed with PREVIEW_SECRET; without it, previews are disabled and no
+ * link verifies.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const PREVIEW_DEFAULT_TTL_SECONDS = 60 * 60 * 24; // 24 hours
+export const PREVIEW_MAX_TTL_SECONDS = 60 * 60 * 24 * 7; // 7 days
+
+export interface PreviewToken {
+  slug: string;
+  expires: number; // unix seconds
+  signature: string;
+}
+
+export function isPreviewEnabled(): boolean {
+  return !!process.env.PREVIEW_SECRET;
+}
+
+function getPreviewSecret(): string {
+  const secret = process.env.PREVIEW_SECRET;
+  if (!secret) {
+    throw new Error('Missing PREVIEW_SECRET environment variable');
+  }
+  return secret;
+}
+
+function sign(slug: string, expires: number): string {
+  return createHmac('sha256', getPreviewSecret())
+    .update(`${slug}.${expires}`)
+    .digest('base64url');
+}
+
+/**
+ * ttlSeconds is capped at PREVIEW_MAX_TTL_SECONDS
+ */
+export function createPreviewToken(
+  slug: string,
+  ttlSeconds: number = PREVIEW_DEFAULT_TTL_SECONDS,
+  now: Date = new Date()
+): PreviewToken {
+  const expires = Math.floor(now.getTime() / 1000) + Math.floor(Math.min(ttlSeconds, PREVIEW_MAX_TTL_SECONDS));
+  return { slug, expires, signature: sign(slug, expires) };
+}
+
+export function getPreviewPath(token: PreviewToken): string {
+  const params = new URLSearchParams({
+    expires: String(token.expires),
+    signature: token.signature,
+  });
+  return `/preview/${token.slug}?${params.toString()}`;
+}
+
+export function verifyPreviewToken(
+  slug: string,
+  expires: string | number | undefined,
+  signature: string | undefined,
+  now: Date = new Date()
+): boolean {
+  const expiresAt = Number(expires);
+  if (!isPreviewEnabled() || !signature || !Number.isInteger(expiresAt)) return false;
+  if (expiresAt * 1000 < now.getTime()) return false;
+
+  const expected = Buffer.from(sign(slug, expiresAt));
+  const actual = Buffer.from(signature);
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,213 @@
+/**
+ * Post Repository
+ *
+ * Loads blog posts from markdown files on disk (content/posts/*.md).
+ * Each file carries its metadata as YAML frontmatter, which is validated
+ * into a BlogPost so that broken content fails the build with a message
+ * naming the offending file and field.
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import matter from 'gray-matter';
+import { z } from 'zod';
+import type { BlogPost } from '@/types';
+import { DEFAULT_CATEGORY } from './taxonomy';
+import { estimateReadingTime } from './headings';
+
+// ============================================================================
+// Frontmatter Schema
+// ============================================================================
+
+const LOCALE_PATTERN = /^[a-z]{2}(?:-[A-Z]{2})?$/;
+
+// YAML reads `id: 1` as a number; accept it, but never coerce a missing value
+const identifierSchema = z.union([z.string().min(1), z.number()]).transform(String);
+
+const frontmatterSchema = z.object({
+  id: identifierSchema,
+  slug: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'must be lowercase words separated by dashes').optional(),
+  title: z.string().min(1),
+  excerpt: z.string().min(1),
+  author: z.string().min(1),
+  publishedAt: z.coerce.date(),
+  updatedAt: z.coerce.date().optional(),
+  tags: z.array(z.coerce.string()).default([]),
+  category: z.string().min(1).default(DEFAULT_CATEGORY),
+  imageUrl: z.string().optional(),
+  status: z.enum(['draft', 'scheduled', 'published', 'archived']),
+  scheduledAt: z.coerce.date().optional(),
+  locale: z.string().regex(LOCALE_PATTERN, 'must be a language code like "en" or "es-AR"').optional(),
+  alternates: z.record(
+    z.string().regex(LOCALE_PATTERN, 'keys must be language codes like "en" or "es-AR"'),
+    z.string().min(1)
+  ).optional(),
+  translationOf: identifierSchema.optional(),
+}).refine(data => data.status !== 'scheduled' || data.scheduledAt !== undefined, {
+  message: 'is required for scheduled posts',
+  path: ['scheduledAt'],
+});
+
+export type PostFrontmatter = z.infer<typeof frontmatterSchema>;
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+export class PostValidationError extends Error {
+  constructor(
+    public file: string,
+    public field: string,
+    message: string
+  ) {
+    super(`Invalid post ${file}: "${field}" ${message}`);
+    this.name = 'PostValidationError';
+  }
+}
+
+// ============================================================================
+// Repository Implementation
+// ============================================================================
+
+export interface PostRepositoryOptions {
+  contentDir?: string;
+}
+
+export class PostRepository {
+  private readonly contentDir: string;
+  private posts: BlogPost[] | null = null;
+
+  constructor(options: PostRepositoryOptions = {}) {
+    this.contentDir = options.contentDir || path.join(process.cwd(), 'content', 'posts');
+  }
+
+  /**
+   * All posts, newest first
+   */
+  async getAllPosts(): Promise<BlogPost[]> {
+    // Re-read on every call outside production so edits show up in `next dev`
+    if (this.posts && process.env.NODE_ENV === 'production') {
+      return this.posts;
+    }
+
+    const files = (await readdir(this.contentDir))
+      .filter(file => file.endsWith('.md'))
+      .sort();
+
+    const posts = await Promise.all(files.map(file => this.loadPost(file)));
+    this.assertUnique(posts, files);
+
+    posts.sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime());
+    this.posts = posts;
+
+    return posts;
+  }
+
+  async getPostBySlug(slug: string): Promise<BlogPost | undefined> {
+    const posts = await this.getAllPosts();
+    return posts.find(post => post.slug === slug);
+  }
+
+  async getRecentPosts(limit: number = 3): Promise<BlogPost[]> {
+    const posts = await this.getAllPosts();
+    return posts.slice(0, limit);
+  }
+
+  // ====================================
+  // Helper Methods
+  // ====================================
+
+  private async loadPost(file: string): Promise<BlogPost> {
+    const relativePath = path.join(path.relative(process.cwd(), this.contentDir), file);
+    const raw = await readFile(path.join(this.contentDir, file), 'utf8');
+
+    let parsed: matter.GrayMatterFile<string>;
+    try {
+      parsed = matter(raw);
+    } catch (error) {
+      throw new PostValidationError(
+        relativePath,
+        'frontmatter',
+        `could not be parsed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (Object.keys(parsed.data).length === 0) {
+      throw new PostValidationError(relativePath, 'frontmatter', 'is missing');
+    }
+
+    const result = frontmatterSchema.safeParse(parsed.data);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      const field = issue.path.join('.') || 'frontmatter';
+      const message = isMissing(issue)
+        ? 'is required'
+        : issue.code === 'custom' ? issue.message : issue.message.toLowerCase();
+      throw new PostValidationError(relativePath, field, message);
+    }
+
+    const data = result.data;
+    const content = parsed.content.trim();
+
+    if (content.length === 0) {
+      throw new PostValidationError(relativePath, 'content', 'must not be empty');
+    }
+
+    return {
+      id: data.id,
+      slug: data.slug || path.basename(file, '.md'),
+      title: data.title,
+      excerpt: data.excerpt,
+      content,
+      author: data.author,
+      publishedAt: data.publishedAt,
+      updatedAt: data.updatedAt || data.publishedAt,
+      tags: data.tags,
+      category: data.category,
+      imageUrl: data.imageUrl,
+      status: data.status,
+      scheduledAt: data.scheduledAt,
+      locale: data.locale,
+      alternates: data.alternates,
+      translationOf: data.translationOf,
+      readingTimeMinutes: estimateReadingTime(content),
+    };
+  }
+
+  /**
+   * Two files with the same slug or id would silently shadow each other
+   */
+  private assertUnique(posts: BlogPost[], files: string[]): void {
+    const seen = { slug: new Map<string, string>(), id: new Map<string, string>() };
+
+    posts.forEach((post, index) => {
+      for (const field of ['slug', 'id'] as const) {
+        const previous = seen[field].get(post[field]);
+        if (previous) {
+          throw new PostValidationError(
+            files[index],
+            field,
+            `"${post[field]}" is already used by ${previous}`
+          );
+        }
+        seen[field].set(post[field], files[index]);
+      }
+    });
+  }
+}
+
+/**
+ * A union issue counts as missing when every member rejected an absent value
+ */
+function isMissing(issue: z.ZodIssue): boolean {
+  if (issue.code === 'invalid_type') {
+    return issue.received === 'undefined';
+  }
+  if (issue.code === 'invalid_union') {
+    return issue.unionErrors.every(error => error.issues.every(isMissing));
+  }
+  return false;
+}
+
+// Singleton instance
+export const postRepository = new PostRepository();
@@ -0,0 +1,139 @@
+/**
+ * Revisioned Post Store
+ *
+ * Wraps any PostStore so every save appends an immutable revision.
+ * This is the store handed out by getPostStore(), so pages, skills,
+ * workflows and API routes all go through it.
+ */
+
+import type { BlogPost, PostRevision } from '@/types';
+import type { ListPostsOptions, PostStore } from './store';
+import { RevisionError, type RevisionMeta, type RevisionStore } from './revisions';
+import { diffLines, type LineDiff } from './diff';
+
+export interface RevisionComparison {
+  from: PostRevision;
+  to: PostRevision;
+  /**
+   * Line diff of the markdown content
+   */
+  content: LineDiff;
+  /**
+   * Other fields that differ between the two revisions
+   */
+  changedFields: Array<keyof BlogPost>;
+}
+
+export interface SavedRevision {
+  post: BlogPost;
+  revision: PostRevision;
+}
+
+const COMPARED_FIELDS: Array<keyof BlogPost> = [
+  'slug', 'title', 'excerpt', 'author', 'tags', 'category', 'imageUrl', 'status', 'publishedAt', 'scheduledAt',
+  'locale', 'alternates', 'translationOf'
+];
+
+export class RevisionedPostStore implements PostStore {
+  constructor(
+    private posts: PostStore,
+    private revisions: RevisionStore
+  ) {}
+
+  list(options?: ListPostsOptions): Promise<BlogPost[]> {
+    return this.posts.list(options);
+  }
+
+  getById(id: string): Promise<BlogPost | undefined> {
+    return this.posts.getById(id);
+  }
+
+  getBySlug(slug: string): Promise<BlogPost | undefined> {
+    return this.posts.getBySlug(slug);
+  }
+
+  /**
+   * Saves the post and records a revision. Without meta the change is
+   * attributed to the post author as a manual edit.
+   */
+  async save(post: BlogPost, meta?: RevisionMeta): Promise<BlogPost> {
+    const { post: saved } = await this.saveWithRevision(post, meta || { author: post.author, source: 'manual' });
+    return saved;
+  }
+
+  /**
+   * Deletes the post; its revisions are kept
+   */
+  delete(id: string): Promise<boolean> {
+    return this.posts.delete(id);
+  }
+
+  listRevisions(postId: string): Promise<PostRevision[]> {
+    return this.revisions.list(postId);
+  }
+
+  async getRevision(postId: string, revisionId: string): Promise<PostRevision> {
+    const revision = await this.revisions.get(postId, revisionId);
+    if (!revision) {
+      throw new RevisionError('REVISION_NOT_FOUND', `Revision ${revisionId} not found for post ${postId}`);
+    }
+    return revision;
+  }
+
+  async compareRevisions(postId: string, fromId: string, toId: string): Promise<RevisionComparison> {
+    const [from, to] = await Promise.all([
+      this.getRevision(postId, fromId),
+      this.getRevision(postId, toId),
+    ]);
+
+    return {
+      from,
+      to,
+      content: diffLines(from.snapshot.content, to.snapshot.content),
+      changedFields: COMPARED_FIELDS.filter(
+        field => JSON.stringify(from.snapshot[field]) !== JSON.stringify(to.snapshot[field])
+      ),
+    };
+  }
+
+  /**
+   * Saves an older revision as the current post. History is never
+   * rewritten: the restore itself becomes the newest revision.
+   */
+  async restoreRevision(postId: string, revisionId: string, author: string): Promise<SavedRevision> {
+    const current = await this.posts.getById(postId);
+    if (!current) {
+      throw new RevisionError('POST_NOT_FOUND', `Post ${postId} not found`);
+    }
+
+    const revision = await this.getRevision(postId, revisionId);
+
+    return this.saveWithRevision(
+      { ...revision.snapshot, id: postId, updatedAt: new Date() },
+      { author, source: 'restore', restoredFrom: revision.id }
+    );
+  }
+
+  private async saveWithRevision(post: BlogPost, meta: RevisionMeta): Promise<SavedRevision> {
+    await this.recordBaseline(post.id);
+
+    const saved = await this.posts.save(post);
+    const revision = await this.revisions.append(saved, meta);
+    return { post: saved, revision };
+  }
+
+  /**
+   * Posts that predate revisions (seeded or imported) have none yet; their
+   * current state is recorded first so the first edit can be compared and
+   * undone like any other
+   */
+  private async recordBaseline(postId: string): Promise<void> {
+    const existing = await this.posts.getById(postId);
+    if (!existing) return;
+
+    const history = await this.revisions.list(postId);
+    if (history.length === 0) {
+      await this.revisions.append(existing, { author: existing.author, source: 'import' });
+    }
+  }
+}
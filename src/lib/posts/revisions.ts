@@ -0,0 +1,102 @@
+/**
+ * Post Revisions
+ *
+ * Append-only history of every post save. Revisions are never updated or
+ * deleted; restoring an old revision appends a new one.
+ * - FirestoreRevisionStore: `posts/{postId}/revisions` subcollection
+ * - InMemoryRevisionStore: same semantics, for tests and local development
+ */
+
+import { createHash } from 'crypto';
+import type { BlogPost, PostRevision, RevisionSource } from '@/types';
+import { clonePost } from './store';
+
+// ============================================================================
+// Interface
+// ============================================================================
+
+/**
+ * Who made a change and through which path
+ */
+export interface RevisionMeta {
+  author: string;
+  source: RevisionSource;
+  restoredFrom?: string;
+}
+
+export interface RevisionStore {
+  /**
+   * Record a new revision; the store assigns id and number
+   */
+  append(post: BlogPost, meta: RevisionMeta): Promise<PostRevision>;
+
+  /**
+   * Revisions of a post, newest first
+   */
+  list(postId: string): Promise<PostRevision[]>;
+  get(postId: string, revisionId: string): Promise<PostRevision | undefined>;
+}
+
+export class RevisionError extends Error {
+  constructor(
+    public code: 'POST_NOT_FOUND' | 'REVISION_NOT_FOUND',
+    message: string
+  ) {
+    super(message);
+    this.name = 'RevisionError';
+  }
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+export function buildRevision(post: BlogPost, meta: RevisionMeta, number: number, createdAt: Date = new Date()): PostRevision {
+  return {
+    id: `rev-${number}`,
+    postId: post.id,
+    number,
+    author: meta.author,
+    source: meta.source,
+    createdAt,
+    contentHash: hashContent(post.content),
+    snapshot: clonePost(post),
+    ...(meta.restoredFrom ? { restoredFrom: meta.restoredFrom } : {}),
+  };
+}
+
+// ============================================================================
+// In-Memory Implementation
+// ============================================================================
+
+export class InMemoryRevisionStore implements RevisionStore {
+  private revisions: Map<string, PostRevision[]> = new Map();
+
+  async append(post: BlogPost, meta: RevisionMeta): Promise<PostRevision> {
+    const history = this.revisions.get(post.id) || [];
+    const revision = buildRevision(post, meta, history.length + 1);
+
+    history.push(revision);
+    this.revisions.set(post.id, history);
+
+    return cloneRevision(revision);
+  }
+
+  async list(postId: string): Promise<PostRevision[]> {
+    const history = this.revisions.get(postId) || [];
+    return [...history].reverse().map(cloneRevision);
+  }
+
+  async get(postId: string, revisionId: string): Promise<PostRevision | undefined> {
+    const revision = (this.revisions.get(postId) || []).find(r => r.id === revisionId);
+    return revision ? cloneRevision(revision) : undefined;
+  }
+}
+
+function cloneRevision(revision: PostRevision): PostRevision {
+  return {
+    ...revision,
+    createdAt: new Date(revision.createdAt),
+    snapshot: clonePost(revision.snapshot),
+  };
+}
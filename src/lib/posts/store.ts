@@ -0,0 +1,168 @@
+/**
+ * Post Store
+ *
+ * Read/write access to blog posts behind a single interface:
+ * - FirestorePostStore: the `posts` collection (see firestore.rules)
+ * - InMemoryPostStore: same semantics, for tests and local development
+ */
+
+import type { BlogPost } from '@/types';
+import { isPostPublic, sortByPublishDate, POST_STATUSES } from './lifecycle';
+import type { RevisionMeta } from './revisions';
+
+// ============================================================================
+// Interface
+// ============================================================================
+
+export interface ListPostsOptions {
+  tag?: string;
+  limit?: number;
+  /**
+   * Only posts readers may see (see ./lifecycle)
+   */
+  publicOnly?: boolean;
+  /**
+   * Reference time for scheduled posts (defaults to now)
+   */
+  now?: Date;
+}
+
+export interface PostStore {
+  /**
+   * Posts ordered by publish date, newest first
+   */
+  list(options?: ListPostsOptions): Promise<BlogPost[]>;
+  getById(id: string): Promise<BlogPost | undefined>;
+  getBySlug(slug: string): Promise<BlogPost | undefined>;
+
+  /**
+   * Insert or replace a post by id. Slugs must be unique across posts.
+   * Stores that keep history record the change under meta (see ./revisions).
+   */
+  save(post: BlogPost, meta?: RevisionMeta): Promise<BlogPost>;
+
+  /**
+   * Returns false when no post with that id exists
+   */
+  delete(id: string): Promise<boolean>;
+}
+
+export class PostStoreError extends Error {
+  constructor(
+    public code: 'SLUG_CONFLICT' | 'INVALID_POST',
+    message: string
+  ) {
+    super(message);
+    this.name = 'PostStoreError';
+  }
+}
+
+export function assertValidPost(post: BlogPost): void {
+  if (!post.id || !post.slug) {
+    throw new PostStoreError('INVALID_POST', 'Post must have an id and a slug');
+  }
+
+  if (!POST_STATUSES.includes(post.status)) {
+    throw new PostStoreError('INVALID_POST', `Unknown post status: ${post.status}`);
+  }
+
+  if (post.status === 'scheduled' && !post.scheduledAt) {
+    throw new PostStoreError('INVALID_POST', 'Scheduled posts must have a scheduledAt date');
+  }
+}
+
+// ============================================================================
+// In-Memory Implementation
+// ============================================================================
+
+export class InMemoryPostStore implements PostStore {
+  private posts: Map<string, BlogPost> = new Map();
+  private seeded: boolean;
+
+  /**
+   * @param seed Loads the initial posts on first access (defaults to none)
+   */
+  constructor(private seed?: () => Promise<BlogPost[]>) {
+    this.seeded = !seed;
+  }
+
+  async list(options: ListPostsOptions = {}): Promise<BlogPost[]> {
+    await this.ensureSeeded();
+
+    let posts = Array.from(this.posts.values());
+
+    if (options.tag) {
+      posts = posts.filter(post => post.tags.includes(options.tag!));
+    }
+
+    if (options.publicOnly) {
+      const now = options.now || new Date();
+      posts = posts.filter(post => isPostPublic(post, now));
+    }
+
+    sortByPublishDate(posts);
+
+    if (options.limit !== undefined) {
+      posts = posts.slice(0, options.limit);
+    }
+
+    return posts.map(clonePost);
+  }
+
+  async getById(id: string): Promise<BlogPost | undefined> {
+    await this.ensureSeeded();
+    const post = this.posts.get(id);
+    return post ? clonePost(post) : undefined;
+  }
+
+  async getBySlug(slug: string): Promise<BlogPost | undefined> {
+    await this.ensureSeeded();
+    const post = Array.from(this.posts.values()).find(p => p.slug === slug);
+    return post ? clonePost(post) : undefined;
+  }
+
+  async save(post: BlogPost): Promise<BlogPost> {
+    await this.ensureSeeded();
+    assertValidPost(post);
+
+    const conflict = Array.from(this.posts.values()).find(
+      p => p.slug === post.slug && p.id !== post.id
+    );
+    if (conflict) {
+      throw new PostStoreError('SLUG_CONFLICT', `Slug "${post.slug}" is already used by post ${conflict.id}`);
+    }
+
+    this.posts.set(post.id, clonePost(post));
+    return clonePost(post);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    await this.ensureSeeded();
+    return this.posts.delete(id);
+  }
+
+  private async ensureSeeded(): Promise<void> {
+    if (this.seeded || !this.seed) return;
+
+    const posts = await this.seed();
+    // Another call may have finished seeding while we were loading
+    if (this.seeded) return;
+
+    posts.forEach(post => this.posts.set(post.id, clonePost(post)));
+    this.seeded = true;
+  }
+}
+
+/**
+ * Deep copy so callers never share Date or array references with a store
+ */
+export function clonePost(post: BlogPost): BlogPost {
+  return {
+    ...post,
+    tags: [...post.tags],
+    alternates: post.alternates ? { ...post.alternates } : undefined,
+    publishedAt: new Date(post.publishedAt),
+    updatedAt: new Date(post.updatedAt),
+    scheduledAt: post.scheduledAt ? new Date(post.scheduledAt) : undefined,
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * Post Taxonomy
+ *
+ * Tags and categories, and the URL slugs used by /blog/tag/[tag] and
+ * /blog/category/[category]. Pure helpers, safe to import from
+ * components.
+ */
+
+import type { BlogPost } from '@/types';
+
+export const DEFAULT_CATEGORY = 'General';
+
+export interface TaxonomyTerm {
+  name: string;
+  slug: string;
+  count: number;
+}
+
+/**
+ * "Web Development" → "web-development", "Programación" → "programacion"
+ */
+export function slugifyTerm(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export function getTagUrl(tag: string): string {
+  return `/blog/tag/${slugifyTerm(tag)}`;
+}
+
+export function getCategoryUrl(category: string): string {
+  return `/blog/category/${slugifyTerm(category)}`;
+}
+
+/**
+ * Tags with post counts, most used first
+ */
+export function getTagTerms(posts: BlogPost[]): TaxonomyTerm[] {
+  return countTerms(posts.flatMap(post => Array.from(new Set(post.tags))));
+}
+
+/**
+ * Categories with post counts, most used first
+ */
+export function getCategoryTerms(posts: BlogPost[]): TaxonomyTerm[] {
+  return countTerms(posts.map(post => post.category));
+}
+
+export function filterByTagSlug(posts: BlogPost[], slug: string): BlogPost[] {
+  return posts.filter(post => post.tags.some(tag => slugifyTerm(tag) === slug));
+}
+
+export function filterByCategorySlug(posts: BlogPost[], slug: string): BlogPost[] {
+  return posts.filter(post => slugifyTerm(post.category) === slug);
+}
+
+function countTerms(names: string[]): TaxonomyTerm[] {
+  const terms = new Map<string, TaxonomyTerm>();
+
+  for (const name of names) {
+    const slug = slugifyTerm(name);
+    if (!slug) continue;
+
+    // The first spelling seen names the term
+    const term = terms.get(slug) || { name, slug, count: 0 };
+    term.count++;
+    terms.set(slug, term);
+  }
+
+  return Array.from(terms.values()).sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,72 @@
+/**
+ * Post Translations
+ *
+ * Every language version of a post shares a translation key: the id of
+ * the original, which translations name in `translationOf`. Explicit
+ * `alternates` (locale -> slug) still link posts written before
+ * translationOf existed. Pure helpers.
+ */
+
+import type { BlogPost } from '@/types';
+import { DEFAULT_LOCALE, SITE_LOCALES, getPostPath } from '@/lib/site';
+
+export function getPostLocale(post: BlogPost): string {
+  return post.locale || DEFAULT_LOCALE;
+}
+
+/**
+ * /[locale]/blog/[slug] in the post's own language
+ */
+export function getCanonicalPostPath(post: BlogPost): string {
+  return getPostPath(post.slug, getPostLocale(post));
+}
+
+export function getTranslationKey(post: BlogPost): string {
+  return post.translationOf || post.id;
+}
+
+export function filterByLocale(posts: BlogPost[], locale: string): BlogPost[] {
+  return posts.filter(post => getPostLocale(post) === locale);
+}
+
+/**
+ * Locale -> post for every version of `post` found in `posts`, itself
+ * included. The first version found per locale wins.
+ *
+ * @param posts - Candidates; pass public posts so drafts are never linked
+ */
+export function getPostTranslations(post: BlogPost, posts: BlogPost[]): Record<string, BlogPost> {
+  const key = getTranslationKey(post);
+  const bySlug = new Map(posts.map(p => [p.slug, p]));
+  const translations: Record<string, BlogPost> = { [getPostLocale(post)]: post };
+
+  for (const [locale, slug] of Object.entries(post.alternates || {})) {
+    const other = bySlug.get(slug);
+    if (other && !translations[locale]) {
+      translations[locale] = other;
+    }
+  }
+
+  for (const other of posts) {
+    const locale = getPostLocale(other);
+    if (other.id === post.id || translations[locale]) continue;
+
+    const linked = getTranslationKey(other) === key
+      || Object.values(other.alternates || {}).includes(post.slug);
+    if (linked) {
+      translations[locale] = other;
+    }
+  }
+
+  return translations;
+}
+
+/**
+ * Site locales `post` has no version in yet
+ *
+ * @param posts - Every post, drafts included, so pending translations count
+ */
+export function getMissingLocales(post: BlogPost, posts: BlogPost[], locales: string[] = SITE_LOCALES): string[] {
+  const translations = getPostTranslations(post, posts);
+  return locales.filter(locale => !translations[locale]);
+}
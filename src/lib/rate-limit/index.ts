@@ -0,0 +1,158 @@
+/**
+ * Rate Limiting
+ *
+ * Token-bucket limits for API routes (INV-API-001). Each client gets one
+ * bucket per route, keyed by its verified identity (see
+ * lib/auth/client): the admin key, otherwise the client IP.
+ *
+ * Limits come from RATE_LIMIT_RULES, overridable per route with
+ * RATE_LIMIT_<ROUTE>=<requests>/<seconds> (e.g. RATE_LIMIT_GENERATE=5/60,
+ * RATE_LIMIT_DEFAULT for the rest). The store follows RATE_LIMIT_STORE;
+ * only 'memory' exists so far.
+ */
+
+import { NextResponse } from 'next/server';
+import { getClientId } from '@/lib/auth/client';
+import { logger } from '@/lib/utils/logger';
+import { recordRateLimit } from '@/lib/utils/metrics';
+import { InMemoryRateLimitStore, type RateLimitResult, type RateLimitRule, type RateLimitStore } from './store';
+
+export * from './store';
+
+export type RateLimitStoreKind = 'memory';
+
+export const DEFAULT_RATE_LIMIT: RateLimitRule = { limit: 60, windowMs: 60_000 };
+
+/**
+ * Routes that call the LLM get less than the default, generation least
+ * (comment submissions go through the moderation model); comment
+ * reactions are capped since they drive the `top` sort
+ */
+export const RATE_LIMIT_RULES: Record<string, RateLimitRule> = {
+  '/api/ai/generate': { limit: 5, windowMs: 60_000 },
+  '/api/ai/orchestrate': { limit: 10, windowMs: 60_000 },
+  '/api/ai/summarize': { limit: 10, windowMs: 60_000 },
+  '/api/ai/analyze': { limit: 20, windowMs: 60_000 },
+  '/api/ai/chat': { limit: 20, windowMs: 60_000 },
+  '/api/posts/comments': { limit: 5, windowMs: 60_000 },
+  '/api/posts/comments/reactions': { limit: 30, windowMs: 60_000 },
+};
+
+export function getRateLimitRule(route: string): RateLimitRule {
+  const name = route.split('/').filter(Boolean).pop() || '';
+
+  return (
+    parseRule(process.env[`RATE_LIMIT_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`]) ||
+    RATE_LIMIT_RULES[route] ||
+    parseRule(process.env.RATE_LIMIT_DEFAULT) ||
+    DEFAULT_RATE_LIMIT
+  );
+}
+
+/**
+ * "<requests>/<seconds>", or undefined if unset or malformed
+ */
+function parseRule(value: string | undefined): RateLimitRule | undefined {
+  const match = value?.trim().match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (!match) return undefined;
+
+  const limit = Number(match[1]);
+  const seconds = Number(match[2]);
+  return limit > 0 && seconds > 0 ? { limit, windowMs: seconds * 1000 } : undefined;
+}
+
+export function createRateLimitStore(
+  kind: RateLimitStoreKind = (process.env.RATE_LIMIT_STORE as RateLimitStoreKind) || 'memory'
+): RateLimitStore {
+  switch (kind) {
+    case 'memory':
+      return new InMemoryRateLimitStore();
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE: ${kind}. Must be one of: memory`);
+  }
+}
+
+let rateLimitStore: RateLimitStore | null = null;
+
+/**
+ * Shared store used by API routes
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!rateLimitStore) {
+    rateLimitStore = createRateLimitStore();
+  }
+  return rateLimitStore;
+}
+
+/**
+ * Replace the shared store (tests); null starts a fresh one from config
+ */
+export function setRateLimitStore(store: RateLimitStore | null): void {
+  rateLimitStore = store;
+}
+
+/**
+ * X-RateLimit-* headers; Reset is in seconds from now, as is Retry-After
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(result.resetMs / 1000)),
+  };
+
+  if (!result.allowed) {
+    headers['Retry-After'] = String(Math.max(1, Math.ceil(result.retryAfterMs / 1000)));
+  }
+  return headers;
+}
+
+/**
+ * Wraps a route handler so each client's requests take a token first.
+ * Over the limit it answers 429 without running the handler; otherwise
+ * the handler's response gets the X-RateLimit-* headers. If the store
+ * fails, requests are let through rather than taking the API down.
+ */
+export function withRateLimit<TRequest extends Request, TArgs extends unknown[]>(
+  route: string,
+  handler: (request: TRequest, ...args: TArgs) => Promise<Response>,
+  rule: RateLimitRule = getRateLimitRule(route)
+): (request: TRequest, ...args: TArgs) => Promise<Response> {
+  return async (request, ...args) => {
+    const client = getClientId(request);
+    let result: RateLimitResult;
+
+    try {
+      result = await getRateLimitStore().take(`${route}:${client}`, rule);
+    } catch (error) {
+      logger.warn(`Rate limit store failed, allowing request: ${(error as Error).message}`, {
+        service: 'api',
+        operation: route,
+        timestamp: new Date(),
+      });
+      return handler(request, ...args);
+    }
+
+    recordRateLimit(route, result.allowed);
+
+    if (!result.allowed) {
+      logger.info('Rate limit exceeded', {
+        service: 'api',
+        operation: route,
+        timestamp: new Date(),
+        metadata: { client, limit: result.limit, windowMs: rule.windowMs },
+      });
+
+      return NextResponse.json(
+        { error: 'Too many requests, please try again later', code: 'RATE_LIMITED' },
+        { status: 429, headers: rateLimitHeaders(result) }
+      );
+    }
+
+    const response = await handler(request, ...args);
+    for (const [name, value] of Object.entries(rateLimitHeaders(result))) {
+      response.headers.set(name, value);
+    }
+    return response;
+  };
+}
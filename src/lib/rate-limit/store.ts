@@ -0,0 +1,120 @@
+/**
+ * Rate Limit Store
+ *
+ * Token buckets behind a single interface, so limits can be shared across
+ * instances by a store other than the in-memory one. A bucket holds up to
+ * `limit` tokens and refills continuously at `limit` per `windowMs`; each
+ * request takes one.
+ */
+
+// ============================================================================
+// Interface
+// ============================================================================
+
+export interface RateLimitRule {
+  /**
+   * Requests allowed in a burst, and per window once the bucket is empty
+   */
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  /**
+   * Whole tokens left after this request
+   */
+  remaining: number;
+  /**
+   * Milliseconds until the next token (0 when one is available)
+   */
+  retryAfterMs: number;
+  /**
+   * Milliseconds until the bucket is full again
+   */
+  resetMs: number;
+}
+
+export interface RateLimitStore {
+  /**
+   * Refills the bucket for `key` and takes one token if there is one, as
+   * a single step: concurrent requests must not spend the same token
+   */
+  take(key: string, rule: RateLimitRule, now?: number): Promise<RateLimitResult>;
+
+  /**
+   * Drops every bucket (tests)
+   */
+  clear(): Promise<void>;
+}
+
+export interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * The bucket after refilling up to `now` and taking a token if possible;
+ * shared by stores so they only differ in where buckets live
+ */
+export function takeToken(
+  bucket: TokenBucket | undefined,
+  rule: RateLimitRule,
+  now: number
+): { bucket: TokenBucket; result: RateLimitResult } {
+  const perMs = rule.limit / rule.windowMs;
+  const elapsed = bucket ? Math.max(0, now - bucket.updatedAt) : 0;
+  const available = bucket ? Math.min(rule.limit, bucket.tokens + elapsed * perMs) : rule.limit;
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+
+  return {
+    bucket: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      limit: rule.limit,
+      remaining: Math.floor(tokens),
+      retryAfterMs: tokens >= 1 ? 0 : Math.ceil((1 - tokens) / perMs),
+      resetMs: Math.ceil((rule.limit - tokens) / perMs),
+    },
+  };
+}
+
+// ============================================================================
+// In-memory implementation
+// ============================================================================
+
+/**
+ * Buckets in a Map, per process, at most `maxKeys` of them: the Map keeps
+ * buckets in order of last use, and the least recently used one is dropped
+ * to make room. Evicting a bucket only ever hands its client a full one.
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, TokenBucket>();
+
+  constructor(private readonly maxKeys = 10_000) {}
+
+  async take(key: string, rule: RateLimitRule, now = Date.now()): Promise<RateLimitResult> {
+    const { bucket, result } = takeToken(this.buckets.get(key), rule, now);
+
+    // Re-inserting moves the key to the most recently used end
+    this.buckets.delete(key);
+    this.buckets.set(key, bucket);
+
+    if (this.buckets.size > this.maxKeys) {
+      const oldest = this.buckets.keys().next().value as string;
+      this.buckets.delete(oldest);
+    }
+
+    return result;
+  }
+
+  async clear(): Promise<void> {
+    this.buckets.clear();
+  }
+
+  get size(): number {
+    return this.buckets.size;
+  }
+}
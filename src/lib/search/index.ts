@@ -0,0 +1,11 @@
+/**
+ * Search Module
+ *
+ * In-process full-text search: tokenizer, BM25 inverted index, snippets,
+ * and the post search used by /api/search and the chat skill.
+ */
+
+export * from './tokenizer';
+export * from './inverted-index';
+export * from './snippet';
+export * from './posts';
@@ -0,0 +1,163 @@
+/**
+ * Inverted Index
+ *
+ * In-process full-text index ranked with BM25. Documents have named
+ * fields with weights (a title hit counts more than a body hit); field
+ * term frequencies are combined before BM25 saturation, as in BM25F.
+ *
+ * Query terms also match index terms they are a prefix of ("type" finds
+ * "typescript"), at a discount so exact matches rank first.
+ */
+
+import { tokenize } from './tokenizer';
+
+export interface IndexedDocument {
+  id: string;
+  fields: Record<string, string>;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  /**
+   * Match index terms starting with a query term (default true)
+   */
+  prefix?: boolean;
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+  /**
+   * Index terms that matched, for highlighting
+   */
+  matchedTerms: string[];
+  /**
+   * Fraction of query terms that matched (0-1)
+   */
+  coverage: number;
+}
+
+const K1 = 1.2;
+const B = 0.75;
+const PREFIX_WEIGHT = 0.5;
+const MIN_PREFIX_LENGTH = 2;
+
+interface Posting {
+  docIndex: number;
+  weightedFrequency: number;
+}
+
+export class InvertedIndex {
+  private postings: Map<string, Posting[]> = new Map();
+  private vocabulary: string[] = [];
+  private docIds: string[] = [];
+  private docLengths: number[] = [];
+  private averageLength = 0;
+
+  constructor(private fieldWeights: Record<string, number>) {}
+
+  static build(documents: IndexedDocument[], fieldWeights: Record<string, number>): InvertedIndex {
+    const index = new InvertedIndex(fieldWeights);
+    documents.forEach(document => index.add(document));
+    index.finalize();
+    return index;
+  }
+
+  get size(): number {
+    return this.docIds.length;
+  }
+
+  search(query: string, options: SearchOptions = {}): SearchHit[] {
+    const { limit = 10, prefix = true } = options;
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0 || this.size === 0) return [];
+
+    const scores = new Map<number, { score: number; matched: Set<string>; queryHits: Set<string> }>();
+
+    for (const queryTerm of queryTerms) {
+      for (const [term, weight] of this.expand(queryTerm, prefix)) {
+        const postings = this.postings.get(term)!;
+        const idf = Math.log(1 + (this.size - postings.length + 0.5) / (postings.length + 0.5));
+
+        for (const { docIndex, weightedFrequency } of postings) {
+          const norm = K1 * (1 - B + B * (this.docLengths[docIndex] / this.averageLength));
+          const termScore = weight * idf * (weightedFrequency * (K1 + 1)) / (weightedFrequency + norm);
+
+          const entry = scores.get(docIndex) || { score: 0, matched: new Set<string>(), queryHits: new Set<string>() };
+          entry.score += termScore;
+          entry.matched.add(term);
+          entry.queryHits.add(queryTerm);
+          scores.set(docIndex, entry);
+        }
+      }
+    }
+
+    return Array.from(scores.entries())
+      .map(([docIndex, { score, matched, queryHits }]) => ({
+        id: this.docIds[docIndex],
+        score: Number(score.toFixed(4)),
+        matchedTerms: Array.from(matched),
+        coverage: Number((queryHits.size / queryTerms.length).toFixed(2)),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  private add(document: IndexedDocument): void {
+    const docIndex = this.docIds.length;
+    const frequencies = new Map<string, number>();
+    let length = 0;
+
+    for (const [field, text] of Object.entries(document.fields)) {
+      const weight = this.fieldWeights[field] ?? 1;
+      for (const term of tokenize(text)) {
+        frequencies.set(term, (frequencies.get(term) || 0) + weight);
+        length += weight;
+      }
+    }
+
+    frequencies.forEach((weightedFrequency, term) => {
+      const postings = this.postings.get(term) || [];
+      postings.push({ docIndex, weightedFrequency });
+      this.postings.set(term, postings);
+    });
+
+    this.docIds.push(document.id);
+    this.docLengths.push(length);
+  }
+
+  private finalize(): void {
+    this.vocabulary = Array.from(this.postings.keys()).sort();
+    const total = this.docLengths.reduce((sum, length) => sum + length, 0);
+    this.averageLength = this.size > 0 ? total / this.size || 1 : 1;
+  }
+
+  /**
+   * Index terms matched by a query term, with their weight
+   */
+  private expand(queryTerm: string, prefix: boolean): Array<[string, number]> {
+    const terms: Array<[string, number]> = [];
+    if (this.postings.has(queryTerm)) {
+      terms.push([queryTerm, 1]);
+    }
+
+    if (!prefix || queryTerm.length < MIN_PREFIX_LENGTH) return terms;
+
+    // Vocabulary is sorted: terms sharing the prefix are contiguous
+    let low = 0;
+    let high = this.vocabulary.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.vocabulary[mid] < queryTerm) low = mid + 1;
+      else high = mid;
+    }
+
+    for (let i = low; i < this.vocabulary.length && this.vocabulary[i].startsWith(queryTerm); i++) {
+      if (this.vocabulary[i] !== queryTerm) {
+        terms.push([this.vocabulary[i], PREFIX_WEIGHT]);
+      }
+    }
+
+    return terms;
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Post Search
+ *
+ * Full-text search over public posts. The index is built lazily from the
+ * shared post store and rebuilt once it is older than INDEX_TTL_MS, so
+ * newly published or scheduled posts show up without a restart.
+ */
+
+import type { BlogPost } from '@/types';
+import { listPublicPosts } from '../posts';
+import { InvertedIndex, type SearchOptions } from './inverted-index';
+import { buildSnippet, highlightText, stripMarkdown } from './snippet';
+import { tokenize } from './tokenizer';
+
+const INDEX_TTL_MS = 60 * 1000;
+
+const FIELD_WEIGHTS = {
+  title: 3,
+  tags: 2.5,
+  excerpt: 1.5,
+  body: 1,
+};
+
+export interface PostSearchResult {
+  post: BlogPost;
+  score: number;
+  coverage: number;
+  /**
+   * HTML with matches wrapped in <mark>
+   */
+  highlightedTitle: string;
+  snippet: string;
+}
+
+interface PostIndex {
+  index: InvertedIndex;
+  posts: Map<string, BlogPost>;
+  bodies: Map<string, string>;
+  bodyTerms: Map<string, Set<string>>;
+  builtAt: number;
+}
+
+let postIndex: Promise<PostIndex> | null = null;
+
+async function buildPostIndex(): Promise<PostIndex> {
+  const posts = await listPublicPosts();
+  const bodies = new Map(posts.map(post => [post.id, stripMarkdown(post.content)]));
+
+  const index = InvertedIndex.build(
+    posts.map(post => ({
+      id: post.id,
+      fields: {
+        title: post.title,
+        tags: post.tags.join(' '),
+        excerpt: post.excerpt,
+        body: bodies.get(post.id)!,
+      },
+    })),
+    FIELD_WEIGHTS
+  );
+
+  return {
+    index,
+    posts: new Map(posts.map(post => [post.id, post])),
+    bodies,
+    bodyTerms: new Map(Array.from(bodies, ([id, body]) => [id, new Set(tokenize(body))])),
+    builtAt: Date.now(),
+  };
+}
+
+async function getPostIndex(): Promise<PostIndex> {
+  const current = postIndex ? await postIndex.catch(() => null) : null;
+
+  if (!current || Date.now() - current.builtAt > INDEX_TTL_MS) {
+    postIndex = buildPostIndex();
+  }
+
+  return postIndex!;
+}
+
+/**
+ * Drop the cached index (after bulk edits, and in tests)
+ */
+export function invalidatePostSearchIndex(): void {
+  postIndex = null;
+}
+
+export async function searchPosts(query: string, options: SearchOptions = {}): Promise<PostSearchResult[]> {
+  const { index, posts, bodies, bodyTerms } = await getPostIndex();
+
+  return index.search(query, options).map(hit => {
+    const post = posts.get(hit.id)!;
+    // Title or tag-only matches fall back to the excerpt
+    const bodyHasMatch = hit.matchedTerms.some(term => bodyTerms.get(hit.id)!.has(term));
+
+    return {
+      post,
+      score: hit.score,
+      coverage: hit.coverage,
+      highlightedTitle: highlightText(post.title, hit.matchedTerms),
+      snippet: buildSnippet(bodyHasMatch ? bodies.get(post.id)! : post.excerpt, hit.matchedTerms),
+    };
+  });
+}
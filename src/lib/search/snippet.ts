@@ -0,0 +1,95 @@
+/**
+ * Search Snippets
+ *
+ * Cuts a window of text around the first matched term and wraps every
+ * matched word in <mark>. Output is HTML: the source text is escaped
+ * before highlighting, so it is safe to render.
+ */
+
+import { foldText } from './tokenizer';
+
+const DEFAULT_SNIPPET_LENGTH = 180;
+const LEAD_CONTEXT = 60;
+
+// Latin letters including accented ones (covers English and Spanish)
+const WORD_PATTERN = /[a-z0-9\u00c0-\u00d6\u00d8-\u00f6\u00f8-\u024f]+/gi;
+
+/**
+ * Plain text from markdown: drops syntax, keeps link and image text
+ */
+export function stripMarkdown(markdown: string): string {
+  return markdown
+    .replace(/^```.*$/gm, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*_`~]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Wrap every word whose folded form is one of `terms` in <mark>
+ */
+export function highlightText(text: string, terms: string[]): string {
+  return renderRange(text, 0, text.length, new Set(terms));
+}
+
+/**
+ * Highlighted excerpt around the first match (the start of the text
+ * when nothing matches)
+ */
+export function buildSnippet(
+  text: string,
+  terms: string[],
+  maxLength: number = DEFAULT_SNIPPET_LENGTH
+): string {
+  const matched = new Set(terms);
+  let firstMatch = 0;
+
+  for (const match of Array.from(text.matchAll(WORD_PATTERN))) {
+    if (matched.has(foldText(match[0]))) {
+      firstMatch = match.index!;
+      break;
+    }
+  }
+
+  let start = Math.max(0, firstMatch - LEAD_CONTEXT);
+  if (start > 0) {
+    // Start on a word boundary
+    const space = text.indexOf(' ', start);
+    start = space !== -1 && space < firstMatch ? space + 1 : firstMatch;
+  }
+
+  let end = Math.min(text.length, start + maxLength);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > start) end = space;
+  }
+
+  return `${start > 0 ? '…' : ''}${renderRange(text, start, end, matched)}${end < text.length ? '…' : ''}`;
+}
+
+function renderRange(text: string, start: number, end: number, matched: Set<string>): string {
+  const slice = text.slice(start, end);
+  let html = '';
+  let last = 0;
+
+  for (const match of Array.from(slice.matchAll(WORD_PATTERN))) {
+    if (!matched.has(foldText(match[0]))) continue;
+
+    html += escapeHtml(slice.slice(last, match.index)) + `<mark>${escapeHtml(match[0])}</mark>`;
+    last = match.index! + match[0].length;
+  }
+
+  return html + escapeHtml(slice.slice(last));
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
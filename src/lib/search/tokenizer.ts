@@ -0,0 +1,35 @@
+/**
+ * Search Tokenizer
+ *
+ * Lowercases, folds accents (so "programación" matches "programacion")
+ * and drops common English and Spanish stop words. Index and query text
+ * go through the same pipeline.
+ */
+
+const STOP_WORDS = new Set([
+  // English
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'how', 'if', 'in',
+  'into', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'their', 'then', 'there',
+  'these', 'this', 'to', 'was', 'what', 'when', 'where', 'which', 'who', 'why', 'will',
+  'with', 'you', 'your',
+  // Spanish
+  'al', 'como', 'con', 'de', 'del', 'el', 'en', 'es', 'esta', 'este', 'la', 'las', 'lo',
+  'los', 'mas', 'para', 'pero', 'por', 'que', 'se', 'sin', 'sobre', 'su', 'sus', 'un',
+  'una', 'unos', 'unas', 'y',
+]);
+
+/**
+ * Lowercase and strip diacritics
+ */
+export function foldText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Split text into index terms
+ */
+export function tokenize(text: string): string[] {
+  return foldText(text)
+    .split(/[^a-z0-9\u00df-\u00f6\u00f8-\u024f]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+}
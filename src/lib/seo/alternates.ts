@@ -0,0 +1,30 @@
+/**
+ * Language Alternates
+ *
+ * hreflang links between posts that are translations of each other (see
+ * ../posts/translations). Links are reciprocal, since search engines
+ * ignore one-way hreflang. Only public posts take part, so a draft
+ * translation is never linked.
+ */
+
+import type { BlogPost } from '@/types';
+import { DEFAULT_LOCALE } from '@/lib/site';
+import { getCanonicalPostPath, getPostTranslations } from '@/lib/posts/translations';
+
+/**
+ * Locale -> path for every version of `post`, plus x-default. Empty when
+ * the post has no public translation.
+ *
+ * @param posts - Public posts (translations are looked up here)
+ */
+export function getLanguageAlternates(post: BlogPost, posts: BlogPost[]): Record<string, string> {
+  const translations = Object.entries(getPostTranslations(post, posts));
+  if (translations.length < 2) return {};
+
+  const languages: Record<string, string> = Object.fromEntries(
+    translations.map(([locale, translation]) => [locale, getCanonicalPostPath(translation)])
+  );
+
+  languages['x-default'] = languages[DEFAULT_LOCALE] || getCanonicalPostPath(post);
+  return languages;
+}
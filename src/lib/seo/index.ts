@@ -0,0 +1,10 @@
+/**
+ * SEO Module
+ *
+ * Sitemap generation, hreflang alternates, and social/structured
+ * metadata for posts.
+ */
+
+export * from './alternates';
+export * from './sitemap';
+export * from './metadata';
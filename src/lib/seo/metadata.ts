@@ -0,0 +1,160 @@
+/**
+ * Post Metadata
+ *
+ * Open Graph, Twitter card and JSON-LD BlogPosting for post pages. Posts
+ * without an imageUrl get a generated card at /blog/[slug]/og.png.
+ * describePostMetadata() reports the same data in the shape
+ * AnalyzeSEOSkill checks, so the analysis sees what the page emits.
+ */
+
+import type { Metadata } from 'next';
+import type { BlogPost } from '@/types';
+import type { PageMetadataInfo } from '@/lib/skills/analyze_seo';
+import { getEffectivePublishDate } from '@/lib/posts/lifecycle';
+import { stripMarkdown } from '@/lib/search/snippet';
+import { getCanonicalPostPath, getPostLocale } from '@/lib/posts/translations';
+import { getSiteUrl, SITE_TITLE } from '@/lib/site';
+
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 };
+
+/**
+ * A type rather than an interface so it stays assignable to the plain
+ * JSON-LD records PageMetadataInfo takes
+ */
+export type BlogPostingJsonLd = {
+  '@context': 'https://schema.org';
+  '@type': 'BlogPosting';
+  headline: string;
+  description: string;
+  image: string;
+  url: string;
+  mainEntityOfPage: { '@type': 'WebPage'; '@id': string };
+  author: { '@type': 'Person'; name: string };
+  publisher: { '@type': 'Organization'; name: string; url: string };
+  datePublished: string;
+  dateModified: string;
+  keywords: string;
+  articleSection: string;
+  inLanguage: string;
+  wordCount: number;
+};
+
+/**
+ * Served from /blog/[slug]/og.png whatever the post's language
+ */
+export function getOgImagePath(slug: string): string {
+  return `/blog/${slug}/og.png`;
+}
+
+/**
+ * Absolute URL of the post's social image
+ */
+export function getPostImageUrl(post: BlogPost, siteUrl: string = getSiteUrl()): string {
+  if (!post.imageUrl) return `${siteUrl}${getOgImagePath(post.slug)}`;
+  if (/^https?:\/\//.test(post.imageUrl)) return post.imageUrl;
+  return `${siteUrl}${post.imageUrl.startsWith('/') ? '' : '/'}${post.imageUrl}`;
+}
+
+function getModifiedDate(post: BlogPost): Date {
+  const published = getEffectivePublishDate(post);
+  return post.updatedAt > published ? post.updatedAt : published;
+}
+
+export function buildBlogPostingJsonLd(post: BlogPost, siteUrl: string = getSiteUrl()): BlogPostingJsonLd {
+  const url = `${siteUrl}${getCanonicalPostPath(post)}`;
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'BlogPosting',
+    headline: post.title,
+    description: post.excerpt,
+    image: getPostImageUrl(post, siteUrl),
+    url,
+    mainEntityOfPage: { '@type': 'WebPage', '@id': url },
+    author: { '@type': 'Person', name: post.author },
+    publisher: { '@type': 'Organization', name: SITE_TITLE, url: siteUrl },
+    datePublished: getEffectivePublishDate(post).toISOString(),
+    dateModified: getModifiedDate(post).toISOString(),
+    keywords: post.tags.join(', '),
+    articleSection: post.category,
+    inLanguage: getPostLocale(post),
+    wordCount: stripMarkdown(post.content).split(/\s+/).filter(Boolean).length,
+  };
+}
+
+/**
+ * JSON for a <script type="application/ld+json">; "<" is escaped so
+ * post text cannot close the script element
+ */
+export function serializeJsonLd(data: object): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c');
+}
+
+/**
+ * Full page metadata for a post
+ *
+ * @param languages - hreflang alternates (see getLanguageAlternates)
+ */
+export function buildPostMetadata(
+  post: BlogPost,
+  languages: Record<string, string> = {},
+  siteUrl: string = getSiteUrl()
+): Metadata {
+  const url = `${siteUrl}${getCanonicalPostPath(post)}`;
+  const image = getPostImageUrl(post, siteUrl);
+
+  return {
+    title: `${post.title} | ${SITE_TITLE}`,
+    description: post.excerpt,
+    keywords: post.tags,
+    authors: [{ name: post.author }],
+    alternates: {
+      canonical: getCanonicalPostPath(post),
+      languages,
+    },
+    openGraph: {
+      type: 'article',
+      title: post.title,
+      description: post.excerpt,
+      url,
+      siteName: SITE_TITLE,
+      locale: getPostLocale(post),
+      publishedTime: getEffectivePublishDate(post).toISOString(),
+      modifiedTime: getModifiedDate(post).toISOString(),
+      authors: [post.author],
+      section: post.category,
+      tags: post.tags,
+      images: [{ url: image, ...OG_IMAGE_SIZE, alt: post.title }],
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title: post.title,
+      description: post.excerpt,
+      images: [image],
+    },
+  };
+}
+
+/**
+ * What the post page emits, as checked by AnalyzeSEOSkill
+ */
+export function describePostMetadata(post: BlogPost, siteUrl: string = getSiteUrl()): PageMetadataInfo {
+  const image = getPostImageUrl(post, siteUrl);
+
+  return {
+    openGraph: {
+      title: post.title,
+      description: post.excerpt,
+      type: 'article',
+      url: `${siteUrl}${getCanonicalPostPath(post)}`,
+      image,
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title: post.title,
+      description: post.excerpt,
+      image,
+    },
+    jsonLd: [buildBlogPostingJsonLd(post, siteUrl)],
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * XML Sitemap
+ *
+ * Served from a route handler rather than app/sitemap.ts: Next.js 14's
+ * MetadataRoute.Sitemap cannot express image entries. Includes
+ * xhtml:link hreflang alternates and image:image per post.
+ *
+ * https://www.sitemaps.org/protocol.html
+ */
+
+import type { BlogPost } from '@/types';
+import { getCategoryTerms, getCategoryUrl, getTagTerms, getTagUrl } from '@/lib/posts/taxonomy';
+import { getEffectivePublishDate, isPostPublic } from '@/lib/posts/lifecycle';
+import { escapeXml } from '@/lib/feeds/xml';
+import { getCanonicalPostPath } from '@/lib/posts/translations';
+import { getLocaleBlogPath, getSiteUrl, SITE_LOCALES } from '@/lib/site';
+import { getLanguageAlternates } from './alternates';
+
+export interface SitemapEntry {
+  url: string;
+  lastModified?: Date;
+  changeFrequency?: 'daily' | 'weekly' | 'monthly';
+  priority?: number;
+  /**
+   * hreflang -> absolute URL
+   */
+  languages?: Record<string, string>;
+  /**
+   * Absolute image URLs
+   */
+  images?: string[];
+}
+
+function toAbsolute(pathOrUrl: string, siteUrl: string): string {
+  return /^https?:\/\//.test(pathOrUrl) ? pathOrUrl : `${siteUrl}${pathOrUrl.startsWith('/') ? '' : '/'}${pathOrUrl}`;
+}
+
+function getLastModified(post: BlogPost): Date {
+  const published = getEffectivePublishDate(post);
+  return post.updatedAt > published ? post.updatedAt : published;
+}
+
+/**
+ * Sitemap entries for the listing pages and every public post. Posts
+ * that are not public at `now` are dropped even if passed in.
+ */
+export function buildSitemapEntries(
+  posts: BlogPost[],
+  siteUrl: string = getSiteUrl(),
+  now: Date = new Date()
+): SitemapEntry[] {
+  const publicPosts = posts.filter(post => isPostPublic(post, now));
+  const latest = publicPosts.reduce<Date | undefined>((max, post) => {
+    const modified = getLastModified(post);
+    return !max || modified > max ? modified : max;
+  }, undefined);
+
+  const listing = (path: string, priority: number): SitemapEntry => ({
+    url: `${siteUrl}${path}`,
+    lastModified: latest,
+    changeFrequency: 'weekly',
+    priority,
+  });
+
+  const postEntries = publicPosts.map((post): SitemapEntry => {
+    const languages = Object.entries(getLanguageAlternates(post, publicPosts));
+
+    return {
+      url: `${siteUrl}${getCanonicalPostPath(post)}`,
+      lastModified: getLastModified(post),
+      changeFrequency: 'monthly',
+      priority: 0.8,
+      languages: languages.length > 0
+        ? Object.fromEntries(languages.map(([locale, path]) => [locale, `${siteUrl}${path}`]))
+        : undefined,
+      images: post.imageUrl ? [toAbsolute(post.imageUrl, siteUrl)] : undefined,
+    };
+  });
+
+  return [
+    listing('/', 1),
+    listing('/blog', 0.9),
+    ...SITE_LOCALES.map(locale => listing(getLocaleBlogPath(locale), 0.9)),
+    listing('/blog/tags', 0.5),
+    ...getTagTerms(publicPosts).map(term => listing(getTagUrl(term.name), 0.5)),
+    ...getCategoryTerms(publicPosts).map(term => listing(getCategoryUrl(term.name), 0.6)),
+    ...postEntries,
+  ];
+}
+
+export function renderSitemap(entries: SitemapEntry[]): string {
+  const urls = entries.map(entry => [
+    '  <url>',
+    `    <loc>${escapeXml(entry.url)}</loc>`,
+    ...(entry.lastModified ? [`    <lastmod>${entry.lastModified.toISOString()}</lastmod>`] : []),
+    ...(entry.changeFrequency ? [`    <changefreq>${entry.changeFrequency}</changefreq>`] : []),
+    ...(entry.priority !== undefined ? [`    <priority>${entry.priority.toFixed(1)}</priority>`] : []),
+    ...Object.entries(entry.languages || {}).map(([locale, href]) =>
+      `    <xhtml:link rel="alternate" hreflang="${escapeXml(locale)}" href="${escapeXml(href)}"/>`
+    ),
+    ...(entry.images || []).map(image =>
+      `    <image:image><image:loc>${escapeXml(image)}</image:loc></image:image>`
+    ),
+    '  </url>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">',
+    ...urls,
+    '</urlset>',
+    '',
+  ].join('\n');
+}
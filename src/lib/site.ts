@@ -0,0 +1,38 @@
+/**
+ * Site Configuration
+ *
+ * Identity, languages and absolute URLs shared by feeds, sitemaps and
+ * metadata.
+ */
+
+export const SITE_TITLE = 'Guido Miranda Blog';
+export const SITE_DESCRIPTION = 'Personal blog about software development, AI, and technology';
+export const SITE_AUTHOR = 'Guido Miranda';
+
+/**
+ * Language of posts that do not declare a locale
+ */
+export const DEFAULT_LOCALE = 'en';
+
+/**
+ * Languages the site is published in; each gets /[locale]/blog
+ */
+export const SITE_LOCALES = ['en', 'es'];
+
+/**
+ * Absolute site origin, without a trailing slash
+ */
+export function getSiteUrl(): string {
+  return (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/+$/, '');
+}
+
+export function getLocaleBlogPath(locale: string = DEFAULT_LOCALE): string {
+  return `/${locale}/blog`;
+}
+
+/**
+ * Canonical path of a post; /blog/[slug] redirects here
+ */
+export function getPostPath(slug: string, locale: string = DEFAULT_LOCALE): string {
+  return `${getLocaleBlogPath(locale)}/${slug}`;
+}
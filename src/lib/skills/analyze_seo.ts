@@ -20,6 +20,7 @@ export interface AnalyzeSEOInput {
     checkImages?: boolean;
     checkLinks?: boolean;
     checkMobile?: boolean;
+    checkStructuredData?: boolean;
   };
 }
 
@@ -31,6 +32,7 @@ export interface SEOContent {
   tags?: string[];
   images?: ImageInfo[];
   links?: LinkInfo[];
+  metadata?: PageMetadataInfo;
 }
 
 export interface ImageInfo {
@@ -45,6 +47,29 @@ export interface LinkInfo {
   internal: boolean;
 }
 
+/**
+ * Social and structured-data metadata rendered with the page
+ */
+export interface PageMetadataInfo {
+  openGraph?: {
+    title?: string;
+    description?: string;
+    type?: string;
+    url?: string;
+    image?: string;
+  };
+  twitter?: {
+    card?: string;
+    title?: string;
+    description?: string;
+    image?: string;
+  };
+  /**
+   * JSON-LD blocks embedded in the page
+   */
+  jsonLd?: Array<Record<string, unknown>>;
+}
+
 export interface AnalyzeSEOOutput {
   score: number;
   analysis: SEOAnalysis;
@@ -121,6 +146,7 @@ export interface TechnicalAnalysis {
   images: ImageSEOAnalysis;
   links: LinkSEOAnalysis;
   slug: SlugAnalysis;
+  structuredData: StructuredDataAnalysis;
   suggestions: string[];
 }
 
@@ -144,6 +170,20 @@ export interface SlugAnalysis {
   valid: boolean;
 }
 
+export interface StructuredDataAnalysis {
+  /**
+   * False when no metadata was supplied
+   */
+  checked: boolean;
+  openGraph: boolean;
+  twitterCard: boolean;
+  jsonLd: boolean;
+  /**
+   * Missing fields, e.g. "og:image" or "BlogPosting.author"
+   */
+  missing: string[];
+}
+
 export interface SEOIssue {
   category: 'title' | 'meta' | 'content' | 'keywords' | 'readability' | 'technical';
   severity: 'low' | 'medium' | 'high' | 'critical';
@@ -273,6 +313,7 @@ export class AnalyzeSEOSkill extends BaseSkill<AnalyzeSEOInput, AnalyzeSEOOutput
       checkReadability: input.options?.checkReadability ?? true,
       checkImages: input.options?.checkImages ?? true,
       checkLinks: input.options?.checkLinks ?? true,
+      checkStructuredData: input.options?.checkStructuredData ?? true,
       checkMobile: input.options?.checkMobile ?? false
     };
     
@@ -316,7 +357,8 @@ export class AnalyzeSEOSkill extends BaseSkill<AnalyzeSEOInput, AnalyzeSEOOutput
     const technicalAnalysis = this.analyzeTechnical(
       input.content,
       options.checkImages,
-      options.checkLinks
+      options.checkLinks,
+      options.checkStructuredData
     );
     checksPerformed.push('technical');
     
@@ -616,7 +658,12 @@ export class AnalyzeSEOSkill extends BaseSkill<AnalyzeSEOInput, AnalyzeSEOOutput
     return syllableMatches ? syllableMatches.length : 1;
   }
   
-  private analyzeTechnical(content: SEOContent, checkImages: boolean, checkLinks: boolean): TechnicalAnalysis {
+  private analyzeTechnical(
+    content: SEOContent,
+    checkImages: boolean,
+    checkLinks: boolean,
+    checkStructuredData: boolean
+  ): TechnicalAnalysis {
     const suggestions: string[] = [];
     let score = 50;
     
@@ -697,15 +744,66 @@ export class AnalyzeSEOSkill extends BaseSkill<AnalyzeSEOInput, AnalyzeSEOOutput
       suggestions.push('Add a URL slug for better SEO.');
     }
     
+    // Open Graph, Twitter card and JSON-LD
+    const structuredDataAnalysis = this.analyzeStructuredData(
+      checkStructuredData ? content.metadata : undefined
+    );
+    
+    if (structuredDataAnalysis.checked) {
+      if (structuredDataAnalysis.missing.length === 0) {
+        score += 10;
+      } else {
+        suggestions.push(`Add missing social/structured metadata: ${structuredDataAnalysis.missing.join(', ')}.`);
+      }
+    }
+    
     return {
       score: Math.min(100, score),
       images: imageAnalysis,
       links: linkAnalysis,
       slug: slugAnalysis,
+      structuredData: structuredDataAnalysis,
       suggestions
     };
   }
   
+  private analyzeStructuredData(metadata?: PageMetadataInfo): StructuredDataAnalysis {
+    if (!metadata) {
+      return { checked: false, openGraph: false, twitterCard: false, jsonLd: false, missing: [] };
+    }
+    
+    const missing: string[] = [];
+    
+    const og = metadata.openGraph || {};
+    for (const field of ['title', 'description', 'type', 'url', 'image'] as const) {
+      if (!og[field]) missing.push(`og:${field}`);
+    }
+    
+    const twitter = metadata.twitter || {};
+    for (const field of ['card', 'title', 'image'] as const) {
+      if (!twitter[field]) missing.push(`twitter:${field}`);
+    }
+    
+    const posting = (metadata.jsonLd || []).find(block =>
+      ['BlogPosting', 'Article', 'NewsArticle'].includes(String(block['@type']))
+    );
+    if (!posting) {
+      missing.push('BlogPosting');
+    } else {
+      for (const field of ['headline', 'author', 'datePublished', 'image']) {
+        if (!posting[field]) missing.push(`${posting['@type']}.${field}`);
+      }
+    }
+    
+    return {
+      checked: true,
+      openGraph: !missing.some(field => field.startsWith('og:')),
+      twitterCard: !missing.some(field => field.startsWith('twitter:')),
+      jsonLd: posting !== undefined && !missing.some(field => field.startsWith(`${posting['@type']}.`)),
+      missing
+    };
+  }
+  
   // ====================================
   // Scoring & Recommendations
   // ====================================
@@ -795,6 +893,15 @@ export class AnalyzeSEOSkill extends BaseSkill<AnalyzeSEOInput, AnalyzeSEOOutput
       }
     }
     
+    if (analysis.technical.structuredData.missing.length > 0) {
+      issues.push({
+        category: 'technical',
+        severity: 'medium',
+        message: `Missing social/structured metadata: ${analysis.technical.structuredData.missing.join(', ')}`,
+        impact: 4
+      });
+    }
+    
     return issues;
   }
   
@@ -820,7 +927,9 @@ export class AnalyzeSEOSkill extends BaseSkill<AnalyzeSEOInput, AnalyzeSEOOutput
       } else if (issue.category === 'readability') {
         description = `Simplify your content by using shorter sentences and simpler words.`;
       } else if (issue.category === 'technical') {
-        description = `Add descriptive alt text to all images for better accessibility and SEO.`;
+        description = issue.message.includes('metadata')
+          ? `Emit Open Graph and Twitter card tags plus a JSON-LD BlogPosting so shared links get a preview and rich snippet.`
+          : `Add descriptive alt text to all images for better accessibility and SEO.`;
       }
       
       const priority = issue.severity === 'critical' || issue.severity === 'high' ? 'high' :
@@ -3,6 +3,18 @@
  * Following PROTOCOL-002 (Skill Execution Protocol)
  */
 
+import { extractHeadings } from '../posts/headings';
+import {
+  BudgetExceededError,
+  BudgetedLLMProvider,
+  calculateCost,
+  getBudgetLedger,
+  getLLMProvider,
+  type LLMProvider,
+  type LLMUsage
+} from '../llm';
+import { recordSkillExecution } from '../utils/metrics';
+
 // ============================================================================
 // PROTOCOL-002: Skill Execution Protocol
 // ============================================================================
@@ -26,6 +38,20 @@ export interface ExecutionContext {
   sessionId?: string;
   environment: 'development' | 'staging' | 'production';
   timestamp: Date;
+  /**
+   * Spending cap for the whole request (every execution sharing the
+   * trace id); defaults to LLM_BUDGET_REQUEST_USD
+   */
+  budgetUSD?: number;
+  /**
+   * Model usage of this execution so far (see BaseSkill.trackUsage)
+   */
+  usage: ExecutionUsage;
+}
+
+export interface ExecutionUsage {
+  tokens: number;
+  costUSD: number;
 }
 
 export interface SkillError {
@@ -119,6 +145,7 @@ export abstract class BaseSkill<TInput, TOutput> implements Skill<TInput, TOutpu
   async execute(input: TInput, contextOverride?: Partial<ExecutionContext>): Promise<TOutput> {
     const startTime = Date.now();
     const context = this.buildContext(contextOverride);
+    let success = false;
     
     try {
       // Validate preconditions
@@ -157,6 +184,7 @@ export abstract class BaseSkill<TInput, TOutput> implements Skill<TInput, TOutpu
         );
       }
       
+      success = true;
       return output;
       
     } catch (error) {
@@ -164,6 +192,11 @@ export abstract class BaseSkill<TInput, TOutput> implements Skill<TInput, TOutpu
         throw error;
       }
       
+      // Rejected before reaching the model: keep the budget's own code
+      if (error instanceof BudgetExceededError) {
+        throw new SkillExecutionError(error.code, error.message, false, error.details);
+      }
+      
       // Wrap unexpected errors
       throw new SkillExecutionError(
         'EXECUTION_FAILED',
@@ -171,6 +204,9 @@ export abstract class BaseSkill<TInput, TOutput> implements Skill<TInput, TOutpu
         true,
         { originalError: error }
       );
+    } finally {
+      // Model calls are paid for even when validation then fails
+      recordSkillExecution(this.id, Date.now() - startTime, success, context.usage.tokens, context.usage.costUSD);
     }
   }
   
@@ -204,10 +240,43 @@ export abstract class BaseSkill<TInput, TOutput> implements Skill<TInput, TOutpu
       userId: override?.userId,
       sessionId: override?.sessionId,
       environment: override?.environment || (process.env.NODE_ENV === 'production' ? 'production' : 'development'),
-      timestamp: new Date()
+      timestamp: new Date(),
+      budgetUSD: override?.budgetUSD,
+      usage: { tokens: 0, costUSD: 0 }
     };
   }
   
+  /**
+   * The shared LLM provider, charging every call to the request's budget.
+   * Failed and aborted calls are tracked here, as the skill never sees them.
+   */
+  protected llm(context: ExecutionContext): LLMProvider {
+    return new BudgetedLLMProvider(
+      getLLMProvider(),
+      getBudgetLedger(),
+      {
+        requestId: context.traceId,
+        userId: context.userId,
+        limitUSD: context.budgetUSD
+      },
+      (model, usage) => this.trackUsage(context, model, usage)
+    );
+  }
+  
+  /**
+   * Adds one model call to the execution's usage, priced by the model
+   * that answered, and returns its cost
+   */
+  protected trackUsage(context: ExecutionContext, model: string, usage?: LLMUsage): number {
+    if (!usage) return 0;
+    
+    const costUSD = calculateCost(usage, model);
+    context.usage.tokens += usage.total_tokens;
+    context.usage.costUSD += costUSD;
+    
+    return costUSD;
+  }
+  
   private generateTraceId(): string {
     return `trace-${this.id}-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
   }
@@ -233,21 +302,6 @@ export class SkillExecutionError extends Error {
 // Utility Functions
 // ============================================================================
 
-export function calculateCost(usage: { prompt_tokens: number; completion_tokens: number }, model: string): number {
-  // OpenAI pricing (as of 2024)
-  const pricing: Record<string, { input: number; output: number }> = {
-    'gpt-4o': { input: 5.00, output: 15.00 },     // per 1M tokens
-    'gpt-4o-mini': { input: 0.15, output: 0.60 }, // per 1M tokens
-  };
-  
-  const modelPricing = pricing[model] || pricing['gpt-4o-mini'];
-  
-  const inputCost = (usage.prompt_tokens / 1_000_000) * modelPricing.input;
-  const outputCost = (usage.completion_tokens / 1_000_000) * modelPricing.output;
-  
-  return Number((inputCost + outputCost).toFixed(6));
-}
-
 export function generateSlug(title: string): string {
   return title
     .toLowerCase()
@@ -266,11 +320,11 @@ export function countParagraphs(text: string): number {
 }
 
 export function extractHeadingStructure(markdown: string): { h1: number; h2: number; h3: number } {
-  const headings = markdown.match(/^#{1,6}\s+.+$/gm) || [];
+  const headings = extractHeadings(markdown);
   
   return {
-    h1: headings.filter(h => h.startsWith('# ')).length,
-    h2: headings.filter(h => h.startsWith('## ')).length,
-    h3: headings.filter(h => h.startsWith('### ')).length
+    h1: headings.filter(h => h.depth === 1).length,
+    h2: headings.filter(h => h.depth === 2).length,
+    h3: headings.filter(h => h.depth === 3).length
   };
 }
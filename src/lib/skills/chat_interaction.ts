@@ -6,7 +6,8 @@
  */
 
 import { BaseSkill, ValidationError, countWords } from './base';
-import { openai } from '../openai/client';
+import { getPostLocale } from '../posts/translations';
+import { searchPosts } from '../search';
 
 // ============================================================================
 // Types
@@ -36,6 +37,15 @@ export interface ChatOptions {
   maxResponseLength?: number;
   citeSources?: boolean;
   personality?: 'professional' | 'friendly' | 'concise';
+  /**
+   * Streams the response as it is generated; the full output is still
+   * returned once validated
+   */
+  onToken?: (token: string) => void;
+  /**
+   * Aborts the model request (e.g. when the reader disconnects)
+   */
+  signal?: AbortSignal;
 }
 
 export interface ChatInteractionOutput {
@@ -56,6 +66,10 @@ export interface Source {
   postId: string;
   title: string;
   slug: string;
+  /**
+   * The post's language, for links to /[locale]/blog/[slug]
+   */
+  locale: string;
   excerpt: string;
   relevanceScore: number;
 }
@@ -193,7 +207,7 @@ export class ChatInteractionSkill extends BaseSkill<ChatInteractionInput, ChatIn
     const userPrompt = this.buildUserPrompt(input, sources);
     
     // Step 4: Generate response
-    const completionResponse = await openai.chat.completions.create({
+    const { content: response, usage, model } = await this.llm(context).complete({
       model: 'gpt-4o-mini',
       messages: [
         { role: 'system', content: systemPrompt },
@@ -201,13 +215,13 @@ export class ChatInteractionSkill extends BaseSkill<ChatInteractionInput, ChatIn
         { role: 'user', content: userPrompt }
       ],
       temperature: personality === 'professional' ? 0.5 : 0.7,
-      max_tokens: Math.ceil(maxResponseLength * 1.5),
-      presence_penalty: 0.2,
-      frequency_penalty: 0.2
+      maxTokens: Math.ceil(maxResponseLength * 1.5),
+      presencePenalty: 0.2,
+      frequencyPenalty: 0.2,
+      onToken: options.onToken,
+      signal: options.signal
     });
     
-    const response = completionResponse.choices[0].message.content || '';
-    
     // Step 5: Generate follow-up suggestions
     const suggestions = this.generateSuggestions(input.message, intent, sources);
     
@@ -215,7 +229,7 @@ export class ChatInteractionSkill extends BaseSkill<ChatInteractionInput, ChatIn
     const requiresHumanReview = this.requiresHumanReview(intent, response);
     
     const durationMs = Date.now() - startTime;
-    const costUSD = this.calculateCost(completionResponse.usage);
+    const costUSD = this.trackUsage(context, model, usage);
     
     return {
       response,
@@ -224,8 +238,8 @@ export class ChatInteractionSkill extends BaseSkill<ChatInteractionInput, ChatIn
       suggestions: suggestions.length > 0 ? suggestions : undefined,
       metadata: {
         respondedAt: new Date(),
-        model: 'gpt-4o-mini',
-        tokensUsed: completionResponse.usage?.total_tokens || 0,
+        model,
+        tokensUsed: usage?.total_tokens || 0,
         costUSD,
         durationMs,
         requiresHumanReview
@@ -312,59 +326,16 @@ export class ChatInteractionSkill extends BaseSkill<ChatInteractionInput, ChatIn
   }
   
   private async searchRelevantSources(query: string, topic?: string): Promise<Source[]> {
-    // In production, this would search actual blog post database
-    // For now, return mock relevant sources
-    
-    const mockSources: Source[] = [
-      {
-        postId: 'post-graphql-vs-rest',
-        title: 'GraphQL vs REST: ¿Cuál elegir en 2026?',
-        slug: 'graphql-vs-rest-cual-elegir-2026',
-        excerpt: 'Analizamos las diferencias clave entre GraphQL y REST para ayudarte a elegir la mejor opción.',
-        relevanceScore: 0.92
-      },
-      {
-        postId: 'post-typescript-intro',
-        title: 'Introducción a TypeScript',
-        slug: 'typescript-intro',
-        excerpt: 'Aprende los fundamentos de TypeScript y cómo puede mejorar tu código JavaScript.',
-        relevanceScore: 0.85
-      },
-      {
-        postId: 'post-react-hooks',
-        title: 'React Hooks Explicados',
-        slug: 'react-hooks-explicados',
-        excerpt: 'Guía completa sobre React Hooks: useState, useEffect, y más.',
-        relevanceScore: 0.78
-      }
-    ];
-    
-    const queryLower = query.toLowerCase();
-    
-    // Filter by topic if available
-    if (topic) {
-      return mockSources.filter(source =>
-        source.title.toLowerCase().includes(topic.toLowerCase()) ||
-        source.excerpt.toLowerCase().includes(topic.toLowerCase())
-      ).slice(0, 2);
-    }
-    
-    // Otherwise return top matching by keyword overlap
-    const scoredSources = mockSources.map(source => {
-      const titleMatch = queryLower.split(' ').some(word =>
-        word.length > 3 && source.title.toLowerCase().includes(word)
-      );
-      
-      return {
-        ...source,
-        matchScore: titleMatch ? source.relevanceScore : source.relevanceScore * 0.5
-      };
-    });
-    
-    return scoredSources
-      .sort((a, b) => b.matchScore - a.matchScore)
-      .slice(0, 2)
-      .map(({ matchScore, ...source }) => source);
+    const results = await searchPosts(topic || query, { limit: 2 });
+    
+    return results.map(result => ({
+      postId: result.post.id,
+      title: result.post.title,
+      slug: result.post.slug,
+      locale: getPostLocale(result.post),
+      excerpt: result.post.excerpt,
+      relevanceScore: result.coverage
+    }));
   }
   
   private buildSystemPrompt(personality: string, citeSources: boolean): string {
@@ -456,22 +427,6 @@ export class ChatInteractionSkill extends BaseSkill<ChatInteractionInput, ChatIn
     
     return false;
   }
-  
-  private calculateCost(usage: any): number {
-    if (!usage) return 0;
-    
-    const promptTokens = usage.prompt_tokens || 0;
-    const completionTokens = usage.completion_tokens || 0;
-    
-    // gpt-4o-mini pricing (as of 2024)
-    const promptCostPer1M = 0.150;
-    const completionCostPer1M = 0.600;
-    
-    return (
-      (promptTokens / 1000000) * promptCostPer1M +
-      (completionTokens / 1000000) * completionCostPer1M
-    );
-  }
 }
 
 // Export singleton instance
@@ -5,8 +5,8 @@
  * Following specification: docs/specs/skill_specs/generate_content_skill.md
  */
 
-import { BaseSkill, ValidationError, calculateCost, generateSlug, countWords, countParagraphs, extractHeadingStructure } from './base';
-import { openai } from '../openai/client';
+import { BaseSkill, ValidationError, generateSlug, countWords, countParagraphs, extractHeadingStructure } from './base';
+import { estimateReadingTime } from '../posts/headings';
 
 // ============================================================================
 // Types
@@ -234,7 +234,7 @@ export class GenerateContentSkill extends BaseSkill<GenerateContentInput, Genera
     
     const prompt = this.buildPrompt(input);
     
-    const response = await openai.chat.completions.create({
+    const { data: generatedData, usage, model } = await this.llm(context).completeJSON({
       model: 'gpt-4o',
       messages: [
         {
@@ -247,12 +247,9 @@ export class GenerateContentSkill extends BaseSkill<GenerateContentInput, Genera
         }
       ],
       temperature: 0.7,
-      max_tokens: 4000,
-      response_format: { type: 'json_object' }
+      maxTokens: 4000
     });
     
-    const generatedData = JSON.parse(response.choices[0].message.content || '{}');
-    
     // Calculate metadata
     const body = generatedData.body || '';
     const wordCount = countWords(body);
@@ -261,19 +258,13 @@ export class GenerateContentSkill extends BaseSkill<GenerateContentInput, Genera
     const headingStructure = extractHeadingStructure(body);
     const headingCount = headingStructure.h1 + headingStructure.h2 + headingStructure.h3;
     
-    const readingTimeMinutes = Math.ceil(wordCount / 200);
+    const readingTimeMinutes = estimateReadingTime(body);
     const slug = generateSlug(generatedData.title || input.topic);
     const qualityScore = this.calculateQualityScore(generatedData, wordCount);
     const complexity = this.determineComplexity(body);
     
     const durationMs = Date.now() - startTime;
-    const costUSD = calculateCost(
-      {
-        prompt_tokens: response.usage?.prompt_tokens || 0,
-        completion_tokens: response.usage?.completion_tokens || 0
-      },
-      'gpt-4o'
-    );
+    const costUSD = this.trackUsage(context, model, usage);
     
     return {
       content: {
@@ -294,13 +285,13 @@ export class GenerateContentSkill extends BaseSkill<GenerateContentInput, Genera
         tone: input.tone || 'professional',
         complexity,
         generatedAt: new Date(),
-        modelUsed: 'gpt-4o'
+        modelUsed: model
       },
       usage: {
         tokensUsed: {
-          prompt: response.usage?.prompt_tokens || 0,
-          completion: response.usage?.completion_tokens || 0,
-          total: response.usage?.total_tokens || 0
+          prompt: usage?.prompt_tokens || 0,
+          completion: usage?.completion_tokens || 0,
+          total: usage?.total_tokens || 0
         },
         costUSD,
         durationMs
@@ -11,3 +11,4 @@ export * from './moderate_content';
 export * from './analyze_seo';
 export * from './recommend_content';
 export * from './chat_interaction';
+export * from './translate_content';
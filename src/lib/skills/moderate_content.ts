@@ -6,7 +6,6 @@
  */
 
 import { BaseSkill, ValidationError, countWords } from './base';
-import { openai } from '../openai/client';
 
 // ============================================================================
 // Types
@@ -201,21 +200,17 @@ export class ModerateContentSkill extends BaseSkill<ModerateContentInput, Modera
     
     const contentText = this.normalizeContent(input.content);
     
-    // Call OpenAI Moderation API
-    const moderationResponse = await openai.moderations.create({
-      input: contentText,
-      model: 'text-moderation-stable'
-    });
-    
-    const result = moderationResponse.results[0];
+    // Call the provider's moderation
+    const provider = this.llm(context);
+    const result = await provider.moderate(contentText);
     
     // Convert scores to 0-100 scale
     const scores: ModerationScores = {
-      hate: result.category_scores.hate * 100,
-      harassment: result.category_scores.harassment * 100,
-      selfHarm: result.category_scores['self-harm'] * 100,
-      sexual: result.category_scores.sexual * 100,
-      violence: result.category_scores.violence * 100,
+      hate: (result.categoryScores.hate || 0) * 100,
+      harassment: (result.categoryScores.harassment || 0) * 100,
+      selfHarm: (result.categoryScores['self-harm'] || 0) * 100,
+      sexual: (result.categoryScores.sexual || 0) * 100,
+      violence: (result.categoryScores.violence || 0) * 100,
       spam: await this.checkSpam(contentText),
       overall: 0
     };
@@ -258,7 +253,7 @@ export class ModerateContentSkill extends BaseSkill<ModerateContentInput, Modera
       metadata: {
         checkedAt: new Date(),
         checkDuration,
-        apiUsed: 'openai-moderation-stable',
+        apiUsed: provider.id === 'openai' ? 'openai-moderation-stable' : `${provider.id}-moderation`,
         strictnessLevel: input.strictness || 'medium',
         autoDecision: violations.every(v => v.confidence >= 0.9)
       }
@@ -6,6 +6,8 @@
  */
 
 import { BaseSkill, ValidationError } from './base';
+import { getPostLocale, getTranslationKey, listPublicPosts } from '../posts';
+import { tokenize } from '../search/tokenizer';
 
 // ============================================================================
 // Types
@@ -48,6 +50,7 @@ export interface Recommendation {
   postId: string;
   title: string;
   slug: string;
+  locale: string;
   category: string;
   tags: string[];
   score: number;
@@ -74,6 +77,8 @@ interface CandidatePost {
   postId: string;
   title: string;
   slug: string;
+  locale: string;
+  translationKey: string;
   category: string;
   tags: string[];
   views?: number;
@@ -82,6 +87,16 @@ interface CandidatePost {
   contentSummary?: string;
 }
 
+interface SimilarityBreakdown {
+  total: number;
+  sameCategory: boolean;
+  sharedTags: string[];
+  /**
+   * Term overlap of title and summary (0-1)
+   */
+  textOverlap: number;
+}
+
 // ============================================================================
 // Skill Implementation
 // ============================================================================
@@ -206,12 +221,12 @@ export class RecommendContentSkill extends BaseSkill<RecommendContentInput, Reco
     const includeExplanations = input.context?.includeExplanations ?? true;
     const diversityWeight = input.context?.diversityWeight ?? 0.3;
     
-    // Step 1: Get all candidate posts
-    const candidates = await this.getCandidatePosts(input);
+    // Step 1: Get all candidate posts (and the post being read, if any)
+    const { candidates, currentPost } = await this.getCandidatePosts(input);
     
     // Step 2: Score each candidate
     const scoredCandidates = candidates.map(candidate => {
-      const score = this.calculateRecommendationScore(candidate, input, diversityWeight);
+      const score = this.calculateRecommendationScore(candidate, input, diversityWeight, currentPost);
       const reasons = this.generateReasons(candidate, input, score);
       
       return {
@@ -230,6 +245,7 @@ export class RecommendContentSkill extends BaseSkill<RecommendContentInput, Reco
       postId: rec.postId,
       title: rec.title,
       slug: rec.slug,
+      locale: rec.locale,
       category: rec.category,
       tags: rec.tags,
       score: Math.round(rec.score),
@@ -255,101 +271,54 @@ export class RecommendContentSkill extends BaseSkill<RecommendContentInput, Reco
   // Helper Methods
   // ====================================
   
-  private async getCandidatePosts(input: RecommendContentInput): Promise<CandidatePost[]> {
-    // In production, this would fetch from database
-    // For now, return mock data
-    
-    const mockPosts: CandidatePost[] = [
-      {
-        postId: 'post-apollo-client-intro',
-        title: 'Introducción a Apollo Client',
-        slug: 'apollo-client-intro',
-        category: 'Web Development',
-        tags: ['GraphQL', 'React', 'Apollo'],
-        views: 250,
-        likes: 45,
-        publishedAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000), // 7 days ago
-        contentSummary: 'Apollo Client is a comprehensive state management library for JavaScript'
-      },
-      {
-        postId: 'post-typescript-generics',
-        title: 'TypeScript Generics Explicados',
-        slug: 'typescript-generics',
-        category: 'Web Development',
-        tags: ['TypeScript', 'Advanced'],
-        views: 180,
-        likes: 32,
-        publishedAt: new Date(Date.now() - 14 * 24 * 60 * 60 * 1000),
-        contentSummary: 'Deep dive into TypeScript generics and type parameters'
-      },
-      {
-        postId: 'post-react-performance',
-        title: 'Optimizando el Rendimiento en React',
-        slug: 'react-performance',
-        category: 'Frontend',
-        tags: ['React', 'Performance', 'Optimization'],
-        views: 320,
-        likes: 58,
-        publishedAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000),
-        contentSummary: 'Best practices for optimizing React applications'
-      },
-      {
-        postId: 'post-nextjs-ssr',
-        title: 'Server-Side Rendering con Next.js',
-        slug: 'nextjs-ssr',
-        category: 'Web Development',
-        tags: ['Next.js', 'SSR', 'React'],
-        views: 290,
-        likes: 51,
-        publishedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000),
-        contentSummary: 'Learn how to implement SSR with Next.js'
-      },
-      {
-        postId: 'post-graphql-schema-design',
-        title: 'Diseño de Schemas en GraphQL',
-        slug: 'graphql-schema-design',
-        category: 'Web Development',
-        tags: ['GraphQL', 'API Design'],
-        views: 200,
-        likes: 38,
-        publishedAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000),
-        contentSummary: 'Best practices for designing GraphQL schemas'
-      },
-      {
-        postId: 'post-css-grid-flexbox',
-        title: 'CSS Grid vs Flexbox',
-        slug: 'css-grid-flexbox',
-        category: 'Frontend',
-        tags: ['CSS', 'Layout', 'Frontend'],
-        views: 150,
-        likes: 28,
-        publishedAt: new Date(Date.now() - 20 * 24 * 60 * 60 * 1000),
-        contentSummary: 'When to use CSS Grid vs Flexbox'
-      }
-    ];
+  private async getCandidatePosts(
+    input: RecommendContentInput
+  ): Promise<{ candidates: CandidatePost[]; currentPost?: CandidatePost }> {
+    const posts = await listPublicPosts();
+    
+    const all: CandidatePost[] = posts.map(post => ({
+      postId: post.id,
+      title: post.title,
+      slug: post.slug,
+      locale: getPostLocale(post),
+      translationKey: getTranslationKey(post),
+      category: post.category,
+      tags: post.tags,
+      publishedAt: post.publishedAt,
+      contentSummary: post.excerpt
+    }));
+    
+    const currentPost = all.find(post => post.postId === input.currentPostId);
     
-    // Filter out current post and viewed posts
-    return mockPosts.filter(post => {
+    // Filter out current post and viewed posts; beside a post, only other
+    // posts in its language (its own translations would match best)
+    const candidates = all.filter(post => {
       if (input.currentPostId && post.postId === input.currentPostId) return false;
       if (input.userHistory?.viewedPosts.includes(post.postId)) return false;
+      if (currentPost && (post.locale !== currentPost.locale || post.translationKey === currentPost.translationKey)) {
+        return false;
+      }
       return true;
     });
+    
+    return { candidates, currentPost };
   }
   
   private calculateRecommendationScore(
     candidate: CandidatePost,
     input: RecommendContentInput,
-    diversityWeight: number
-  ): { total: number; userPreference: number; similarity: number; trending: number } {
+    diversityWeight: number,
+    currentPost?: CandidatePost
+  ): { total: number; userPreference: number; similarity: SimilarityBreakdown; trending: number } {
     // Hybrid algorithm: User Preference (40%) + Similarity (40%) + Trending (20%)
     
     const userPreferenceScore = this.calculateUserPreferenceScore(candidate, input);
-    const similarityScore = this.calculateSimilarityScore(candidate, input);
+    const similarity = this.calculateSimilarityScore(candidate, input, currentPost);
     const trendingScore = this.calculateTrendingScore(candidate);
     
     const baseTotal =
       userPreferenceScore * 0.4 +
-      similarityScore * 0.4 +
+      similarity.total * 0.4 +
       trendingScore * 0.2;
     
     // Apply diversity penalty if needed
@@ -360,7 +329,7 @@ export class RecommendContentSkill extends BaseSkill<RecommendContentInput, Reco
     return {
       total,
       userPreference: userPreferenceScore,
-      similarity: similarityScore,
+      similarity,
       trending: trendingScore
     };
   }
@@ -402,37 +371,52 @@ export class RecommendContentSkill extends BaseSkill<RecommendContentInput, Reco
     return Math.min(100, score);
   }
   
-  private calculateSimilarityScore(candidate: CandidatePost, input: RecommendContentInput): number {
-    if (!input.currentPostId && (!input.userHistory || input.userHistory.viewedPosts.length === 0)) {
-      return 50; // Neutral if no history
-    }
-    
-    // In production, would use embeddings or TF-IDF
-    // For now, use simple tag-based similarity
-    
-    let score = 0;
-    
-    // Same category as viewed posts (30 points)
-    if (input.currentPostId) {
-      // Assume current post is in same category
-      score += 30;
+  private calculateSimilarityScore(
+    candidate: CandidatePost,
+    input: RecommendContentInput,
+    currentPost?: CandidatePost
+  ): SimilarityBreakdown {
+    const none: SimilarityBreakdown = { total: 0, sameCategory: false, sharedTags: [], textOverlap: 0 };
+    
+    // Compared against the post being read
+    if (currentPost) {
+      const currentTags = new Set(currentPost.tags.map(tag => tag.toLowerCase()));
+      const sharedTags = candidate.tags.filter(tag => currentTags.has(tag.toLowerCase()));
+      const sameCategory = candidate.category === currentPost.category;
+      const textOverlap = this.calculateTextOverlap(candidate, currentPost);
+      
+      // Category (30) + shared tags (40, 15 each) + title/summary terms (30)
+      const total =
+        (sameCategory ? 30 : 0) +
+        Math.min(40, sharedTags.length * 15) +
+        Math.min(30, textOverlap * 60);
+      
+      return { total: Math.min(100, total), sameCategory, sharedTags, textOverlap };
     }
     
-    // Tag overlap (40 points)
-    if (input.preferences?.favoriteTags) {
-      const overlap = candidate.tags.filter(tag =>
-        input.preferences!.favoriteTags!.includes(tag)
-      ).length;
-      score += Math.min(40, overlap * 15);
+    if (!input.userHistory || input.userHistory.viewedPosts.length === 0) {
+      return { ...none, total: 50 }; // Neutral if no history
     }
     
-    // Content similarity (30 points)
-    // In production, would use vector similarity
-    if (candidate.contentSummary) {
-      score += 20; // Mock score
-    }
+    // Tag overlap with favorite tags (40 points)
+    const sharedTags = input.preferences?.favoriteTags
+      ? candidate.tags.filter(tag => input.preferences!.favoriteTags!.includes(tag))
+      : [];
     
-    return Math.min(100, score);
+    return { ...none, total: Math.min(40, sharedTags.length * 15), sharedTags };
+  }
+  
+  /**
+   * Jaccard overlap of the title and summary terms of two posts
+   */
+  private calculateTextOverlap(a: CandidatePost, b: CandidatePost): number {
+    const terms = (post: CandidatePost) => new Set(tokenize(`${post.title} ${post.contentSummary || ''}`));
+    const aTerms = terms(a);
+    const bTerms = terms(b);
+    if (aTerms.size === 0 || bTerms.size === 0) return 0;
+    
+    const shared = Array.from(aTerms).filter(term => bTerms.has(term)).length;
+    return shared / (aTerms.size + bTerms.size - shared);
   }
   
   private calculateTrendingScore(candidate: CandidatePost): number {
@@ -467,7 +451,7 @@ export class RecommendContentSkill extends BaseSkill<RecommendContentInput, Reco
   private generateReasons(
     candidate: CandidatePost,
     input: RecommendContentInput,
-    scores: { userPreference: number; similarity: number; trending: number }
+    scores: { userPreference: number; similarity: SimilarityBreakdown; trending: number }
   ): RecommendationReason[] {
     const reasons: RecommendationReason[] = [];
     
@@ -495,13 +479,36 @@ export class RecommendContentSkill extends BaseSkill<RecommendContentInput, Reco
     }
     
     // Similarity reasons
-    if (scores.similarity >= 30) {
+    const { similarity } = scores;
+    if (input.currentPostId) {
+      if (similarity.sharedTags.length > 0) {
+        reasons.push({
+          type: 'same-tags',
+          weight: Math.min(40, similarity.sharedTags.length * 15) * 0.4,
+          explanation: `Comparte tags con el post que estás leyendo: ${similarity.sharedTags.join(', ')}`
+        });
+      }
+      
+      if (similarity.sameCategory && !reasons.some(reason => reason.type === 'same-category')) {
+        reasons.push({
+          type: 'same-category',
+          weight: 12,
+          explanation: `También está en la categoría "${candidate.category}"`
+        });
+      }
+      
+      if (similarity.textOverlap >= 0.15) {
+        reasons.push({
+          type: 'similar-content',
+          weight: Math.min(30, similarity.textOverlap * 60) * 0.4,
+          explanation: 'Trata temas similares al post que estás leyendo'
+        });
+      }
+    } else if (similarity.total >= 30) {
       reasons.push({
         type: 'similar-content',
-        weight: scores.similarity * 0.4,
-        explanation: input.currentPostId
-          ? 'Muy similar al post que estás leyendo'
-          : 'Relacionado con posts que has visto'
+        weight: similarity.total * 0.4,
+        explanation: 'Relacionado con posts que has visto'
       });
     }
     
@@ -5,8 +5,7 @@
  * Following specification: docs/specs/skill_specs/summarize_content_skill.md
  */
 
-import { BaseSkill, ValidationError, calculateCost, countWords } from './base';
-import { openai } from '../openai/client';
+import { BaseSkill, ValidationError, countWords } from './base';
 
 // ============================================================================
 // Types
@@ -146,7 +145,7 @@ export class SummarizeContentSkill extends BaseSkill<SummarizeContentInput, Summ
     
     const prompt = this.buildPrompt(input, targetWords);
     
-    const response = await openai.chat.completions.create({
+    const { data: result, usage, model } = await this.llm(context).completeJSON({
       model: 'gpt-4o-mini',
       messages: [
         {
@@ -159,25 +158,16 @@ export class SummarizeContentSkill extends BaseSkill<SummarizeContentInput, Summ
         }
       ],
       temperature: 0.3,
-      max_tokens: Math.ceil(targetWords * 1.5),
-      response_format: { type: 'json_object' }
+      maxTokens: Math.ceil(targetWords * 1.5)
     });
     
-    const result = JSON.parse(response.choices[0].message.content || '{}');
-    
     const summaryWordCount = countWords(result.summary || '');
     const compressionRatio = summaryWordCount / originalWordCount;
     const keyConceptsCovered = (result.keyPoints || []).length;
     const coherenceScore = this.calculateCoherence(result.summary || '', input.content);
     
     const durationMs = Date.now() - startTime;
-    const costUSD = calculateCost(
-      {
-        prompt_tokens: response.usage?.prompt_tokens || 0,
-        completion_tokens: response.usage?.completion_tokens || 0
-      },
-      'gpt-4o-mini'
-    );
+    const costUSD = this.trackUsage(context, model, usage);
     
     return {
       summary: result.summary || '',
@@ -191,8 +181,8 @@ export class SummarizeContentSkill extends BaseSkill<SummarizeContentInput, Summ
       },
       metadata: {
         generatedAt: new Date(),
-        model: 'gpt-4o-mini',
-        tokensUsed: response.usage?.total_tokens || 0,
+        model,
+        tokensUsed: usage?.total_tokens || 0,
         costUSD,
         durationMs
       }
@@ -1,23 +1,38 @@
 /**
- * Content Translation Skill
- * SPEC-006: Translate content between languages
- * 
- * Capability: Translate blog posts, comments, and UI text
- * Context Required: Source text, target language, source language (optional)
- * Quality Metrics: Translation accuracy, fluency, cultural appropriateness
+ * SKILL-007: Translate Content
+ *
+ * Translate blog posts, comments and UI text between languages, keeping
+ * markdown structure, code, links and glossary terms intact
+ * Following specification: docs/specs/skill_specs/translate_content_skill.md
  */
 
-import { logger } from '../utils/logger';
-import { recordSkillExecution } from '../utils/metrics';
+import { BaseSkill, ValidationError, type ExecutionContext } from './base';
 import { cacheSkillResult, getCachedSkillResult } from '../utils/cache';
+import {
+  chunkSegments,
+  getGlossary,
+  getPreservedContent,
+  getSegments,
+  prepareDocument,
+  restoreDocument,
+  type GlossaryEntry,
+} from '../translation';
+
+// ============================================================================
+// Types
+// ============================================================================
 
 export interface TranslateContentInput {
   text: string;
   targetLanguage: string;
   sourceLanguage?: string;
   context?: 'blog-post' | 'comment' | 'ui-text' | 'general';
-  preserveFormatting?: boolean;
   tone?: 'formal' | 'casual' | 'technical';
+  /**
+   * Extra terms to keep untranslated (or pin per language), on top of the
+   * default and TRANSLATION_GLOSSARY entries
+   */
+  glossary?: Array<string | GlossaryEntry>;
 }
 
 export interface TranslateContentOutput {
@@ -26,362 +41,321 @@ export interface TranslateContentOutput {
   targetLanguage: string;
   confidence: number;
   warnings?: string[];
+  metadata: TranslationMetadata;
 }
 
-export interface TranslateContentValidation {
-  isValid: boolean;
-  errors: string[];
-  warnings?: string[];
+export interface TranslationMetadata {
+  translatedAt: Date;
+  model: string;
+  chunks: number;
+  tokensUsed: number;
+  costUSD: number;
+  durationMs: number;
 }
 
-// Language validation
-const SUPPORTED_LANGUAGES = [
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const SUPPORTED_LANGUAGES = [
   'es', 'en', 'pt', 'fr', 'de', 'it', 'ja', 'zh', 'ko', 'ru'
 ];
 
-/**
- * PRE-condition validation
- */
-export function validateTranslateInput(input: TranslateContentInput): TranslateContentValidation {
-  const errors: string[] = [];
-  const warnings: string[] = [];
+// Longer texts are translated in chunks (see ../translation/segments)
+const MAX_TEXT_LENGTH = 500000;
 
-  // Required fields
-  if (!input.text || input.text.trim().length === 0) {
-    errors.push('Text to translate is required');
-  }
+const TRANSLATION_MODEL = 'gpt-4o-mini';
 
-  if (!input.targetLanguage) {
-    errors.push('Target language is required');
-  }
+// ============================================================================
+// Skill Implementation
+// ============================================================================
 
-  // Text length validation
-  if (input.text && input.text.length < 1) {
-    errors.push('Text must have at least 1 character');
-  }
+export class TranslateContentSkill extends BaseSkill<TranslateContentInput, TranslateContentOutput> {
+  readonly id = 'translate_content';
+  readonly name = 'Translate Content';
+  readonly description = 'Translate markdown content between languages, preserving code, links and glossary terms';
 
-  if (input.text && input.text.length > 50000) {
-    errors.push('Text exceeds maximum length of 50,000 characters');
-  }
+  // ====================================
+  // Preconditions
+  // ====================================
 
-  // Language code validation
-  if (input.targetLanguage && !SUPPORTED_LANGUAGES.includes(input.targetLanguage.toLowerCase())) {
-    warnings.push(`Target language '${input.targetLanguage}' may not be supported. Supported: ${SUPPORTED_LANGUAGES.join(', ')}`);
-  }
+  protected async checkPreconditions(input: TranslateContentInput): Promise<ValidationError[]> {
+    const errors: ValidationError[] = [];
 
-  if (input.sourceLanguage && !SUPPORTED_LANGUAGES.includes(input.sourceLanguage.toLowerCase())) {
-    warnings.push(`Source language '${input.sourceLanguage}' may not be supported`);
-  }
+    // PRE-TRANS-001: Texto Válido
+    if (!input.text || input.text.trim().length === 0) {
+      errors.push({
+        code: 'PRE-TRANS-001',
+        message: 'Text to translate is required',
+        field: 'text'
+      });
+    } else if (input.text.length > MAX_TEXT_LENGTH) {
+      errors.push({
+        code: 'PRE-TRANS-001',
+        message: `Text exceeds maximum length of ${MAX_TEXT_LENGTH} characters`,
+        field: 'text'
+      });
+    }
 
-  // Same language check
-  if (input.sourceLanguage && input.targetLanguage && 
-      input.sourceLanguage.toLowerCase() === input.targetLanguage.toLowerCase()) {
-    warnings.push('Source and target languages are the same');
-  }
+    // PRE-TRANS-002: Idioma Destino Soportado
+    if (!input.targetLanguage || !SUPPORTED_LANGUAGES.includes(input.targetLanguage.toLowerCase())) {
+      errors.push({
+        code: 'PRE-TRANS-002',
+        message: `Target language must be one of: ${SUPPORTED_LANGUAGES.join(', ')}`,
+        field: 'targetLanguage'
+      });
+    }
 
-  return {
-    isValid: errors.length === 0,
-    errors,
-    warnings: warnings.length > 0 ? warnings : undefined
-  };
-}
+    // PRE-TRANS-003: Idioma Origen Válido y Distinto
+    if (input.sourceLanguage) {
+      if (!SUPPORTED_LANGUAGES.includes(input.sourceLanguage.toLowerCase())) {
+        errors.push({
+          code: 'PRE-TRANS-003',
+          message: `Source language must be one of: ${SUPPORTED_LANGUAGES.join(', ')}`,
+          field: 'sourceLanguage'
+        });
+      } else if (input.sourceLanguage.toLowerCase() === input.targetLanguage?.toLowerCase()) {
+        errors.push({
+          code: 'PRE-TRANS-003',
+          message: 'Source and target languages must differ',
+          field: 'sourceLanguage'
+        });
+      }
+    }
 
-/**
- * POST-condition validation
- */
-export function validateTranslateOutput(
-  input: TranslateContentInput,
-  output: TranslateContentOutput
-): TranslateContentValidation {
-  const errors: string[] = [];
-  const warnings: string[] = [];
-
-  // Required output fields
-  if (!output.translatedText) {
-    errors.push('Translation result is missing');
+    return errors;
   }
 
-  if (!output.targetLanguage) {
-    errors.push('Target language is missing from output');
-  }
+  // ====================================
+  // Postconditions
+  // ====================================
 
-  if (!output.sourceLanguage) {
-    errors.push('Source language is missing from output');
-  }
+  protected async checkPostconditions(output: TranslateContentOutput, input: TranslateContentInput): Promise<ValidationError[]> {
+    const errors: ValidationError[] = [];
 
-  if (output.confidence === undefined || output.confidence === null) {
-    errors.push('Confidence score is missing');
-  }
+    // POST-TRANS-001: Traducción Presente
+    if (!output.translatedText || output.translatedText.trim().length === 0) {
+      errors.push({
+        code: 'POST-TRANS-001',
+        message: 'Translation result is missing'
+      });
+    }
 
-  // Quality checks
-  if (output.confidence < 0 || output.confidence > 1) {
-    errors.push('Confidence score must be between 0 and 1');
-  }
+    // POST-TRANS-002: Idiomas Identificados
+    if (!output.sourceLanguage || output.targetLanguage !== input.targetLanguage) {
+      errors.push({
+        code: 'POST-TRANS-002',
+        message: 'Output must identify the source language and match the requested target language'
+      });
+    }
 
-  if (output.translatedText && output.translatedText === input.text) {
-    warnings.push('Translation is identical to source text');
-  }
+    // POST-TRANS-003: Contenido Protegido Intacto
+    const missing = getPreservedContent(input.text).filter(content => !output.translatedText.includes(content));
+    if (missing.length > 0) {
+      errors.push({
+        code: 'POST-TRANS-003',
+        message: `Translation altered ${missing.length} code block(s), link(s) or frontmatter key(s)`
+      });
+    }
 
-  if (output.translatedText && output.translatedText.length < input.text.length * 0.3) {
-    warnings.push('Translation is significantly shorter than source (possible truncation)');
+    return errors;
   }
 
-  if (output.translatedText && output.translatedText.length > input.text.length * 3) {
-    warnings.push('Translation is significantly longer than source');
-  }
+  // ====================================
+  // Invariants
+  // ====================================
 
-  // Formatting preservation check
-  if (input.preserveFormatting) {
-    const sourceHasMarkdown = /[#*_`\[\]]/g.test(input.text);
-    const translationHasMarkdown = /[#*_`\[\]]/g.test(output.translatedText);
-    
-    if (sourceHasMarkdown && !translationHasMarkdown) {
-      warnings.push('Source has markdown formatting but translation does not');
-    }
-  }
+  protected async checkInvariants(output: TranslateContentOutput, input: TranslateContentInput): Promise<ValidationError[]> {
+    const errors: ValidationError[] = [];
 
-  return {
-    isValid: errors.length === 0,
-    errors,
-    warnings: warnings.length > 0 ? warnings : undefined
-  };
-}
+    // INV-TRANS-001: Confianza Acotada
+    if (output.confidence < 0 || output.confidence > 1) {
+      errors.push({
+        code: 'INV-TRANS-001',
+        message: `Confidence must be between 0 and 1 (got ${output.confidence})`
+      });
+    }
 
-/**
- * Translate Content Skill - Core Implementation
- */
-export async function translateContentSkill(
-  input: TranslateContentInput
-): Promise<TranslateContentOutput> {
-  const startTime = Date.now();
-  const traceId = `translate-${Date.now()}`;
-
-  logger.info('Translation skill invoked', {
-    service: 'skill',
-    operation: 'translate_content',
-    traceId,
-    timestamp: new Date(),
-    metadata: {
-      targetLanguage: input.targetLanguage,
-      sourceLanguage: input.sourceLanguage || 'auto-detect',
-      textLength: input.text.length,
-      context: input.context
+    // INV-TRANS-002: Longitud Proporcional (sin truncado ni relleno)
+    const ratio = output.translatedText.length / input.text.length;
+    if (input.text.length >= 200 && (ratio < 0.2 || ratio > 4)) {
+      errors.push({
+        code: 'INV-TRANS-002',
+        message: `Translation length ratio must be between 0.2 and 4 (got ${ratio.toFixed(2)})`
+      });
     }
-  });
-
-  // PRE-condition validation
-  const preValidation = validateTranslateInput(input);
-  if (!preValidation.isValid) {
-    const error = new Error(`Translation input validation failed: ${preValidation.errors.join(', ')}`);
-    logger.error('Translation PRE-validation failed', {
-      service: 'skill',
-      operation: 'translate_content',
-      traceId,
-      timestamp: new Date(),
-      metadata: { errors: preValidation.errors }
-    }, error);
-    throw error;
-  }
 
-  if (preValidation.warnings && preValidation.warnings.length > 0) {
-    logger.warn('Translation input warnings', {
-      service: 'skill',
-      operation: 'translate_content',
-      traceId,
-      timestamp: new Date(),
-      metadata: { warnings: preValidation.warnings }
-    });
+    return errors;
   }
 
-  try {
-    // Check cache
-    const cached = getCachedSkillResult<TranslateContentOutput>('translate_content', {
+  // ====================================
+  // Implementation
+  // ====================================
+
+  protected async executeImpl(input: TranslateContentInput, context: any): Promise<TranslateContentOutput> {
+    const startTime = Date.now();
+
+    const cacheKey = {
       text: input.text,
       targetLanguage: input.targetLanguage,
-      sourceLanguage: input.sourceLanguage
+      sourceLanguage: input.sourceLanguage,
+      tone: input.tone,
+      glossary: input.glossary
+    };
+    const cached = getCachedSkillResult<TranslateContentOutput>(this.id, cacheKey);
+    if (cached) return cached;
+
+    const sourceLanguage = input.sourceLanguage || this.detectLanguage(input.text);
+
+    // Code, links and glossary terms never reach the model; the remaining
+    // segments are sent in chunks and put back in place
+    const document = prepareDocument(input.text, {
+      glossary: getGlossary(input.glossary),
+      targetLanguage: input.targetLanguage
     });
-    
-    if (cached) {
-      logger.info('Translation cache hit', {
-        service: 'skill',
-        operation: 'translate_content',
-        traceId,
-        timestamp: new Date(),
-        metadata: { targetLanguage: input.targetLanguage }
-      });
-      return cached;
+    const chunks = chunkSegments(getSegments(document));
+
+    const translations: string[] = [];
+    let tokensUsed = 0;
+    let costUSD = 0;
+    // The model that answered; the requested one if nothing needed translating
+    let model = TRANSLATION_MODEL;
+
+    for (const chunk of chunks) {
+      const result = await this.translateChunk(chunk, input, sourceLanguage, context);
+      translations.push(...result.segments);
+      model = result.model;
+      tokensUsed += result.usage?.total_tokens || 0;
+      costUSD += this.trackUsage(context, result.model, result.usage);
     }
 
-    // Note: In a real implementation, this would call OpenAI API or similar
-    // For now, we'll create a structured response
-    const detectedSourceLanguage = input.sourceLanguage || detectLanguage(input.text);
-    
-    const result: TranslateContentOutput = {
-      translatedText: await performTranslation(input, detectedSourceLanguage),
-      sourceLanguage: detectedSourceLanguage,
+    const restored = restoreDocument(document, translations);
+    const warnings = [...restored.warnings];
+    if (chunks.length > 0 && restored.text === input.text) {
+      warnings.push('Translation is identical to source text');
+    }
+
+    const output: TranslateContentOutput = {
+      translatedText: restored.text,
+      sourceLanguage,
       targetLanguage: input.targetLanguage,
-      confidence: calculateConfidence(input),
-      warnings: preValidation.warnings
+      confidence: this.calculateConfidence(input, restored.warnings.length),
+      warnings: warnings.length > 0 ? warnings : undefined,
+      metadata: {
+        translatedAt: new Date(),
+        model,
+        chunks: chunks.length,
+        tokensUsed,
+        costUSD: Number(costUSD.toFixed(6)),
+        durationMs: Date.now() - startTime
+      }
     };
 
-    // POST-condition validation
-    const postValidation = validateTranslateOutput(input, result);
-    if (!postValidation.isValid) {
-      const error = new Error(`Translation output validation failed: ${postValidation.errors.join(', ')}`);
-      logger.error('Translation POST-validation failed', {
-        service: 'skill',
-        operation: 'translate_content',
-        traceId,
-        timestamp: new Date(),
-        metadata: { errors: postValidation.errors }
-      }, error);
-      throw error;
-    }
+    cacheSkillResult(this.id, cacheKey, output);
 
-    if (postValidation.warnings) {
-      result.warnings = [...(result.warnings || []), ...postValidation.warnings];
+    return output;
+  }
+
+  // ====================================
+  // Helper Methods
+  // ====================================
+
+  /**
+   * Translates one chunk of segments in a single request
+   */
+  private async translateChunk(
+    segments: string[],
+    input: TranslateContentInput,
+    sourceLanguage: string,
+    context: ExecutionContext
+  ) {
+    const length = segments.reduce((sum, segment) => sum + segment.length, 0);
+
+    const { data: result, usage, model } = await this.llm(context).completeJSON({
+      model: TRANSLATION_MODEL,
+      messages: [
+        {
+          role: 'system',
+          content: this.buildPrompt(input, sourceLanguage)
+        },
+        {
+          role: 'user',
+          content: JSON.stringify({ segments })
+        }
+      ],
+      temperature: 0.2,
+      maxTokens: Math.min(16000, Math.ceil(length / 2) + 256)
+    });
+
+    if (!Array.isArray(result.segments) || result.segments.length !== segments.length) {
+      throw new Error(
+        `Translation response has ${Array.isArray(result.segments) ? result.segments.length : 0} segments, expected ${segments.length}`
+      );
     }
 
-    // Cache result
-    cacheSkillResult('translate_content', input, result);
+    return {
+      segments: result.segments.map((segment: unknown) => (typeof segment === 'string' ? segment : '')) as string[],
+      usage,
+      model
+    };
+  }
 
-    const duration = Date.now() - startTime;
-    recordSkillExecution('translate_content', duration, true);
+  private buildPrompt(input: TranslateContentInput, sourceLanguage: string): string {
+    return [
+      `You are a professional translator. Translate each segment from ${sourceLanguage} to ${input.targetLanguage}.`,
+      `Use a ${input.tone || 'neutral'} tone${input.context ? ` suitable for a ${input.context}` : ''}.`,
+      'Segments are markdown: keep headings, list markers, emphasis, tables and line breaks exactly as they are.',
+      'Tokens like ⟦0⟧ stand for code, links and product names: copy every token unchanged, once, where it belongs in the translated sentence.',
+      'Respond with JSON {"segments": [...]} holding one translated string per input segment, in the same order.'
+    ].join('\n');
+  }
 
-    logger.info('Translation completed successfully', {
-      service: 'skill',
-      operation: 'translate_content',
-      traceId,
-      timestamp: new Date(),
-      metadata: {
-        duration,
-        confidence: result.confidence,
-        sourceLanguage: result.sourceLanguage,
-        targetLanguage: result.targetLanguage,
-        originalLength: input.text.length,
-        translatedLength: result.translatedText.length
-      }
-    });
+  /**
+   * Simple heuristic; sourceLanguage should be passed when known
+   */
+  private detectLanguage(text: string): string {
+    const hasSpanishChars = /[áéíóúñ¿¡]/i.test(text);
+    const hasSpanishWords = /\b(el|la|los|las|de|en|que|es|un|una|por|con|para)\b/i.test(text);
 
-    return result;
+    if (hasSpanishChars || hasSpanishWords) {
+      return 'es';
+    }
 
-  } catch (error) {
-    const duration = Date.now() - startTime;
-    recordSkillExecution('translate_content', duration, false);
+    const hasPortugueseChars = /[ãõç]/i.test(text);
+    const hasPortugueseWords = /\b(o|a|os|as|de|em|que|é|um|uma|por|com|para)\b/i.test(text);
 
-    logger.error('Translation skill failed', {
-      service: 'skill',
-      operation: 'translate_content',
-      traceId,
-      timestamp: new Date(),
-      metadata: { duration }
-    }, error instanceof Error ? error : new Error(String(error)));
+    if (hasPortugueseChars || hasPortugueseWords) {
+      return 'pt';
+    }
 
-    throw error;
+    return 'en';
   }
-}
 
-/**
- * Helper: Detect source language (simple heuristic)
- */
-function detectLanguage(text: string): string {
-  // Simple heuristic based on character patterns
-  // In production, use a proper language detection library
-  
-  const hasSpanishChars = /[áéíóúñ¿¡]/i.test(text);
-  const hasSpanishWords = /\b(el|la|los|las|de|en|que|es|un|una|por|con|para)\b/i.test(text);
-  
-  if (hasSpanishChars || hasSpanishWords) {
-    return 'es';
-  }
-  
-  const hasPortugueseChars = /[ãõç]/i.test(text);
-  const hasPortugueseWords = /\b(o|a|os|as|de|em|que|é|um|uma|por|com|para)\b/i.test(text);
-  
-  if (hasPortugueseChars || hasPortugueseWords) {
-    return 'pt';
-  }
-  
-  // Default to English
-  return 'en';
-}
+  private calculateConfidence(input: TranslateContentInput, fallbackSegments: number): number {
+    let confidence = 0.85; // Base confidence
 
-/**
- * Helper: Perform translation (mock implementation)
- * In production, this would call OpenAI API or similar
- */
-async function performTranslation(
-  input: TranslateContentInput,
-  sourceLanguage: string
-): Promise<string> {
-  // TODO: Implement actual translation using OpenAI API
-  // For now, return a placeholder indicating translation would occur
-  
-  // Simulate API delay
-  await new Promise(resolve => setTimeout(resolve, 100));
-  
-  // In production, would use:
-  // const openai = getOpenAIClient();
-  // const response = await openai.chat.completions.create({
-  //   model: "gpt-4",
-  //   messages: [
-  //     {
-  //       role: "system",
-  //       content: `You are a professional translator. Translate the following text from ${sourceLanguage} to ${input.targetLanguage}. ${input.preserveFormatting ? 'Preserve all markdown formatting.' : ''} Use a ${input.tone || 'neutral'} tone.`
-  //     },
-  //     {
-  //       role: "user",
-  //       content: input.text
-  //     }
-  //   ]
-  // });
-  // return response.choices[0].message.content;
-  
-  return `[Translation: ${sourceLanguage} → ${input.targetLanguage}] ${input.text}`;
-}
+    // Longer texts give the model more context
+    if (input.text.length < 50) {
+      confidence -= 0.1;
+    } else if (input.text.length > 500) {
+      confidence += 0.05;
+    }
 
-/**
- * Helper: Calculate translation confidence
- */
-function calculateConfidence(input: TranslateContentInput): number {
-  let confidence = 0.85; // Base confidence
-  
-  // Adjust based on text length (longer texts usually translate better)
-  if (input.text.length < 50) {
-    confidence -= 0.1;
-  } else if (input.text.length > 500) {
-    confidence += 0.05;
-  }
-  
-  // Adjust based on context
-  if (input.context === 'blog-post' || input.context === 'ui-text') {
-    confidence += 0.02; // Standard content types
-  }
-  
-  // Adjust based on source language detection
-  if (!input.sourceLanguage) {
-    confidence -= 0.05; // Auto-detection has some uncertainty
+    if (input.context === 'blog-post' || input.context === 'ui-text') {
+      confidence += 0.02;
+    }
+
+    // Auto-detection has some uncertainty
+    if (!input.sourceLanguage) {
+      confidence -= 0.05;
+    }
+
+    // Segments left in the source language
+    confidence -= fallbackSegments * 0.1;
+
+    return Math.max(0, Math.min(1, confidence));
   }
-  
-  return Math.max(0, Math.min(1, confidence));
 }
 
-/**
- * Skill Metadata Export
- */
-export const translateContentSkillMetadata = {
-  name: 'translate_content',
-  version: '1.0.0',
-  description: 'Translate content between languages',
-  capabilities: [
-    'Blog post translation',
-    'Comment translation',
-    'UI text localization',
-    'Multi-language support',
-    'Formatting preservation'
-  ],
-  supportedLanguages: SUPPORTED_LANGUAGES,
-  preValidation: validateTranslateInput,
-  postValidation: validateTranslateOutput,
-  execute: translateContentSkill
-};
+// Export singleton instance
+export const translateContentSkill = new TranslateContentSkill();
@@ -0,0 +1,189 @@
+/**
+ * Translation Drafts
+ *
+ * Generates a missing language version of a post with translateContentSkill
+ * and saves it as a draft linked through `translationOf`. Drafts are never
+ * public, so a translation only appears once someone has reviewed it (via
+ * a preview URL) and approved it.
+ *
+ * Not re-exported from ./index: it imports translateContentSkill, which
+ * itself imports ./index.
+ */
+
+import matter from 'gray-matter';
+import type { BlogPost, PostStatus } from '@/types';
+import {
+  estimateReadingTime,
+  getPostLocale,
+  getPostStore,
+  getPostTranslations,
+  getTranslationKey,
+} from '@/lib/posts';
+import { generateSlug } from '@/lib/skills/base';
+import { translateContentSkill } from '@/lib/skills/translate_content';
+
+export interface TranslationDraftResult {
+  post: BlogPost;
+  confidence: number;
+  warnings?: string[];
+}
+
+export interface TranslationStatus {
+  locale: string;
+  slug: string;
+  status: PostStatus;
+  /**
+   * True for the version the others translate
+   */
+  original: boolean;
+}
+
+export class TranslationDraftError extends Error {
+  constructor(
+    public code: 'POST_NOT_FOUND' | 'SAME_LOCALE' | 'TRANSLATION_EXISTS' | 'NOT_PENDING' | 'INVALID_TRANSLATION',
+    message: string
+  ) {
+    super(message);
+    this.name = 'TranslationDraftError';
+  }
+}
+
+async function getPostOrThrow(slug: string): Promise<BlogPost> {
+  const post = await getPostStore().getBySlug(slug);
+  if (!post) {
+    throw new TranslationDraftError('POST_NOT_FOUND', `Post "${slug}" not found`);
+  }
+  return post;
+}
+
+/**
+ * Every version of the post behind `slug`, drafts included
+ */
+export async function listTranslations(slug: string): Promise<TranslationStatus[]> {
+  const post = await getPostOrThrow(slug);
+  const translations = getPostTranslations(post, await getPostStore().list());
+
+  return Object.entries(translations).map(([locale, translation]) => ({
+    locale,
+    slug: translation.slug,
+    status: translation.status,
+    original: translation.id === getTranslationKey(post),
+  }));
+}
+
+/**
+ * Translate the post behind `slug` into `locale` and save it as a draft
+ */
+export async function createTranslationDraft(
+  slug: string,
+  locale: string,
+  author: string
+): Promise<TranslationDraftResult> {
+  const store = getPostStore();
+  const source = await getPostOrThrow(slug);
+
+  if (getPostLocale(source) === locale) {
+    throw new TranslationDraftError('SAME_LOCALE', `Post "${slug}" is already written in ${locale}`);
+  }
+
+  const existing = getPostTranslations(source, await store.list())[locale];
+  if (existing) {
+    throw new TranslationDraftError(
+      'TRANSLATION_EXISTS',
+      `Post "${slug}" already has a ${locale} version: "${existing.slug}" (${existing.status})`
+    );
+  }
+
+  // Title and excerpt travel as frontmatter so one request covers the post
+  const document = [
+    '---',
+    `title: ${JSON.stringify(source.title)}`,
+    `excerpt: ${JSON.stringify(source.excerpt)}`,
+    '---',
+    '',
+    source.content,
+  ].join('\n');
+
+  const translation = await translateContentSkill.execute({
+    text: document,
+    sourceLanguage: getPostLocale(source),
+    targetLanguage: locale,
+    context: 'blog-post',
+  });
+
+  // Model output: malformed frontmatter is the model's failure, not the caller's
+  let translated: matter.GrayMatterFile<string>;
+  try {
+    translated = matter(translation.translatedText);
+  } catch (error) {
+    throw new TranslationDraftError(
+      'INVALID_TRANSLATION',
+      `Translation of "${slug}" has malformed frontmatter: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const title = String(translated.data.title || source.title);
+  const content = translated.content.trim();
+  const key = getTranslationKey(source);
+
+  const draft: BlogPost = {
+    ...source,
+    id: `${key}-${locale}`,
+    slug: await getAvailableSlug(generateSlug(title) || source.slug, locale),
+    title,
+    excerpt: String(translated.data.excerpt || source.excerpt),
+    content,
+    locale,
+    translationOf: key,
+    alternates: undefined,
+    status: 'draft',
+    scheduledAt: undefined,
+    // Not the original's date; approval sets the real one
+    publishedAt: new Date(),
+    updatedAt: new Date(),
+    readingTimeMinutes: estimateReadingTime(content),
+  };
+
+  return {
+    post: await store.save(draft, { author, source: 'translation' }),
+    confidence: translation.confidence,
+    warnings: translation.warnings,
+  };
+}
+
+/**
+ * Publish the reviewed `locale` draft of the post behind `slug`
+ */
+export async function approveTranslation(slug: string, locale: string, author: string): Promise<BlogPost> {
+  const store = getPostStore();
+  const post = await getPostOrThrow(slug);
+  const translation = getPostTranslations(post, await store.list())[locale];
+
+  if (!translation || !translation.translationOf || translation.status !== 'draft') {
+    throw new TranslationDraftError(
+      'NOT_PENDING',
+      `Post "${slug}" has no ${locale} translation waiting for review`
+    );
+  }
+
+  const now = new Date();
+
+  return store.save(
+    { ...translation, status: 'published', publishedAt: now, updatedAt: now },
+    { author, source: 'manual' }
+  );
+}
+
+/**
+ * The translated title's slug, or the first free of `<slug>-<locale>`,
+ * `<slug>-<locale>-2`, ...
+ */
+async function getAvailableSlug(slug: string, locale: string): Promise<string> {
+  const store = getPostStore();
+  let candidate = slug;
+
+  for (let attempt = 1; await store.getBySlug(candidate); attempt++) {
+    candidate = attempt === 1 ? `${slug}-${locale}` : `${slug}-${locale}-${attempt}`;
+  }
+  return candidate;
+}
@@ -0,0 +1,58 @@
+/**
+ * Translation Glossary
+ *
+ * Terms that must come out of a translation exactly as specified:
+ * product names are kept verbatim, other entries can pin a fixed
+ * translation per language. The list is DEFAULT_GLOSSARY plus the
+ * comma-separated TRANSLATION_GLOSSARY env var plus per-call entries.
+ */
+
+export interface GlossaryEntry {
+  term: string;
+  /**
+   * Fixed translations by language code; the term is kept as-is for
+   * languages not listed
+   */
+  translations?: Record<string, string>;
+}
+
+export const DEFAULT_GLOSSARY: GlossaryEntry[] = [
+  { term: 'Guido Miranda' },
+  { term: 'Next.js' },
+  { term: 'React' },
+  { term: 'TypeScript' },
+  { term: 'JavaScript' },
+  { term: 'Firebase' },
+  { term: 'Firestore' },
+  { term: 'OpenAI' },
+  { term: 'Vercel' },
+  { term: 'Tailwind CSS' },
+];
+
+/**
+ * Default, configured and per-call entries; later entries override
+ * earlier ones for the same term
+ */
+export function getGlossary(extra: Array<string | GlossaryEntry> = []): GlossaryEntry[] {
+  const configured = (process.env.TRANSLATION_GLOSSARY || '')
+    .split(',')
+    .map(term => term.trim())
+    .filter(Boolean);
+
+  const entries = new Map<string, GlossaryEntry>();
+  for (const entry of [...DEFAULT_GLOSSARY, ...configured, ...extra]) {
+    const normalized = typeof entry === 'string' ? { term: entry } : entry;
+    if (normalized.term.trim()) {
+      entries.set(normalized.term, normalized);
+    }
+  }
+
+  return Array.from(entries.values());
+}
+
+/**
+ * What a glossary term becomes in `language`
+ */
+export function resolveGlossaryTerm(entry: GlossaryEntry, language: string): string {
+  return entry.translations?.[language] ?? entry.term;
+}
@@ -0,0 +1,9 @@
+/**
+ * Translation Module
+ *
+ * Markdown segmentation and glossary handling for the translate_content
+ * skill
+ */
+
+export * from './glossary';
+export * from './segments';
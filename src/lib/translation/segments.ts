@@ -0,0 +1,382 @@
+/**
+ * Markdown Translation Segments
+ *
+ * Splits a markdown document into the pieces a model should translate and
+ * the pieces it must never see. Fenced code blocks, blank lines and
+ * frontmatter (keys and non-text values) are kept verbatim; inside prose,
+ * inline code, URLs, link targets, HTML tags and glossary terms are swapped
+ * for numbered placeholders and restored after translation. Pure helpers.
+ */
+
+import { resolveGlossaryTerm, type GlossaryEntry } from './glossary';
+
+/**
+ * Hard cap per model request
+ */
+export const MAX_CHUNK_LENGTH = 50_000;
+
+/**
+ * Default chunk size; well under the cap so responses stay short
+ */
+export const DEFAULT_CHUNK_LENGTH = 12_000;
+
+/**
+ * Frontmatter fields whose values are reader-facing text
+ */
+export const TRANSLATABLE_FRONTMATTER_KEYS = ['title', 'excerpt', 'description'];
+
+export type DocumentPart =
+  | { translate: false; text: string }
+  | {
+      translate: true;
+      /**
+       * Text sent to the model, with placeholders
+       */
+      text: string;
+      /**
+       * Original text, used when a translation loses placeholders
+       */
+      source: string;
+      /**
+       * Frontmatter values are written back as quoted YAML strings
+       */
+      yaml?: boolean;
+    };
+
+export interface TranslationDocument {
+  parts: DocumentPart[];
+  /**
+   * What each placeholder restores to, by index
+   */
+  tokens: string[];
+}
+
+export interface RestoredDocument {
+  text: string;
+  warnings: string[];
+}
+
+// ============================================================================
+// Placeholders
+// ============================================================================
+
+const PLACEHOLDER_PATTERN = /⟦(\d+)⟧/g;
+
+export function placeholder(index: number): string {
+  return `⟦${index}⟧`;
+}
+
+function getPlaceholders(text: string): string[] {
+  return Array.from(text.matchAll(PLACEHOLDER_PATTERN), match => match[0]).sort();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Inline code, link targets, autolinks, bare URLs and HTML tags, then
+ * glossary terms (longest first). One alternation, so a term inside a URL
+ * is protected as part of the URL.
+ */
+function buildProtectedPattern(glossary: GlossaryEntry[]): RegExp {
+  const sources = [
+    '``[^\\n]+?``',
+    '`[^`\\n]+`',
+    '\\]\\([^)\\s]+(?:\\s+"[^"]*")?\\)',
+    '<https?:\\/\\/[^>\\s]+>',
+    'https?:\\/\\/[^\\s)<>\\]]+',
+    '<\\/?[a-zA-Z][^>\\n]*>',
+  ];
+
+  const terms = glossary
+    .map(entry => entry.term)
+    .sort((a, b) => b.length - a.length)
+    .map(term => {
+      const start = /\w/.test(term[0]) ? '\\b' : '';
+      const end = /\w/.test(term[term.length - 1]) ? '\\b' : '';
+      return `${start}${escapeRegExp(term)}${end}`;
+    });
+
+  return new RegExp([...sources, ...terms].join('|'), 'g');
+}
+
+// ============================================================================
+// Document Building
+// ============================================================================
+
+class DocumentBuilder {
+  readonly parts: DocumentPart[] = [];
+  readonly tokens: string[] = [];
+  private readonly pattern: RegExp;
+  private readonly glossary: Map<string, GlossaryEntry>;
+
+  constructor(
+    glossary: GlossaryEntry[],
+    private readonly targetLanguage: string,
+    private readonly maxLength: number
+  ) {
+    this.pattern = buildProtectedPattern(glossary);
+    this.glossary = new Map(glossary.map(entry => [entry.term, entry]));
+  }
+
+  keep(text: string): void {
+    if (!text) return;
+    const last = this.parts[this.parts.length - 1];
+    if (last && !last.translate) {
+      last.text += text;
+    } else {
+      this.parts.push({ translate: false, text });
+    }
+  }
+
+  translate(text: string, yaml: boolean = false): void {
+    if (!text.trim()) {
+      this.keep(text);
+      return;
+    }
+
+    // Leading/trailing whitespace stays outside so the model can't eat it
+    const leading = text.match(/^\s*/)?.[0] ?? '';
+    const trailing = text.slice(leading.length).match(/\s*$/)?.[0] ?? '';
+    const core = text.slice(leading.length, text.length - trailing.length);
+
+    // Frontmatter values are short and must stay one quoted string
+    const pieces = yaml ? [{ translate: true, text: core }] : splitOversized(core, this.maxLength);
+
+    this.keep(leading);
+    for (const piece of pieces) {
+      if (piece.translate) {
+        this.parts.push({ translate: true, text: this.protect(piece.text), source: piece.text, yaml });
+      } else {
+        this.keep(piece.text);
+      }
+    }
+    this.keep(trailing);
+  }
+
+  private protect(text: string): string {
+    return text.replace(this.pattern, match => {
+      const entry = this.glossary.get(match);
+      this.tokens.push(entry ? resolveGlossaryTerm(entry, this.targetLanguage) : match);
+      return placeholder(this.tokens.length - 1);
+    });
+  }
+}
+
+type Piece = { translate: boolean; text: string };
+
+/**
+ * Splits text longer than `maxLength` at line breaks, else at whitespace;
+ * the separators at the cut points are kept out of translation
+ */
+function splitOversized(text: string, maxLength: number): Piece[] {
+  if (text.length <= maxLength) return [{ translate: true, text }];
+
+  for (const separator of ['\\n+', '\\s+']) {
+    // The capture group keeps separators at odd indexes
+    const tokens = text.split(new RegExp(`(${separator})`));
+    const pieces: Piece[] = [];
+    let current = '';
+    let pending = '';
+
+    for (let i = 0; i < tokens.length; i += 2) {
+      if (current && current.length + pending.length + tokens[i].length > maxLength) {
+        pieces.push({ translate: true, text: current }, { translate: false, text: pending });
+        current = tokens[i];
+      } else {
+        current += pending + tokens[i];
+      }
+      pending = tokens[i + 1] ?? '';
+    }
+    pieces.push({ translate: true, text: current });
+
+    if (pieces.every(piece => piece.text.length <= maxLength)) return pieces;
+  }
+
+  // A single unbroken run longer than the limit
+  const pieces: Piece[] = [];
+  for (let i = 0; i < text.length; i += maxLength) {
+    pieces.push({ translate: true, text: text.slice(i, i + maxLength) });
+  }
+  return pieces;
+}
+
+/**
+ * Unquotes a single-line YAML scalar; undefined for values we don't
+ * translate (block scalars, lists, objects, non-strings)
+ */
+function parseYamlString(raw: string): string | undefined {
+  const value = raw.trim();
+  if (!value || /^[|>[{&*!]/.test(value)) return undefined;
+
+  if (value.startsWith("'")) {
+    return value.endsWith("'") && value.length > 1 ? value.slice(1, -1).replace(/''/g, "'") : undefined;
+  }
+  if (value.startsWith('"')) {
+    try {
+      const parsed = JSON.parse(value);
+      return typeof parsed === 'string' ? parsed : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Numbers, booleans and dates aren't prose
+  if (/^(true|false|null|~|-?\d[\d.:\-TZ ]*)$/i.test(value)) return undefined;
+  return value.replace(/\s+#.*$/, '');
+}
+
+function addFrontmatter(builder: DocumentBuilder, frontmatter: string): void {
+  const lines = frontmatter.split('\n');
+
+  lines.forEach((line, index) => {
+    const newline = index < lines.length - 1 ? '\n' : '';
+    const match = line.match(/^([A-Za-z_][\w-]*):[ \t]*(.*)$/);
+    const value = match && TRANSLATABLE_FRONTMATTER_KEYS.includes(match[1]) ? parseYamlString(match[2]) : undefined;
+
+    if (match && value) {
+      builder.keep(`${match[1]}: `);
+      builder.translate(value, true);
+      builder.keep(newline);
+    } else {
+      builder.keep(line + newline);
+    }
+  });
+}
+
+function addBody(builder: DocumentBuilder, body: string): void {
+  const lines = body.split('\n');
+  const isBlank = (line: string) => /^\s*$/.test(line);
+  const fenceOf = (line: string) => line.match(/^\s*(`{3,}|~{3,})/)?.[1];
+  // Reference-style link definitions: [id]: https://...
+  const isDefinition = (line: string) => /^\s{0,3}\[[^\]]+\]:\s*\S+/.test(line);
+
+  let i = 0;
+  while (i < lines.length) {
+    const fence = fenceOf(lines[i]);
+
+    if (fence) {
+      const closing = new RegExp(`^\\s*${escapeRegExp(fence[0])}{${fence.length},}\\s*$`);
+      let end = i + 1;
+      while (end < lines.length && !closing.test(lines[end])) end++;
+      end = Math.min(end, lines.length - 1);
+
+      builder.keep(lines.slice(i, end + 1).join('\n'));
+      i = end + 1;
+    } else if (isBlank(lines[i]) || isDefinition(lines[i])) {
+      builder.keep(lines[i]);
+      i++;
+    } else {
+      let end = i;
+      while (end < lines.length && !isBlank(lines[end]) && !fenceOf(lines[end]) && !isDefinition(lines[end])) {
+        end++;
+      }
+
+      builder.translate(lines.slice(i, end).join('\n'));
+      i = end;
+    }
+
+    if (i < lines.length) builder.keep('\n');
+  }
+}
+
+/**
+ * Splits `markdown` into kept and translatable parts. Translatable parts
+ * are at most `maxLength` characters before placeholder substitution.
+ */
+export function prepareDocument(
+  markdown: string,
+  options: { glossary?: GlossaryEntry[]; targetLanguage: string; maxLength?: number }
+): TranslationDocument {
+  const maxLength = Math.min(options.maxLength ?? DEFAULT_CHUNK_LENGTH, MAX_CHUNK_LENGTH);
+  const builder = new DocumentBuilder(options.glossary ?? [], options.targetLanguage, maxLength);
+
+  const frontmatter = markdown.match(/^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/);
+  if (frontmatter) {
+    const start = frontmatter[0].indexOf(frontmatter[1]);
+    builder.keep(frontmatter[0].slice(0, start));
+    addFrontmatter(builder, frontmatter[1]);
+    builder.keep(frontmatter[0].slice(start + frontmatter[1].length));
+  }
+
+  addBody(builder, markdown.slice(frontmatter ? frontmatter[0].length : 0));
+
+  return { parts: builder.parts, tokens: builder.tokens };
+}
+
+/**
+ * Texts the model should translate, in document order
+ */
+export function getSegments(document: TranslationDocument): string[] {
+  return document.parts.flatMap(part => (part.translate ? [part.text] : []));
+}
+
+/**
+ * Groups segments into chunks whose combined length stays under
+ * `maxLength`; each chunk is one model request
+ */
+export function chunkSegments(segments: string[], maxLength: number = DEFAULT_CHUNK_LENGTH): string[][] {
+  const limit = Math.min(maxLength, MAX_CHUNK_LENGTH);
+  const chunks: string[][] = [];
+  let current: string[] = [];
+  let length = 0;
+
+  for (const segment of segments) {
+    if (current.length > 0 && length + segment.length > limit) {
+      chunks.push(current);
+      current = [];
+      length = 0;
+    }
+    current.push(segment);
+    length += segment.length;
+  }
+
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Puts `translations` (one per segment) back into the document and
+ * restores placeholders. A segment whose placeholders didn't survive
+ * translation keeps its source text and adds a warning.
+ */
+export function restoreDocument(document: TranslationDocument, translations: string[]): RestoredDocument {
+  const warnings: string[] = [];
+  let index = 0;
+
+  const text = document.parts
+    .map(part => {
+      if (!part.translate) return part.text;
+
+      const segment = index++;
+      const translated = translations[segment];
+      let restored: string;
+
+      if (typeof translated !== 'string' || !translated.trim()) {
+        warnings.push(`Segment ${segment + 1} came back empty; kept source text`);
+        restored = part.source;
+      } else if (getPlaceholders(translated).join() !== getPlaceholders(part.text).join()) {
+        warnings.push(`Segment ${segment + 1} lost protected code, links or glossary terms; kept source text`);
+        restored = part.source;
+      } else {
+        restored = translated.replace(PLACEHOLDER_PATTERN, (_, n: string) => document.tokens[Number(n)]);
+      }
+
+      return part.yaml ? JSON.stringify(restored.replace(/\s*\n\s*/g, ' ')) : restored;
+    })
+    .join('');
+
+  return { text, warnings };
+}
+
+/**
+ * Everything a translation must reproduce verbatim: code blocks,
+ * frontmatter keys and other kept text, inline code, URLs and link targets
+ */
+export function getPreservedContent(markdown: string): string[] {
+  const document = prepareDocument(markdown, { targetLanguage: '' });
+  const kept = document.parts.flatMap(part => (part.translate ? [] : [part.text.trim()]));
+
+  return [...kept, ...document.tokens].filter(Boolean);
+}
@@ -153,6 +153,8 @@ export const MetricNames = {
   API_REQUESTS_TOTAL: 'api_requests_total',
   API_LATENCY_MS: 'api_latency_ms',
   API_ERRORS_TOTAL: 'api_errors_total',
+  RATE_LIMIT_CHECKS_TOTAL: 'rate_limit_checks_total',
+  RATE_LIMITED_TOTAL: 'rate_limited_total',
   
   // Agent metrics
   AGENT_PROCESS_DURATION_MS: 'agent_process_duration_ms',
@@ -187,6 +189,14 @@ export const recordAPIRequest = (endpoint: string, method: string, statusCode: n
   }
 };
 
+export const recordRateLimit = (endpoint: string, allowed: boolean) => {
+  metrics.incrementCounter(MetricNames.RATE_LIMIT_CHECKS_TOTAL, 1, { endpoint, allowed: String(allowed) });
+  
+  if (!allowed) {
+    metrics.incrementCounter(MetricNames.RATE_LIMITED_TOTAL, 1, { endpoint });
+  }
+};
+
 export const recordSkillExecution = (skillId: string, duration: number, success: boolean, tokensUsed?: number, costUSD?: number) => {
   metrics.incrementCounter(MetricNames.SKILL_EXECUTION_TOTAL, 1, { skill: skillId, success: String(success) });
   metrics.recordValue(MetricNames.SKILL_EXECUTION_DURATION_MS, duration, { skill: skillId });
@@ -0,0 +1,125 @@
+/**
+ * Server-Sent Events
+ *
+ * Streams chat output as named events:
+ * - token: `{ content }`, one per chunk of model output
+ * - done: `{ output }`, the response is complete; carries the validated
+ *   ChatInteractionOutput (intent, sources, suggestions, metadata)
+ * - error: `{ error, code? }`, the stream failed; always the last event
+ *
+ * Used by the chat route to write the stream and by ChatBot to read it,
+ * so this module must stay free of server-only imports.
+ */
+
+import type { ChatInteractionOutput } from '@/lib/skills/chat_interaction';
+
+export type ChatStreamEvent =
+  | { type: 'token'; content: string }
+  | { type: 'done'; output: ChatInteractionOutput }
+  | { type: 'error'; error: string; code?: string };
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+} as const;
+
+export function encodeEvent(event: ChatStreamEvent): string {
+  const { type, ...data } = event;
+  return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Build an SSE response from a producer of events.
+ *
+ * Whatever the producer throws is sent as a final error event, since the
+ * status code has already gone out. `onCancel` runs when the reader goes
+ * away before the stream ends (e.g. the user pressed stop).
+ */
+export function createEventStream(
+  produce: (send: (event: ChatStreamEvent) => void) => Promise<void>,
+  onCancel?: () => void
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => {
+        if (!closed) controller.enqueue(encoder.encode(encodeEvent(event)));
+      };
+
+      try {
+        await produce(send);
+      } catch (error: any) {
+        send({
+          type: 'error',
+          error: error instanceof Error ? error.message : 'An unknown error occurred',
+          code: error?.code,
+        });
+      }
+
+      if (!closed) {
+        closed = true;
+        controller.close();
+      }
+    },
+    cancel() {
+      closed = true;
+      onCancel?.();
+    },
+  });
+}
+
+/**
+ * Parse one `event:`/`data:` block; blocks without data are skipped
+ */
+function parseBlock(block: string): ChatStreamEvent | undefined {
+  let type = 'message';
+  const data: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      type = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      data.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (data.length === 0) return undefined;
+
+  return { type, ...JSON.parse(data.join('\n')) } as ChatStreamEvent;
+}
+
+/**
+ * Read events from an SSE body as they arrive
+ */
+export async function* readEventStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ChatStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const event = parseBlock(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (event) yield event;
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+
+    const event = parseBlock(buffer.trim());
+    if (event) yield event;
+  } finally {
+    reader.releaseLock();
+  }
+}
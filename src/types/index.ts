@@ -1,3 +1,5 @@
+export type PostStatus = 'draft' | 'scheduled' | 'published' | 'archived';
+
 export interface BlogPost {
   id: string;
   slug: string;
@@ -8,15 +10,98 @@ export interface BlogPost {
   publishedAt: Date;
   updatedAt: Date;
   tags: string[];
+  category: string;
   imageUrl?: string;
+  status: PostStatus;
+  scheduledAt?: Date;
+  /**
+   * Estimated from the content when the post is loaded
+   */
+  readingTimeMinutes?: number;
+  /**
+   * BCP 47 language of the post (DEFAULT_LOCALE when unset)
+   */
+  locale?: string;
+  /**
+   * Other-language versions of this post: locale -> slug
+   */
+  alternates?: Record<string, string>;
+  /**
+   * Id of the post this one translates; all versions of a post share the
+   * original's id as their translation key
+   */
+  translationOf?: string;
+}
+
+export type RevisionSource = 'manual' | 'generate_blog_post' | 'translation' | 'restore' | 'import';
+
+export interface PostRevision {
+  id: string;
+  postId: string;
+  /**
+   * 1-based, increasing per post
+   */
+  number: number;
+  author: string;
+  source: RevisionSource;
+  createdAt: Date;
+  /**
+   * sha256 of the markdown content
+   */
+  contentHash: string;
+  /**
+   * The post exactly as it was saved
+   */
+  snapshot: BlogPost;
+  /**
+   * Set when this revision restored an older one
+   */
+  restoredFrom?: string;
 }
 
+export type CommentStatus = 'published' | 'pending' | 'rejected';
+
+export type CommentReaction = 'like' | 'insightful' | 'laugh' | 'confused';
+
 export interface Comment {
   id: string;
   postId: string;
+  /**
+   * Comment this one replies to (absent for top-level comments)
+   */
+  parentId?: string;
+  /**
+   * 0 for top-level comments, parent depth + 1 for replies
+   */
+  depth: number;
+  /**
+   * Commenter identity from getClientId (never a client-chosen header),
+   * used for moderation history
+   */
+  userId: string;
   author: string;
   content: string;
   createdAt: Date;
+  status: CommentStatus;
+  /**
+   * Identities (getClientId) of the clients who reacted, per reaction
+   */
+  reactions: Partial<Record<CommentReaction, string[]>>;
+  /**
+   * Set when deleted; the comment stays as a tombstone so replies keep their place
+   */
+  deletedAt?: Date;
+  moderation?: CommentModeration;
+}
+
+export interface CommentModeration {
+  checkedAt: Date;
+  flagged: boolean;
+  /**
+   * Violation reasons reported by moderate_content
+   */
+  reasons: string[];
+  previousViolations: number;
 }
 
 export interface ChatMessage {
@@ -24,4 +109,8 @@ export interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  /**
+   * Blog posts the assistant drew on (from chat_interaction)
+   */
+  sources?: Array<{ title: string; slug: string; locale: string }>;
 }
@@ -0,0 +1,27 @@
+/**
+ * Post Fixtures
+ *
+ * A published post for tests to override field by field. Slug and title
+ * follow the id unless given, so lists of posts stay distinct.
+ */
+
+import type { BlogPost } from '@/types';
+
+export function makePost(overrides: Partial<BlogPost> = {}): BlogPost {
+  const id = overrides.id ?? '1';
+
+  return {
+    id,
+    slug: `post-${id}`,
+    title: `Post ${id}`,
+    excerpt: 'Excerpt',
+    content: 'Body',
+    author: 'Guido Miranda',
+    publishedAt: new Date('2024-01-15T00:00:00Z'),
+    updatedAt: new Date('2024-01-15T00:00:00Z'),
+    tags: [],
+    category: 'Web Development',
+    status: 'published',
+    ...overrides,
+  };
+}
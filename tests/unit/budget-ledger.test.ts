@@ -0,0 +1,235 @@
+/**
+ * Unit Tests for the Budget Ledger
+ *
+ * Tests reserve/settle accounting, each spending cap and how a rejection
+ * reaches skills, the orchestrator and API callers
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import {
+  BudgetLedger,
+  BudgetedLLMProvider,
+  FakeLLMProvider,
+  calculateCost,
+  estimateRequest,
+  estimateTokens,
+  getBudgetLedger,
+  setBudgetLedger,
+  setLLMProvider,
+  type LLMUsage,
+} from '@/lib/llm';
+import { summarizeContentSkill } from '@/lib/skills/summarize_content';
+import { orchestrator } from '@/lib/agents';
+import { POST as summarize } from '@/app/api/ai/summarize/route';
+import { metrics, MetricNames } from '@/lib/utils/metrics';
+
+const limits = { perRequestUSD: 1, perUserDailyUSD: 2, dailyUSD: 3 };
+
+const request = {
+  model: 'gpt-4o-mini',
+  messages: [{ role: 'user' as const, content: 'Explain React hooks' }],
+  maxTokens: 500,
+};
+
+const ARTICLE = Array(30)
+  .fill('Hooks let function components keep state and run effects without classes.')
+  .join(' ');
+
+describe('BudgetLedger', () => {
+  let ledger: BudgetLedger;
+
+  beforeEach(() => {
+    ledger = new BudgetLedger(limits);
+  });
+
+  it('should hold reservations until they are settled at the actual cost', () => {
+    const reservation = ledger.reserve({ requestId: 'r1', userId: 'ana' }, 0.5);
+    expect(ledger.getSpend()).toMatchObject({ spentUSD: 0, reservedUSD: 0.5, remainingUSD: 2.5, requests: 1 });
+
+    ledger.settle(reservation, 0.1);
+    expect(ledger.getSpend()).toMatchObject({ spentUSD: 0.1, reservedUSD: 0, users: 1, requests: 0 });
+    expect(ledger.getUserSpend('ana')).toBe(0.1);
+  });
+
+  it('should reject calls over each cap with its own code', () => {
+    expect(() => ledger.reserve({ requestId: 'r1' }, 1.5)).toThrow(
+      expect.objectContaining({ code: 'REQUEST_BUDGET_EXCEEDED' })
+    );
+    expect(() => ledger.reserve({ requestId: 'r1', limitUSD: 0.1 }, 0.2)).toThrow(
+      expect.objectContaining({ code: 'REQUEST_BUDGET_EXCEEDED' })
+    );
+
+    ledger.settle(ledger.reserve({ requestId: 'r2', userId: 'ana' }, 1), 1);
+    ledger.settle(ledger.reserve({ requestId: 'r3', userId: 'ana' }, 1), 1);
+    expect(() => ledger.reserve({ requestId: 'r4', userId: 'ana' }, 0.5)).toThrow(
+      expect.objectContaining({ code: 'USER_BUDGET_EXCEEDED' })
+    );
+
+    ledger.settle(ledger.reserve({ requestId: 'r5', userId: 'luis' }, 0.9), 0.9);
+    expect(() => ledger.reserve({ requestId: 'r6', userId: 'eva' }, 0.5)).toThrow(
+      expect.objectContaining({ code: 'DAILY_BUDGET_EXCEEDED', details: expect.objectContaining({ limitUSD: 3 }) })
+    );
+  });
+
+  it('should keep at most maxRequests request accounts, dropping the least recently used', () => {
+    ledger = new BudgetLedger(limits, 2);
+
+    ledger.settle(ledger.reserve({ requestId: 'r1' }, 0.9), 0.9);
+    ledger.settle(ledger.reserve({ requestId: 'r2' }, 0.1), 0.1);
+    // r1 is used again, so r2 makes room for r3
+    expect(() => ledger.reserve({ requestId: 'r1' }, 0.5)).toThrow(
+      expect.objectContaining({ code: 'REQUEST_BUDGET_EXCEEDED' })
+    );
+    ledger.settle(ledger.reserve({ requestId: 'r3' }, 0.1), 0.1);
+
+    expect(() => ledger.reserve({ requestId: 'r1' }, 0.5)).toThrow(
+      expect.objectContaining({ code: 'REQUEST_BUDGET_EXCEEDED' })
+    );
+    // r2 starts over, although it already spent 0.1
+    ledger.reserve({ requestId: 'r2' }, 0.95);
+    expect(ledger.getSpend()).toMatchObject({ spentUSD: 1.1, reservedUSD: 0.95, requests: 1 });
+  });
+
+  it('should hold nothing when a call is rejected', () => {
+    ledger.settle(ledger.reserve({ requestId: 'r1', userId: 'ana' }, 0.9), 0.9);
+
+    expect(() => ledger.reserve({ requestId: 'r1', userId: 'ana' }, 0.5)).toThrow();
+    expect(ledger.getSpend().reservedUSD).toBe(0);
+  });
+});
+
+describe('BudgetedLLMProvider', () => {
+  it('should reserve the estimate and settle the reported cost', async () => {
+    const ledger = new BudgetLedger(limits);
+    const provider = new BudgetedLLMProvider(new FakeLLMProvider(), ledger, { requestId: 'r1' });
+
+    const result = await provider.complete(request);
+
+    expect(ledger.getSpend().spentUSD).toBeCloseTo(calculateCost(result.usage!, result.model), 6);
+    expect(ledger.getSpend().spentUSD).toBeLessThanOrEqual(estimateRequest(request).maxCostUSD);
+    expect(ledger.getSpend().reservedUSD).toBe(0);
+  });
+
+  it('should not let an unknown model through for free', async () => {
+    const ledger = new BudgetLedger({ ...limits, perRequestUSD: 0.001 });
+    const provider = new BudgetedLLMProvider(new FakeLLMProvider(), ledger, { requestId: 'r1' });
+
+    await expect(provider.complete({ ...request, model: 'mystery-model' })).rejects.toMatchObject({
+      code: 'REQUEST_BUDGET_EXCEEDED',
+    });
+  });
+
+  it('should settle the prompt of calls that fail', async () => {
+    const ledger = new BudgetLedger(limits);
+    const failing = new FakeLLMProvider({
+      respond: () => {
+        throw new Error('Provider down');
+      },
+    });
+    const partial: Array<[string, LLMUsage]> = [];
+    const provider = new BudgetedLLMProvider(failing, ledger, { requestId: 'r1', userId: 'ana' }, (model, usage) =>
+      partial.push([model, usage])
+    );
+    const { promptTokens } = estimateRequest(request);
+
+    await expect(provider.complete(request)).rejects.toThrow('Provider down');
+
+    const promptUSD = calculateCost({ prompt_tokens: promptTokens, completion_tokens: 0 }, request.model);
+    expect(promptUSD).toBeGreaterThan(0);
+    expect(ledger.getSpend()).toMatchObject({ spentUSD: promptUSD, reservedUSD: 0 });
+    expect(ledger.getUserSpend('ana')).toBe(promptUSD);
+    expect(partial).toEqual([[request.model, { prompt_tokens: promptTokens, completion_tokens: 0, total_tokens: promptTokens }]]);
+  });
+
+  it('should settle the tokens streamed before a call is aborted', async () => {
+    const ledger = new BudgetLedger(limits);
+    const provider = new BudgetedLLMProvider(
+      new FakeLLMProvider({ respond: () => 'Hooks let function components keep state and run effects.' }),
+      ledger,
+      { requestId: 'r1', userId: 'ana' }
+    );
+    const controller = new AbortController();
+    let streamed = '';
+
+    await expect(
+      provider.complete({
+        ...request,
+        signal: controller.signal,
+        onToken: token => {
+          streamed += token;
+          if (streamed.split(' ').length === 3) controller.abort();
+        },
+      })
+    ).rejects.toThrow('Request aborted');
+
+    const { promptTokens } = estimateRequest(request);
+    expect(ledger.getUserSpend('ana')).toBeCloseTo(
+      calculateCost({ prompt_tokens: promptTokens, completion_tokens: estimateTokens(streamed) }, request.model),
+      6
+    );
+  });
+});
+
+describe('budget enforcement', () => {
+  beforeEach(() => {
+    setBudgetLedger(new BudgetLedger(limits));
+    setLLMProvider(new FakeLLMProvider());
+  });
+
+  afterEach(() => {
+    setBudgetLedger(null);
+    setLLMProvider(null);
+  });
+
+  it('should reject a skill call over the request budget before it reaches the model', async () => {
+    await expect(
+      summarizeContentSkill.execute({ content: ARTICLE }, { budgetUSD: 0.000001 })
+    ).rejects.toMatchObject({ name: 'SkillExecutionError', code: 'REQUEST_BUDGET_EXCEEDED', recoverable: false });
+  });
+
+  it('should report the budget code from the orchestrator', async () => {
+    const result = await orchestrator.orchestrate({
+      intent: 'Summarize this',
+      type: 'summarize_content',
+      params: { content: ARTICLE },
+      context: { traceId: 'budget-test', userId: 'ana', budgetUSD: 0.000001 },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toContainEqual(expect.objectContaining({ code: 'REQUEST_BUDGET_EXCEEDED' }));
+  });
+
+  it('should record the cost of a failed model call in the metrics', async () => {
+    metrics.reset();
+    setLLMProvider(new FakeLLMProvider({
+      respond: () => {
+        throw new Error('Provider down');
+      },
+    }));
+
+    await expect(summarizeContentSkill.execute({ content: ARTICLE })).rejects.toThrow('Provider down');
+
+    expect(metrics.getCounter(MetricNames.COST_USD_TOTAL, { skill: 'summarize_content' })).toBeGreaterThan(0);
+    expect(metrics.getCounter(MetricNames.COST_USD_TOTAL, { skill: 'summarize_content' })).toBeCloseTo(
+      getBudgetLedger().getSpend().spentUSD,
+      6
+    );
+  });
+
+  it('should charge API callers by their client identity, not the x-user-id they send', async () => {
+    const ledger = new BudgetLedger(limits);
+    setBudgetLedger(ledger);
+
+    await summarize(
+      new NextRequest('http://localhost:3000/api/ai/summarize', {
+        method: 'POST',
+        headers: { 'x-user-id': 'made-up', 'x-real-ip': '203.0.113.7' },
+        body: JSON.stringify({ content: ARTICLE }),
+      })
+    );
+
+    expect(ledger.getUserSpend('ip:203.0.113.7')).toBeGreaterThan(0);
+    expect(ledger.getUserSpend('made-up')).toBe(0);
+  });
+});
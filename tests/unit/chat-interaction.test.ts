@@ -0,0 +1,95 @@
+/**
+ * Unit Tests for Chat Interaction
+ *
+ * Runs the chat_interaction skill end to end against recorded model
+ * replies (tests/fixtures/llm/chat-interaction.json), including streamed
+ * tokens and blog sources
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { chatInteractionSkill } from '@/lib/skills/chat_interaction';
+import { FakeLLMProvider, setLLMProvider, type LLMChatRequest } from '@/lib/llm';
+import { RecordedLLMProvider } from '@/lib/llm/recording';
+import { InMemoryPostStore, setPostStore } from '@/lib/posts';
+import { invalidatePostSearchIndex } from '@/lib/search';
+import type { BlogPost } from '@/types';
+
+const hooksPost: BlogPost = {
+  id: 'react-hooks',
+  slug: 'react-hooks',
+  title: 'Understanding React Hooks',
+  excerpt: 'How useState and useEffect replace class lifecycles',
+  content: 'React hooks let function components keep state with useState and run effects with useEffect.',
+  author: 'Guido Miranda',
+  publishedAt: new Date('2024-01-15T00:00:00Z'),
+  updatedAt: new Date('2024-01-15T00:00:00Z'),
+  tags: ['react', 'hooks'],
+  category: 'Web Development',
+  status: 'published',
+};
+
+describe('chat_interaction skill', () => {
+  beforeEach(() => {
+    setLLMProvider(new RecordedLLMProvider({ fixture: 'chat-interaction' }));
+    // Sources are part of the prompt, so the index must not depend on content/
+    setPostStore(new InMemoryPostStore(async () => [hooksPost]));
+    invalidatePostSearchIndex();
+  });
+
+  afterEach(() => {
+    setLLMProvider(null);
+    setPostStore(null);
+    invalidatePostSearchIndex();
+  });
+
+  it('should stream the reply and return the same text', async () => {
+    const tokens: string[] = [];
+    const output = await chatInteractionSkill.execute({
+      message: 'Hola, buenos días',
+      options: { onToken: token => tokens.push(token) },
+    });
+
+    expect(output.intent.type).toBe('chitchat');
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join('')).toBe(output.response);
+    expect(output.suggestions).toContain('¿Tienes alguna pregunta técnica?');
+    expect(output.metadata.tokensUsed).toBeGreaterThan(0);
+  });
+
+  it('should report the model that actually answered', async () => {
+    setLLMProvider(new (class extends FakeLLMProvider {
+      async complete(request: LLMChatRequest) {
+        return { ...(await super.complete(request)), model: 'llama3.1:8b' };
+      }
+    })());
+
+    const output = await chatInteractionSkill.execute({ message: 'Hola, buenos días' });
+
+    expect(output.metadata.model).toBe('llama3.1:8b');
+  });
+
+  it('should answer questions citing blog posts', async () => {
+    const output = await chatInteractionSkill.execute({
+      message: 'How do I manage state with React hooks?',
+      context: { currentPage: '/en/blog/react-hooks' },
+    });
+
+    expect(output.intent).toMatchObject({ type: 'question', topic: 'react' });
+    expect(output.sources).toEqual([expect.objectContaining({ slug: 'react-hooks' })]);
+    expect(output.response.trim().length).toBeGreaterThanOrEqual(20);
+    expect(output.metadata.requiresHumanReview).toBe(false);
+  });
+
+  it('should keep earlier turns in the conversation', async () => {
+    const output = await chatInteractionSkill.execute({
+      message: 'Thanks, bye',
+      conversationHistory: [
+        { role: 'user', content: 'Hi there', timestamp: new Date('2024-01-15T10:00:00Z') },
+        { role: 'assistant', content: 'Hello! How can I help?', timestamp: new Date('2024-01-15T10:00:01Z') },
+      ],
+    });
+
+    expect(output.intent.type).toBe('chitchat');
+    expect(output.response.trim().length).toBeGreaterThanOrEqual(20);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Unit Tests for Code Blocks
+ *
+ * Tests fence meta parsing and highlighted code block rendering
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCodeMeta } from '@/lib/posts/code-blocks';
+import { renderMarkdown, renderPostContent } from '@/lib/posts/markdown';
+
+describe('parseCodeMeta', () => {
+  it('should parse line ranges', () => {
+    expect(Array.from(parseCodeMeta('{1,3-5}', 10).highlightLines)).toEqual([1, 3, 4, 5]);
+    expect(parseCodeMeta('{ 2 , 4-4 }', 10).highlightLines).toEqual(new Set([2, 4]));
+  });
+
+  it('should clamp ranges to the block', () => {
+    expect(parseCodeMeta('{0-999999999}', 3).highlightLines).toEqual(new Set([1, 2, 3]));
+    expect(parseCodeMeta('{5-9}', 3).highlightLines).toEqual(new Set());
+  });
+
+  it('should parse quoted and bare titles', () => {
+    expect(parseCodeMeta('title="src/app/page.tsx"', 1).title).toBe('src/app/page.tsx');
+    expect(parseCodeMeta("{2} title='my file.ts'", 1).title).toBe('my file.ts');
+    expect(parseCodeMeta('filename=setup.sh', 1).title).toBe('setup.sh');
+  });
+
+  it('should handle missing meta', () => {
+    expect(parseCodeMeta(undefined, 1)).toEqual({ highlightLines: new Set(), title: undefined });
+  });
+});
+
+describe('highlighted code blocks', () => {
+  const markdown = [
+    '```ts {2} title="greet.ts"',
+    'const name = "world";',
+    'console.log(`hi ${name}`);',
+    '```',
+    '',
+    '```unknown-lang',
+    '<b>raw</b>',
+    '```',
+  ].join('\n');
+
+  it('should highlight with light colors and dark variables', async () => {
+    const { html } = await renderPostContent(markdown);
+
+    expect(html).toContain('<figcaption class="code-block-title">greet.ts</figcaption>');
+    expect(html).toContain('class="shiki shiki-themes github-light github-dark"');
+    expect(html).toMatch(/style="color:#[0-9A-F]{6};--shiki-dark:#[0-9A-F]{6}"/i);
+    expect(html).toContain('data-copy-code');
+  });
+
+  it('should mark highlighted lines', async () => {
+    const { html } = await renderPostContent(markdown);
+    const lines = html.match(/<span class="line[^"]*">/g) || [];
+
+    expect(lines).toEqual([
+      '<span class="line">',
+      '<span class="line highlighted">',
+      '<span class="line">',
+    ]);
+  });
+
+  it('should fall back to escaped plain text for unknown languages', async () => {
+    const { html } = await renderPostContent(markdown);
+
+    expect(html).toContain('data-language="unknown-lang"');
+    expect(html).toContain('&#x3C;b>raw&#x3C;/b>');
+    expect(html).not.toContain('<b>raw</b>');
+  });
+
+  it('should leave feed HTML unhighlighted', async () => {
+    const html = await renderMarkdown(markdown);
+
+    expect(html).toContain('<pre><code class="language-ts">');
+    expect(html).not.toContain('shiki');
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit Tests for Comment Threads
+ *
+ * Tests reply placement, tree building, sorting and tombstones, and
+ * that submissions fail closed without moderation
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { buildCommentTree, resolveReplyPlacement } from '@/lib/comments/thread';
+import { InMemoryCommentStore, submitComment } from '@/lib/comments';
+import { setLLMProvider } from '@/lib/llm';
+import type { Comment } from '@/types';
+
+const makeComment = (overrides: Partial<Comment> = {}): Comment => ({
+  id: '1',
+  postId: 'post-1',
+  depth: 0,
+  userId: 'user-1',
+  author: 'Ada',
+  content: 'Hello',
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  status: 'published',
+  reactions: {},
+  ...overrides
+});
+
+describe('resolveReplyPlacement', () => {
+  it('should nest replies below the maximum depth', () => {
+    const parent = makeComment({ id: 'a', depth: 1, parentId: 'root' });
+
+    expect(resolveReplyPlacement(parent, 3)).toEqual({ parentId: 'a', depth: 2 });
+  });
+
+  it('should attach replies at the maximum depth to the parent\'s parent', () => {
+    const parent = makeComment({ id: 'a', depth: 3, parentId: 'b' });
+
+    expect(resolveReplyPlacement(parent, 3)).toEqual({ parentId: 'b', depth: 3 });
+    expect(resolveReplyPlacement(makeComment({ id: 'root' }), 0)).toEqual({ parentId: undefined, depth: 0 });
+  });
+});
+
+describe('buildCommentTree', () => {
+  const comments = [
+    makeComment({ id: 'old', createdAt: new Date('2024-01-01') }),
+    makeComment({ id: 'new', createdAt: new Date('2024-01-03'), reactions: { like: ['u1'] } }),
+    makeComment({ id: 'mid', createdAt: new Date('2024-01-02'), reactions: { like: ['u1', 'u2'] } }),
+    makeComment({ id: 'reply-b', parentId: 'old', depth: 1, createdAt: new Date('2024-01-05') }),
+    makeComment({ id: 'reply-a', parentId: 'old', depth: 1, createdAt: new Date('2024-01-04') }),
+  ];
+
+  it('should sort every level by the chosen mode', () => {
+    const ids = (sort: 'oldest' | 'newest' | 'top') => buildCommentTree(comments, sort).map(node => node.comment.id);
+
+    expect(ids('oldest')).toEqual(['old', 'mid', 'new']);
+    expect(ids('newest')).toEqual(['new', 'mid', 'old']);
+    expect(ids('top')).toEqual(['mid', 'new', 'old']);
+    expect(buildCommentTree(comments, 'newest')[2].replies.map(node => node.comment.id)).toEqual(['reply-b', 'reply-a']);
+  });
+
+  it('should keep deleted comments only while they have replies', () => {
+    const tree = buildCommentTree([
+      makeComment({ id: 'parent', deletedAt: new Date(), content: '' }),
+      makeComment({ id: 'child', parentId: 'parent', depth: 1 }),
+      makeComment({ id: 'lonely', deletedAt: new Date(), content: '' }),
+    ]);
+
+    expect(tree).toHaveLength(1);
+    expect(tree[0].comment).toMatchObject({ id: 'parent', deleted: true, author: '[deleted]' });
+    expect(tree[0].replies[0].comment.id).toBe('child');
+  });
+
+  it('should show replies to hidden comments at the top level', () => {
+    const tree = buildCommentTree([makeComment({ id: 'orphan', parentId: 'pending', depth: 1 })]);
+
+    expect(tree.map(node => node.comment.id)).toEqual(['orphan']);
+  });
+});
+
+describe('submitComment', () => {
+  it('should hold comments for review when production has no LLM provider', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('OPENAI_API_KEY', '');
+    vi.stubEnv('LLM_PROVIDER', '');
+    setLLMProvider(null);
+
+    try {
+      const comment = await submitComment(
+        new InMemoryCommentStore(),
+        { postId: 'post-1', userId: 'user-1', author: 'Ada', content: 'Great post, thanks!' },
+        { traceId: 'trace-1' }
+      );
+
+      expect(comment.status).toBe('pending');
+    } finally {
+      vi.unstubAllEnvs();
+      setLLMProvider(null);
+    }
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Unit Tests for Syndication Feeds
+ *
+ * Validates RSS 2.0, Atom 1.0 and JSON Feed 1.1 output against the
+ * elements each specification requires
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { buildFeedItems, buildFeedMeta } from '@/lib/feeds/feed';
+import { renderRss } from '@/lib/feeds/rss';
+import { renderAtom } from '@/lib/feeds/atom';
+import { renderJsonFeed } from '@/lib/feeds/json-feed';
+import { cdata } from '@/lib/feeds/xml';
+import { makePost } from '../fixtures/posts';
+
+const SITE = 'https://example.com';
+const ATOM_NS = 'http://www.w3.org/2005/Atom';
+const CONTENT_NS = 'http://purl.org/rss/1.0/modules/content/';
+
+// Titles, excerpts and tags carry characters each format must escape
+const feedPost = (id: string, content: string, publishedAt: string) =>
+  makePost({
+    id,
+    title: `Post ${id} & <friends>`,
+    excerpt: 'An "excerpt"',
+    content,
+    publishedAt: new Date(publishedAt),
+    updatedAt: new Date(publishedAt),
+    tags: ['typescript', 'next.js'],
+  });
+
+const posts = [
+  feedPost('2', '# Title\n\nSome **bold** text with a ]]> in it.\n\n<script>alert(1)</script>', '2024-02-01T10:00:00Z'),
+  feedPost('1', '| a | b |\n|---|---|\n| 1 | 2 |', '2024-01-01T10:00:00Z'),
+];
+
+async function buildFeed(feedPath: string) {
+  const items = await buildFeedItems(posts, SITE);
+  return { items, meta: buildFeedMeta({ feedPath }, items, SITE) };
+}
+
+function parseXml(xml: string): Document {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+  return doc;
+}
+
+const text = (parent: Element, name: string, ns?: string) => {
+  const el = ns ? parent.getElementsByTagNameNS(ns, name)[0] : parent.getElementsByTagName(name)[0];
+  return el?.textContent ?? undefined;
+};
+
+const rfc822 = z.string().refine(value => /^\w{3}, \d{2} \w{3} \d{4} \d{2}:\d{2}:\d{2} GMT$/.test(value));
+const rfc3339 = z.string().datetime();
+
+describe('feed items', () => {
+  it('should render markdown to HTML and drop raw HTML', async () => {
+    const [item, table] = await buildFeedItems(posts, SITE);
+
+    expect(item.url).toBe('https://example.com/en/blog/post-2');
+    expect(item.contentHtml).toContain('<h1 id="title">Title</h1>');
+    expect(item.contentHtml).toContain('<strong>bold</strong>');
+    expect(item.contentHtml).not.toContain('<script>');
+    expect(table.contentHtml).toContain('<table>');
+  });
+
+  it('should drop links and images with unsafe protocols', async () => {
+    const [item] = await buildFeedItems([
+      feedPost('3', [
+        '[a](javascript:alert(1)) [b](<JavaScript\t:alert(1)>) [c](data:text/html,x)',
+        '[ok](https://example.com) [mail](mailto:me@example.com) [rel](/en/blog#top) [q](?a=b:c)',
+        '![img](javascript:alert(1)) ![pic](/images/pic.png)',
+      ].join('\n\n'), '2024-03-01T10:00:00Z'),
+    ], SITE);
+
+    expect(item.contentHtml).not.toMatch(/javascript|data:/i);
+    expect(item.contentHtml).toContain('<a>a</a>');
+    expect(item.contentHtml).toContain('href="https://example.com"');
+    expect(item.contentHtml).toContain('href="mailto:me@example.com"');
+    expect(item.contentHtml).toContain('href="/en/blog#top"');
+    expect(item.contentHtml).toContain('href="?a=b:c"');
+    expect(item.contentHtml).toContain('src="/images/pic.png"');
+  });
+
+  it('should use the latest item date as the feed date', async () => {
+    const { meta } = await buildFeed('/feed.xml');
+    expect(meta.updated.toISOString()).toBe('2024-02-01T10:00:00.000Z');
+    expect(meta.feedUrl).toBe('https://example.com/feed.xml');
+  });
+
+  it('should declare the feed language, defaulting to the site locale', async () => {
+    const { meta, items } = await buildFeed('/feed.xml');
+    expect(meta.language).toBe('en');
+
+    const es = buildFeedMeta({ feedPath: '/es/feed.xml', language: 'es' }, items, SITE);
+    expect(text(parseXml(renderRss(es, items)).documentElement, 'language')).toBe('es');
+    expect(parseXml(renderAtom(es, items)).documentElement.getAttribute('xml:lang')).toBe('es');
+    expect(renderJsonFeed(es, items).language).toBe('es');
+  });
+
+  it('should keep "]]>" inside CDATA', () => {
+    expect(cdata('a]]>b')).toBe('<![CDATA[a]]]]><![CDATA[>b]]>');
+  });
+});
+
+describe('RSS 2.0', () => {
+  const rssSchema = z.object({
+    version: z.literal('2.0'),
+    channel: z.object({
+      title: z.string().min(1),
+      link: z.string().url(),
+      description: z.string().min(1),
+      lastBuildDate: rfc822,
+      selfLink: z.string().url(),
+    }),
+    items: z.array(z.object({
+      title: z.string().min(1),
+      link: z.string().url(),
+      guid: z.string().url(),
+      pubDate: rfc822,
+      description: z.string(),
+      content: z.string().min(1),
+      categories: z.array(z.string()),
+    })).min(1),
+  });
+
+  it('should produce a valid RSS document', async () => {
+    const { meta, items } = await buildFeed('/feed.xml');
+    const doc = parseXml(renderRss(meta, items));
+    const rss = doc.documentElement;
+    const channel = rss.getElementsByTagName('channel')[0];
+
+    const parsed = rssSchema.parse({
+      version: rss.getAttribute('version'),
+      channel: {
+        title: text(channel, 'title'),
+        link: text(channel, 'link'),
+        description: text(channel, 'description'),
+        lastBuildDate: text(channel, 'lastBuildDate'),
+        selfLink: channel.getElementsByTagNameNS(ATOM_NS, 'link')[0]?.getAttribute('href'),
+      },
+      items: Array.from(channel.getElementsByTagName('item')).map(item => ({
+        title: text(item, 'title'),
+        link: text(item, 'link'),
+        guid: text(item, 'guid'),
+        pubDate: text(item, 'pubDate'),
+        description: text(item, 'description'),
+        content: text(item, 'encoded', CONTENT_NS),
+        categories: Array.from(item.getElementsByTagName('category')).map(c => c.textContent),
+      })),
+    });
+
+    expect(parsed.items).toHaveLength(2);
+    expect(parsed.items[0].title).toBe('Post 2 & <friends>');
+    expect(parsed.items[0].content).toContain('with a ]]> in it');
+    expect(parsed.items[0].categories).toEqual(['typescript', 'next.js']);
+  });
+});
+
+describe('Atom 1.0', () => {
+  const atomSchema = z.object({
+    id: z.string().url(),
+    title: z.string().min(1),
+    updated: rfc3339,
+    selfLink: z.string().url(),
+    author: z.string().min(1),
+    entries: z.array(z.object({
+      id: z.string().url(),
+      title: z.string().min(1),
+      updated: rfc3339,
+      published: rfc3339,
+      link: z.string().url(),
+      contentType: z.literal('html'),
+      content: z.string().min(1),
+    })).min(1),
+  });
+
+  it('should produce a valid Atom document', async () => {
+    const { meta, items } = await buildFeed('/atom.xml');
+    const doc = parseXml(renderAtom(meta, items));
+    const feed = doc.documentElement;
+
+    expect(feed.namespaceURI).toBe(ATOM_NS);
+    const direct = (name: string) => Array.from(feed.children).find(el => el.localName === name);
+
+    const parsed = atomSchema.parse({
+      id: direct('id')?.textContent,
+      title: direct('title')?.textContent,
+      updated: direct('updated')?.textContent,
+      selfLink: Array.from(feed.children)
+        .find(el => el.localName === 'link' && el.getAttribute('rel') === 'self')
+        ?.getAttribute('href'),
+      author: direct('author')?.textContent?.trim(),
+      entries: Array.from(feed.getElementsByTagName('entry')).map(entry => ({
+        id: text(entry, 'id'),
+        title: text(entry, 'title'),
+        updated: text(entry, 'updated'),
+        published: text(entry, 'published'),
+        link: entry.getElementsByTagName('link')[0]?.getAttribute('href'),
+        contentType: entry.getElementsByTagName('content')[0]?.getAttribute('type'),
+        content: text(entry, 'content'),
+      })),
+    });
+
+    expect(parsed.id).toBe('https://example.com/atom.xml');
+    expect(parsed.entries[0].content).toContain('<strong>bold</strong>');
+  });
+});
+
+describe('JSON Feed 1.1', () => {
+  const jsonFeedSchema = z.object({
+    version: z.literal('https://jsonfeed.org/version/1.1'),
+    title: z.string().min(1),
+    home_page_url: z.string().url().optional(),
+    feed_url: z.string().url().optional(),
+    authors: z.array(z.object({ name: z.string() })).optional(),
+    items: z.array(z.object({
+      id: z.string().min(1),
+      url: z.string().url().optional(),
+      title: z.string().optional(),
+      content_html: z.string().optional(),
+      content_text: z.string().optional(),
+      date_published: rfc3339.optional(),
+      date_modified: rfc3339.optional(),
+      tags: z.array(z.string()).optional(),
+    }).refine(item => item.content_html !== undefined || item.content_text !== undefined)),
+  }).strict();
+
+  it('should produce a valid JSON Feed', async () => {
+    const { meta, items } = await buildFeed('/feed.json');
+    const feed = JSON.parse(JSON.stringify(renderJsonFeed(meta, items)));
+
+    // Strict: only spec-defined top-level keys are allowed
+    const parsed = jsonFeedSchema
+      .extend({ description: z.string(), language: z.string() })
+      .parse(feed);
+
+    expect(parsed.items).toHaveLength(2);
+    expect(parsed.items[0].id).toBe('https://example.com/en/blog/post-2');
+  });
+});
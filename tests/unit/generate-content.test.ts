@@ -0,0 +1,57 @@
+/**
+ * Unit Tests for Content Generation
+ *
+ * Runs the generate_content skill end to end against recorded model
+ * replies (tests/fixtures/llm/generate-content.json)
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { generateContentSkill, type GenerateContentInput } from '@/lib/skills/generate_content';
+import { generateSlug } from '@/lib/skills/base';
+import { setLLMProvider } from '@/lib/llm';
+import { RecordedLLMProvider } from '@/lib/llm/recording';
+
+const input: GenerateContentInput = {
+  topic: 'Introducción a los React Server Components',
+  length: 'short',
+  tone: 'technical',
+  targetAudience: 'Desarrolladores que ya usan React',
+  keywords: ['react', 'server components', 'streaming'],
+};
+
+describe('generate_content skill', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    // PRE-GEN-002 asks for a key even though replays never use it
+    process.env.OPENAI_API_KEY = 'sk-test';
+    setLLMProvider(new RecordedLLMProvider({ fixture: 'generate-content' }));
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    setLLMProvider(null);
+  });
+
+  it('should turn the model reply into a post that passes every check', async () => {
+    const { content, metadata, usage } = await generateContentSkill.execute(input);
+
+    expect(content.title).not.toBe('');
+    expect(content.slug).toBe(generateSlug(content.title));
+    expect(content.tags.length).toBeGreaterThanOrEqual(3);
+    expect(content.readingTimeMinutes).toBeGreaterThan(0);
+    expect(metadata.wordCount).toBeGreaterThanOrEqual(300);
+    expect(metadata.wordCount).toBeLessThanOrEqual(800);
+    expect(metadata.headingCount).toBeGreaterThan(0);
+    expect(metadata.modelUsed).toBe('gpt-4o');
+    expect(usage.tokensUsed.total).toBe(usage.tokensUsed.prompt + usage.tokensUsed.completion);
+    expect(usage.costUSD).toBeGreaterThan(0);
+  });
+
+  it('should cover the requested keywords', async () => {
+    const { content } = await generateContentSkill.execute(input);
+    const text = `${content.title} ${content.body}`.toLowerCase();
+
+    expect(input.keywords!.filter(keyword => text.includes(keyword)).length).toBeGreaterThanOrEqual(2);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Unit Tests for LLM Providers
+ *
+ * Tests provider selection, the deterministic fake provider, JSON
+ * parsing shared by every provider and record/replay of fixtures
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  FAKE_EMBEDDING_DIMENSIONS,
+  FakeLLMProvider,
+  LLMProviderError,
+  createLLMProvider,
+  createOpenAIProvider,
+  parseJSONContent,
+} from '@/lib/llm';
+import { RecordedLLMProvider } from '@/lib/llm/recording';
+
+describe('createLLMProvider', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.LLM_PROVIDER;
+    delete process.env.OPENAI_API_KEY;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('should fall back to the fake provider without an API key', () => {
+    expect(createLLMProvider().id).toBe('fake');
+  });
+
+  it('should refuse to fall back to the fake provider in production', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+
+    try {
+      expect(() => createLLMProvider()).toThrow(expect.objectContaining({ code: 'NOT_CONFIGURED' }));
+
+      process.env.LLM_PROVIDER = 'fake';
+      expect(createLLMProvider().id).toBe('fake');
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it('should use OpenAI when a key is set, unless LLM_PROVIDER says otherwise', () => {
+    process.env.OPENAI_API_KEY = 'sk-test';
+    expect(createLLMProvider().id).toBe('openai');
+
+    process.env.LLM_PROVIDER = 'ollama';
+    expect(createLLMProvider().id).toBe('ollama');
+  });
+
+  it('should reject unknown providers', () => {
+    expect(() => createLLMProvider('gemini' as never)).toThrow('Unknown LLM_PROVIDER');
+  });
+
+  it('should fail on first request, not on import, when OpenAI has no key', async () => {
+    const provider = createOpenAIProvider();
+
+    await expect(
+      provider.complete({ model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'Hi' }] })
+    ).rejects.toBeInstanceOf(LLMProviderError);
+  });
+});
+
+describe('FakeLLMProvider', () => {
+  const provider = new FakeLLMProvider();
+  const request = {
+    model: 'gpt-4o-mini',
+    messages: [{ role: 'user' as const, content: 'Explain React hooks' }],
+  };
+
+  it('should answer the same request the same way and stream it', async () => {
+    const tokens: string[] = [];
+    const first = await provider.complete({ ...request, onToken: token => tokens.push(token) });
+    const second = await provider.complete(request);
+
+    expect(first).toEqual(second);
+    expect(first.model).toBe('gpt-4o-mini');
+    expect(first.usage?.total_tokens).toBeGreaterThan(0);
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join('')).toBe(first.content);
+  });
+
+  it('should echo JSON objects in JSON mode', async () => {
+    const echoed = await provider.completeJSON({
+      ...request,
+      messages: [{ role: 'user', content: '{"segments":["Hola"]}' }],
+    });
+    const empty = await provider.completeJSON(request);
+
+    expect(echoed.data).toEqual({ segments: ['Hola'] });
+    expect(empty.data).toEqual({});
+  });
+
+  it('should use custom replies', async () => {
+    const custom = new FakeLLMProvider({ respond: (_, json) => (json ? { ok: true } : 'Custom') });
+
+    expect((await custom.complete(request)).content).toBe('Custom');
+    expect((await custom.completeJSON(request)).data).toEqual({ ok: true });
+  });
+
+  it('should flag nothing', async () => {
+    const result = await provider.moderate();
+
+    expect(result.flagged).toBe(false);
+    expect(result.categoryScores.hate).toBe(0);
+  });
+
+  it('should embed texts by their words, ignoring order and case', async () => {
+    const { embeddings } = await provider.embed([
+      'react hooks and state',
+      'State and React hooks',
+      'baking sourdough bread',
+    ]);
+    const dot = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+    expect(embeddings[0]).toHaveLength(FAKE_EMBEDDING_DIMENSIONS);
+    expect(dot(embeddings[0], embeddings[1])).toBeCloseTo(1);
+    expect(dot(embeddings[0], embeddings[2])).toBeLessThan(0.5);
+  });
+});
+
+describe('parseJSONContent', () => {
+  it('should accept fenced JSON and reject anything else', () => {
+    expect(parseJSONContent('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    expect(() => parseJSONContent('not json')).toThrow(LLMProviderError);
+  });
+});
+
+describe('RecordedLLMProvider', () => {
+  let dir: string;
+  let fixture: string;
+  const inner = new FakeLLMProvider();
+  const request = {
+    model: 'gpt-4o-mini',
+    messages: [{ role: 'user' as const, content: 'Explain React hooks' }],
+    temperature: 0.7,
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'llm-fixtures-'));
+    fixture = path.join(dir, 'hooks.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should replay recorded replies, streaming the recorded tokens', async () => {
+    const recorder = new RecordedLLMProvider({ fixture, record: true, inner });
+    const recorded = await recorder.complete({ ...request, onToken: () => {} });
+
+    const tokens: string[] = [];
+    const replayer = new RecordedLLMProvider({ fixture, record: false });
+    const replayed = await replayer.complete({ ...request, onToken: token => tokens.push(token) });
+
+    expect(replayed).toEqual(recorded);
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join('')).toBe(recorded.content);
+    expect(replayer.id).toBe('openai');
+  });
+
+  it('should ignore line endings and trailing whitespace in the key', async () => {
+    await new RecordedLLMProvider({ fixture, record: true, inner }).completeJSON({
+      ...request,
+      messages: [{ role: 'user', content: '{"a": 1}' }],
+    });
+
+    const replayed = await new RecordedLLMProvider({ fixture, record: false }).completeJSON({
+      ...request,
+      messages: [{ role: 'user', content: '{"a": 1}  \r\n' }],
+    });
+
+    expect(replayed.data).toEqual({ a: 1 });
+    expect(Object.keys(JSON.parse(readFileSync(fixture, 'utf-8')))).toHaveLength(1);
+  });
+
+  it('should fail loudly on unrecorded requests', async () => {
+    const replayer = new RecordedLLMProvider({ fixture, record: false });
+
+    await expect(replayer.complete({ ...request, temperature: 0.2 })).rejects.toMatchObject({
+      code: 'UNRECORDED_REQUEST',
+      message: expect.stringMatching(/complete request [0-9a-f]{16} .*npm run test:record/),
+    });
+    await expect(replayer.embed(['hooks'])).rejects.toBeInstanceOf(LLMProviderError);
+  });
+
+  it('should refuse to record from the fake provider', async () => {
+    const originalEnv = { ...process.env };
+    delete process.env.LLM_PROVIDER;
+    delete process.env.OPENAI_API_KEY;
+
+    try {
+      await expect(new RecordedLLMProvider({ fixture, record: true }).moderate('Hi')).rejects.toMatchObject({
+        code: 'NOT_CONFIGURED',
+      });
+    } finally {
+      process.env = originalEnv;
+    }
+  });
+});
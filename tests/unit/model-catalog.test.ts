@@ -0,0 +1,97 @@
+/**
+ * Unit Tests for the Model Catalog
+ *
+ * Tests model lookup, pricing and pre-flight token estimates
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  COSTLIEST_MODEL,
+  calculateCost,
+  estimateCost,
+  estimateChatTokens,
+  estimateRequest,
+  estimateTokens,
+  getModelInfo,
+} from '@/lib/llm';
+
+describe('getModelInfo', () => {
+  it('should match dated snapshots and local tags to their model', () => {
+    expect(getModelInfo('gpt-4o-mini-2024-07-18')?.id).toBe('gpt-4o-mini');
+    expect(getModelInfo('gpt-4o-2024-08-06')?.id).toBe('gpt-4o');
+    expect(getModelInfo('gpt-4-turbo-2024-04-09')?.id).toBe('gpt-4-turbo');
+    expect(getModelInfo('gpt-4-0613')?.id).toBe('gpt-4');
+    expect(getModelInfo('llama3.1:8b')?.id).toBe('llama3.1');
+  });
+
+  it('should not guess unknown models', () => {
+    expect(getModelInfo('gpt-5-preview')).toBeUndefined();
+    expect(getModelInfo('claude')).toBeUndefined();
+  });
+
+  it('should know which models support JSON mode', () => {
+    expect(getModelInfo('gpt-4o')?.supportsJSON).toBe(true);
+    expect(getModelInfo('gpt-4')?.supportsJSON).toBe(false);
+  });
+});
+
+describe('calculateCost', () => {
+  const usage = { prompt_tokens: 1_000_000, completion_tokens: 1_000_000 };
+
+  it('should price each model by its own rates', () => {
+    expect(calculateCost(usage, 'gpt-4o-mini')).toBeCloseTo(0.75);
+    expect(calculateCost(usage, 'gpt-4o-2024-08-06')).toBeCloseTo(12.5);
+    expect(calculateCost(usage, 'gpt-4')).toBeCloseTo(90);
+  });
+
+  it('should charge nothing for listed local models', () => {
+    expect(calculateCost(usage, 'llama3.1:latest')).toBe(0);
+  });
+
+  it('should settle unknown models at the price of their estimate', () => {
+    expect(calculateCost(usage, 'mystery-model')).toBe(estimateCost(usage, 'mystery-model'));
+    expect(calculateCost(usage, 'gpt-5-preview')).toBe(calculateCost(usage, COSTLIEST_MODEL.id));
+  });
+});
+
+describe('token estimates', () => {
+  it('should count tokens with the o200k_base tokenizer', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('Hello, world!')).toBe(4);
+    expect(estimateTokens('internationalization')).toBe(2);
+    expect(estimateTokens('¿Qué son los hooks de React?')).toBe(7);
+  });
+
+  it('should add the chat framing per message', () => {
+    const messages = [
+      { role: 'system' as const, content: 'Be brief.' },
+      { role: 'user' as const, content: 'Hello, world!' },
+    ];
+
+    expect(estimateChatTokens(messages)).toBe(3 + (3 + 3) + (3 + 4));
+  });
+
+  it('should estimate the worst-case cost and check the context window', () => {
+    const messages = [{ role: 'user' as const, content: 'Summarize this post' }];
+
+    const mini = estimateRequest({ model: 'gpt-4o-mini', messages, maxTokens: 1000 });
+    expect(mini.maxCompletionTokens).toBe(1000);
+    expect(mini.maxCostUSD).toBeCloseTo((mini.promptTokens * 0.15 + 1000 * 0.6) / 1_000_000, 6);
+    expect(mini.fitsContext).toBe(true);
+
+    expect(estimateRequest({ model: 'gpt-4', messages, maxTokens: 8192 }).fitsContext).toBe(false);
+    expect(estimateRequest({ model: 'gpt-4o', messages }).maxCompletionTokens).toBe(16_384);
+  });
+
+  it('should price unknown models as the costliest catalog entry', () => {
+    const messages = [{ role: 'user' as const, content: 'Summarize this post' }];
+
+    const unknown = estimateRequest({ model: 'mystery-model', messages, maxTokens: 1000 });
+    const costliest = estimateRequest({ model: COSTLIEST_MODEL.id, messages, maxTokens: 1000 });
+
+    expect(COSTLIEST_MODEL.id).toBe('gpt-4');
+    expect(unknown.maxCostUSD).toBeGreaterThan(0);
+    expect(unknown.maxCostUSD).toBe(costliest.maxCostUSD);
+    expect(estimateRequest({ model: 'mystery-model', messages }).maxCompletionTokens).toBe(COSTLIEST_MODEL.maxOutputTokens);
+  });
+});
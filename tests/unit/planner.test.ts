@@ -0,0 +1,53 @@
+/**
+ * Unit Tests for the Planner Agent
+ *
+ * Tests how user intents map to skills, in particular telling translate
+ * requests apart from posts that merely mention translation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { plannerAgent } from '@/lib/agents/planner';
+
+async function plan(userIntent: string, preferences: Record<string, unknown> = {}) {
+  return plannerAgent.process(
+    {
+      userIntent,
+      userContext: { preferences: { text: '# Hello', ...preferences } },
+      systemContext: { availableSkills: ['generate_content', 'translate_content', 'summarize_content'] },
+    },
+    { traceId: 'test-trace', timestamp: new Date() }
+  );
+}
+
+describe('planning intents', () => {
+  it('should plan a post about translation as generation', async () => {
+    const { steps } = await plan('Write a blog post about machine translation');
+
+    expect(steps[0].skillId).toBe('generate_content');
+    expect(steps.map(step => step.skillId)).not.toContain('translate_content');
+  });
+
+  it('should plan imperative translate requests in English and Spanish', async () => {
+    const english = await plan('Translate the post I wrote to Spanish');
+    const spanish = await plan('Traduce el artículo al inglés');
+    const created = await plan('Please translate the draft I created into French');
+
+    expect(english.steps[0]).toMatchObject({ skillId: 'translate_content', params: { targetLanguage: 'es' } });
+    expect(spanish.steps[0]).toMatchObject({ skillId: 'translate_content', params: { targetLanguage: 'en' } });
+    expect(created.steps[0]).toMatchObject({ skillId: 'translate_content', params: { targetLanguage: 'fr' } });
+  });
+
+  it('should only take a target language after to/into/al/a', async () => {
+    const pronoun = await plan('Translate this post to it', { targetLanguage: 'es' });
+    const mention = await plan('Translate the Italian recipe post to German');
+
+    expect(pronoun.steps[0].params.targetLanguage).toBe('es');
+    expect(mention.steps[0].params.targetLanguage).toBe('de');
+  });
+
+  it('should not treat other requests that mention translation as translate', async () => {
+    const { steps } = await plan('Summarize the translation guide');
+
+    expect(steps[0].skillId).toBe('summarize_content');
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Unit Tests for Blog Archive
+ *
+ * Tests page-number pagination and the monthly archive
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  filterByMonth,
+  getArchiveMonths,
+  getArchiveUrl,
+  getBlogPageUrl,
+  getTotalPages,
+  paginatePosts,
+  parseArchiveParams
+} from '@/lib/posts/archive';
+import { makePost } from '../fixtures/posts';
+
+describe('paginatePosts', () => {
+  const posts = Array.from({ length: 7 }, (_, i) => makePost({ id: String(i + 1) }));
+
+  it('should slice pages and link neighbours', () => {
+    const first = paginatePosts(posts, 1, 3)!;
+    expect(first.posts.map(p => p.id)).toEqual(['1', '2', '3']);
+    expect(first.totalPages).toBe(3);
+    expect(first.prevUrl).toBeUndefined();
+    expect(first.nextUrl).toBe('/blog/page/2');
+
+    const second = paginatePosts(posts, 2, 3)!;
+    expect(second.prevUrl).toBe('/blog');
+    expect(second.nextUrl).toBe('/blog/page/3');
+
+    const last = paginatePosts(posts, 3, 3)!;
+    expect(last.posts.map(p => p.id)).toEqual(['7']);
+    expect(last.nextUrl).toBeUndefined();
+  });
+
+  it('should reject out-of-range pages', () => {
+    expect(paginatePosts(posts, 0, 3)).toBeUndefined();
+    expect(paginatePosts(posts, 4, 3)).toBeUndefined();
+    expect(paginatePosts(posts, 1.5, 3)).toBeUndefined();
+    expect(paginatePosts(posts, NaN, 3)).toBeUndefined();
+  });
+
+  it('should always have a first page', () => {
+    expect(getTotalPages(0)).toBe(1);
+    expect(paginatePosts([], 1)!.posts).toEqual([]);
+  });
+
+  it('should map page 1 to /blog', () => {
+    expect(getBlogPageUrl(1)).toBe('/blog');
+    expect(getBlogPageUrl(4)).toBe('/blog/page/4');
+  });
+});
+
+describe('monthly archive', () => {
+  const posts = [
+    makePost({ id: '1', publishedAt: new Date('2024-03-31T23:30:00Z') }),
+    makePost({ id: '2', publishedAt: new Date('2024-03-02T10:00:00Z') }),
+    makePost({ id: '3', publishedAt: new Date('2023-12-10T10:00:00Z') }),
+    makePost({ id: '4', publishedAt: new Date('2024-11-05T10:00:00Z') }),
+  ];
+
+  it('should count posts per month, newest first', () => {
+    expect(getArchiveMonths(posts)).toEqual([
+      { year: 2024, month: 11, count: 1, url: '/blog/2024/11' },
+      { year: 2024, month: 3, count: 2, url: '/blog/2024/03' },
+      { year: 2023, month: 12, count: 1, url: '/blog/2023/12' },
+    ]);
+  });
+
+  it('should filter posts by UTC month', () => {
+    expect(filterByMonth(posts, 2024, 3).map(p => p.id)).toEqual(['1', '2']);
+    expect(filterByMonth(posts, 2024, 4)).toEqual([]);
+  });
+
+  it('should parse route segments', () => {
+    expect(parseArchiveParams('2024', '03')).toEqual({ year: 2024, month: 3 });
+    expect(parseArchiveParams('2024', '3')).toBeUndefined();
+    expect(parseArchiveParams('2024', '13')).toBeUndefined();
+    expect(parseArchiveParams('my-post', '03')).toBeUndefined();
+    expect(getArchiveUrl(2024, 3)).toBe('/blog/2024/03');
+  });
+});
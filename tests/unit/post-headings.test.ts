@@ -0,0 +1,109 @@
+/**
+ * Unit Tests for Post Headings
+ *
+ * Tests heading ids, table of contents nesting and reading time
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildToc,
+  createHeadingSlugger,
+  estimateReadingTime,
+  extractHeadings
+} from '@/lib/posts/headings';
+import { renderPostContent } from '@/lib/posts/markdown';
+import { extractHeadingStructure } from '@/lib/skills/base';
+
+const markdown = [
+  '# Getting Started',
+  '',
+  '## Setup',
+  '### Install **Node**',
+  '### Configure `tsconfig`',
+  '## Usage',
+  '#### Deep detail',
+  '### Tips',
+  '## Setup',
+  '',
+  '```bash',
+  '# not a heading',
+  '```',
+].join('\n');
+
+describe('createHeadingSlugger', () => {
+  it('should slug text and de-duplicate repeats', () => {
+    const slug = createHeadingSlugger();
+    expect(slug('Setup & Install')).toBe('setup-install');
+    expect(slug('Setup & Install')).toBe('setup-install-1');
+    expect(slug('Setup & Install')).toBe('setup-install-2');
+    expect(slug('¿Qué es?')).toBe('que-es');
+    expect(slug('!!!')).toBe('section');
+  });
+});
+
+describe('extractHeadings', () => {
+  it('should return headings in order with stable ids, ignoring code', () => {
+    expect(extractHeadings(markdown)).toEqual([
+      { depth: 1, text: 'Getting Started', id: 'getting-started' },
+      { depth: 2, text: 'Setup', id: 'setup' },
+      { depth: 3, text: 'Install Node', id: 'install-node' },
+      { depth: 3, text: 'Configure tsconfig', id: 'configure-tsconfig' },
+      { depth: 2, text: 'Usage', id: 'usage' },
+      { depth: 4, text: 'Deep detail', id: 'deep-detail' },
+      { depth: 3, text: 'Tips', id: 'tips' },
+      { depth: 2, text: 'Setup', id: 'setup-1' },
+    ]);
+  });
+
+  it('should back the skills heading structure', () => {
+    expect(extractHeadingStructure(markdown)).toEqual({ h1: 1, h2: 3, h3: 3 });
+  });
+});
+
+describe('buildToc', () => {
+  it('should nest h2/h3 and skip the title and deeper levels', () => {
+    const toc = buildToc(extractHeadings(markdown));
+
+    expect(toc.map(entry => entry.id)).toEqual(['setup', 'usage', 'setup-1']);
+    expect(toc[0].children.map(entry => entry.id)).toEqual(['install-node', 'configure-tsconfig']);
+    expect(toc[1].children.map(entry => entry.id)).toEqual(['tips']);
+  });
+
+  it('should keep a leading h3 at the top level', () => {
+    const toc = buildToc([
+      { depth: 3, text: 'Intro', id: 'intro' },
+      { depth: 2, text: 'Body', id: 'body' },
+    ]);
+    expect(toc.map(entry => entry.id)).toEqual(['intro', 'body']);
+  });
+});
+
+describe('reading time', () => {
+  it('should round up at 200 words per minute, minimum 1', () => {
+    expect(estimateReadingTime('short')).toBe(1);
+    expect(estimateReadingTime('word '.repeat(200))).toBe(1);
+    expect(estimateReadingTime('word '.repeat(201))).toBe(2);
+  });
+});
+
+describe('renderPostContent', () => {
+  it('should render heading ids matching the table of contents', async () => {
+    const rendered = await renderPostContent(markdown);
+
+    expect(rendered.html).toContain('<h2 id="setup">Setup</h2>');
+    expect(rendered.html).toContain('<h2 id="setup-1">Setup</h2>');
+    expect(rendered.html).toContain('<h3 id="install-node">Install <strong>Node</strong></h3>');
+    expect(rendered.toc).toHaveLength(3);
+    expect(rendered.readingTimeMinutes).toBe(1);
+  });
+
+  it('should not render javascript: links or images', async () => {
+    const { html } = await renderPostContent(
+      'See [docs](https://nextjs.org) and [this](javascript:alert(document.cookie)).\n\n![x](javascript:alert(1))'
+    );
+
+    expect(html).not.toContain('javascript:');
+    expect(html).toContain('<a href="https://nextjs.org">docs</a>');
+    expect(html).toContain('<a>this</a>');
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Unit Tests for Post Preview URLs
+ *
+ * Tests signing and verification of draft preview links
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  createPreviewToken,
+  getPreviewPath,
+  PREVIEW_MAX_TTL_SECONDS,
+  verifyPreviewToken
+} from '@/lib/posts/preview';
+
+describe('Post preview tokens', () => {
+  const now = new Date('2024-06-01T00:00:00Z');
+  const originalSecret = process.env.PREVIEW_SECRET;
+
+  beforeEach(() => {
+    process.env.PREVIEW_SECRET = 'test-secret';
+  });
+
+  afterEach(() => {
+    if (originalSecret === undefined) {
+      delete process.env.PREVIEW_SECRET;
+    } else {
+      process.env.PREVIEW_SECRET = originalSecret;
+    }
+  });
+
+  it('should verify a token it issued', () => {
+    const token = createPreviewToken('draft-post', 60, now);
+
+    expect(verifyPreviewToken('draft-post', String(token.expires), token.signature, now)).toBe(true);
+    expect(getPreviewPath(token)).toBe(`/preview/draft-post?expires=${token.expires}&signature=${token.signature}`);
+  });
+
+  it('should reject expired tokens', () => {
+    const token = createPreviewToken('draft-post', 60, now);
+    const later = new Date(now.getTime() + 61_000);
+
+    expect(verifyPreviewToken('draft-post', token.expires, token.signature, later)).toBe(false);
+  });
+
+  it('should reject tokens for another slug or with a tampered expiry', () => {
+    const token = createPreviewToken('draft-post', 60, now);
+
+    expect(verifyPreviewToken('other-post', token.expires, token.signature, now)).toBe(false);
+    expect(verifyPreviewToken('draft-post', token.expires + 3600, token.signature, now)).toBe(false);
+    expect(verifyPreviewToken('draft-post', token.expires, undefined, now)).toBe(false);
+  });
+
+  it('should cap the lifetime at PREVIEW_MAX_TTL_SECONDS', () => {
+    const token = createPreviewToken('draft-post', 10 ** 9, now);
+
+    expect(token.expires).toBe(now.getTime() / 1000 + PREVIEW_MAX_TTL_SECONDS);
+  });
+
+  it('should refuse to sign, and verify nothing, without PREVIEW_SECRET', () => {
+    const token = createPreviewToken('draft-post', 60, now);
+    delete process.env.PREVIEW_SECRET;
+
+    expect(() => createPreviewToken('draft-post')).toThrow(/PREVIEW_SECRET/);
+    expect(verifyPreviewToken('draft-post', token.expires, token.signature, now)).toBe(false);
+  });
+});
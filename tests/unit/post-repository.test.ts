@@ -0,0 +1,143 @@
+/**
+ * Unit Tests for Post Repository
+ *
+ * Tests loading and validation of markdown posts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { PostRepository, PostValidationError } from '@/lib/posts/repository';
+
+const validPost = (overrides: Record<string, string> = {}) => {
+  const fields: Record<string, string> = {
+    id: "'1'",
+    title: 'First Post',
+    excerpt: 'A short excerpt',
+    author: 'Guido Miranda',
+    publishedAt: '2024-01-15',
+    tags: '[nextjs, react]',
+    status: 'published',
+    ...overrides
+  };
+
+  const frontmatter = Object.entries(fields)
+    .filter(([, value]) => value !== '')
+    .map(([key, value]) => `${key}: ${value}`)
+    .join('\n');
+
+  return `---\n${frontmatter}\n---\n\n# First Post\n\nBody text.\n`;
+};
+
+describe('PostRepository', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'posts-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should load posts from markdown files', async () => {
+    writeFileSync(path.join(dir, 'first-post.md'), validPost());
+    const repository = new PostRepository({ contentDir: dir });
+
+    const posts = await repository.getAllPosts();
+
+    expect(posts).toHaveLength(1);
+    expect(posts[0].slug).toBe('first-post');
+    expect(posts[0].title).toBe('First Post');
+    expect(posts[0].tags).toEqual(['nextjs', 'react']);
+    expect(posts[0].category).toBe('General');
+    expect(posts[0].publishedAt).toBeInstanceOf(Date);
+    expect(posts[0].updatedAt).toEqual(posts[0].publishedAt);
+    expect(posts[0].content).toContain('Body text.');
+  });
+
+  it('should sort posts by publish date, newest first', async () => {
+    writeFileSync(path.join(dir, 'older.md'), validPost({ id: "'1'", publishedAt: '2024-01-01' }));
+    writeFileSync(path.join(dir, 'newer.md'), validPost({ id: "'2'", publishedAt: '2024-02-01' }));
+    const repository = new PostRepository({ contentDir: dir });
+
+    const posts = await repository.getAllPosts();
+
+    expect(posts.map(p => p.slug)).toEqual(['newer', 'older']);
+  });
+
+  it('should find posts by slug', async () => {
+    writeFileSync(path.join(dir, 'first-post.md'), validPost());
+    const repository = new PostRepository({ contentDir: dir });
+
+    expect((await repository.getPostBySlug('first-post'))?.id).toBe('1');
+    expect(await repository.getPostBySlug('missing')).toBeUndefined();
+  });
+
+  it('should name the file and field when a required field is missing', async () => {
+    writeFileSync(path.join(dir, 'broken.md'), validPost({ title: '' }));
+    const repository = new PostRepository({ contentDir: dir });
+
+    const error = await repository.getAllPosts().catch(e => e);
+
+    expect(error).toBeInstanceOf(PostValidationError);
+    expect(error.file).toContain('broken.md');
+    expect(error.field).toBe('title');
+    expect(error.message).toContain('is required');
+  });
+
+  it('should require an id instead of coercing a missing one', async () => {
+    writeFileSync(path.join(dir, 'no-id.md'), validPost({ id: '' }));
+    const repository = new PostRepository({ contentDir: dir });
+
+    await expect(repository.getAllPosts()).rejects.toThrow(/no-id\.md: "id" is required/);
+  });
+
+  it('should accept numeric ids as strings', async () => {
+    writeFileSync(path.join(dir, 'numeric.md'), validPost({ id: '7', translationOf: '3' }));
+    const repository = new PostRepository({ contentDir: dir });
+
+    const [post] = await repository.getAllPosts();
+
+    expect(post.id).toBe('7');
+    expect(post.translationOf).toBe('3');
+  });
+
+  it('should reject invalid dates', async () => {
+    writeFileSync(path.join(dir, 'bad-date.md'), validPost({ publishedAt: 'not-a-date' }));
+    const repository = new PostRepository({ contentDir: dir });
+
+    await expect(repository.getAllPosts()).rejects.toThrow(/bad-date\.md: "publishedAt"/);
+  });
+
+  it('should require scheduledAt for scheduled posts', async () => {
+    writeFileSync(path.join(dir, 'later.md'), validPost({ status: 'scheduled' }));
+    const repository = new PostRepository({ contentDir: dir });
+
+    await expect(repository.getAllPosts()).rejects.toThrow(/later\.md: "scheduledAt" is required for scheduled posts/);
+  });
+
+  it('should reject files without frontmatter', async () => {
+    writeFileSync(path.join(dir, 'plain.md'), '# Just markdown\n');
+    const repository = new PostRepository({ contentDir: dir });
+
+    await expect(repository.getAllPosts()).rejects.toThrow(/plain\.md: "frontmatter" is missing/);
+  });
+
+  it('should reject duplicate slugs', async () => {
+    writeFileSync(path.join(dir, 'a.md'), validPost({ slug: 'same' }));
+    writeFileSync(path.join(dir, 'b.md'), validPost({ slug: 'same' }));
+    const repository = new PostRepository({ contentDir: dir });
+
+    await expect(repository.getAllPosts()).rejects.toThrow(/"slug" "same" is already used by a\.md/);
+  });
+
+  it('should reject duplicate ids', async () => {
+    writeFileSync(path.join(dir, 'a.md'), validPost({ slug: 'first' }));
+    writeFileSync(path.join(dir, 'b.md'), validPost({ slug: 'second' }));
+    const repository = new PostRepository({ contentDir: dir });
+
+    await expect(repository.getAllPosts()).rejects.toThrow(/b\.md: "id" "1" is already used by a\.md/);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Unit Tests for Post Revisions
+ *
+ * Tests revision recording, restore and the line diff
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  diffLines,
+  hashContent,
+  InMemoryPostStore,
+  InMemoryRevisionStore,
+  RevisionedPostStore,
+  RevisionError
+} from '@/lib/posts';
+import { makePost } from '../fixtures/posts';
+
+const original = makePost({ content: '# First Post\n\nOriginal body.' });
+
+describe('RevisionedPostStore', () => {
+  let store: RevisionedPostStore;
+
+  beforeEach(() => {
+    store = new RevisionedPostStore(new InMemoryPostStore(), new InMemoryRevisionStore());
+  });
+
+  it('should record a revision for every save', async () => {
+    await store.save(original);
+    await store.save(
+      makePost({ content: '# First Post\n\nGenerated body.' }),
+      { author: 'orchestrator', source: 'generate_blog_post' }
+    );
+
+    const revisions = await store.listRevisions('1');
+
+    expect(revisions.map(r => r.number)).toEqual([2, 1]);
+    expect(revisions[0]).toMatchObject({ id: 'rev-2', author: 'orchestrator', source: 'generate_blog_post' });
+    expect(revisions[1]).toMatchObject({ author: 'Guido Miranda', source: 'manual' });
+    expect(revisions[0].contentHash).toBe(hashContent('# First Post\n\nGenerated body.'));
+    expect(revisions[0].contentHash).not.toBe(revisions[1].contentHash);
+  });
+
+  it('should keep revisions immutable', async () => {
+    await store.save(original);
+
+    const [revision] = await store.listRevisions('1');
+    revision.snapshot.content = 'tampered';
+
+    expect((await store.getRevision('1', 'rev-1')).snapshot.content).toBe('# First Post\n\nOriginal body.');
+  });
+
+  it('should restore an older revision as a new revision', async () => {
+    await store.save(original);
+    await store.save(makePost({ title: 'Renamed', content: 'Rewritten' }));
+
+    const { post, revision } = await store.restoreRevision('1', 'rev-1', 'editor');
+
+    expect(post.title).toBe('Post 1');
+    expect((await store.getById('1'))?.content).toBe('# First Post\n\nOriginal body.');
+    expect(revision).toMatchObject({ number: 3, source: 'restore', author: 'editor', restoredFrom: 'rev-1' });
+    expect(await store.listRevisions('1')).toHaveLength(3);
+  });
+
+  it('should compare two revisions', async () => {
+    await store.save(original);
+    await store.save(makePost({ title: 'Renamed', content: '# First Post\n\nNew body.' }));
+
+    const comparison = await store.compareRevisions('1', 'rev-1', 'rev-2');
+
+    expect(comparison.changedFields).toEqual(['title']);
+    expect(comparison.content).toMatchObject({ added: 1, removed: 1 });
+  });
+
+  it('should report category and translation changes', async () => {
+    await store.save(original);
+    await store.save(makePost({ ...original, category: 'Tutorials', alternates: { es: 'primer-post' } }));
+
+    const comparison = await store.compareRevisions('1', 'rev-1', 'rev-2');
+
+    expect(comparison.changedFields).toEqual(['category', 'alternates']);
+  });
+
+  it('should record a baseline before the first edit of a seeded post', async () => {
+    store = new RevisionedPostStore(
+      new InMemoryPostStore(async () => [original]),
+      new InMemoryRevisionStore()
+    );
+
+    await store.save(makePost({ content: '# First Post\n\nEdited body.' }), { author: 'editor', source: 'manual' });
+
+    const revisions = await store.listRevisions('1');
+    expect(revisions.map(r => [r.number, r.source])).toEqual([[2, 'manual'], [1, 'import']]);
+    expect(revisions[1].snapshot.content).toBe('# First Post\n\nOriginal body.');
+
+    const { post } = await store.restoreRevision('1', 'rev-1', 'editor');
+    expect(post.content).toBe('# First Post\n\nOriginal body.');
+    expect(await store.listRevisions('1')).toHaveLength(3);
+  });
+
+  it('should fail for unknown posts and revisions', async () => {
+    await store.save(original);
+
+    await expect(store.getRevision('1', 'rev-9')).rejects.toBeInstanceOf(RevisionError);
+    await expect(store.restoreRevision('missing', 'rev-1', 'editor')).rejects.toMatchObject({ code: 'POST_NOT_FOUND' });
+  });
+});
+
+describe('diffLines', () => {
+  it('should mark added, removed and unchanged lines with line numbers', () => {
+    const diff = diffLines('a\nb\nc\nd', 'a\nc\nx\nd');
+
+    expect(diff.lines).toEqual([
+      { type: 'equal', text: 'a', oldLine: 1, newLine: 1 },
+      { type: 'removed', text: 'b', oldLine: 2 },
+      { type: 'equal', text: 'c', oldLine: 3, newLine: 2 },
+      { type: 'added', text: 'x', newLine: 3 },
+      { type: 'equal', text: 'd', oldLine: 4, newLine: 4 },
+    ]);
+    expect(diff.added).toBe(1);
+    expect(diff.removed).toBe(1);
+  });
+
+  it('should handle empty documents', () => {
+    expect(diffLines('', 'a\nb').lines.map(l => l.type)).toEqual(['added', 'added']);
+    expect(diffLines('a', '').lines.map(l => l.type)).toEqual(['removed']);
+    expect(diffLines('same', 'same')).toMatchObject({ added: 0, removed: 0 });
+  });
+
+  it('should report an oversized change as a block replace', () => {
+    const oldLines = Array.from({ length: 3000 }, (_, i) => `old ${i}`);
+    const newLines = Array.from({ length: 3000 }, (_, i) => `new ${i}`);
+
+    const diff = diffLines(['# Title', ...oldLines, 'end'].join('\n'), ['# Title', ...newLines, 'end'].join('\n'));
+
+    expect(diff).toMatchObject({ added: 3000, removed: 3000 });
+    expect(diff.lines[0]).toEqual({ type: 'equal', text: '# Title', oldLine: 1, newLine: 1 });
+    expect(diff.lines[1]).toEqual({ type: 'removed', text: 'old 0', oldLine: 2 });
+    expect(diff.lines[3001]).toEqual({ type: 'added', text: 'new 0', newLine: 2 });
+    expect(diff.lines[6001]).toEqual({ type: 'equal', text: 'end', oldLine: 3002, newLine: 3002 });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Unit Tests for Post Store
+ *
+ * Exercises the PostStore contract against the in-memory implementation.
+ * Any other implementation must pass the same suite.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InMemoryPostStore, PostStoreError, type PostStore } from '@/lib/posts';
+import { makePost } from '../fixtures/posts';
+
+function describePostStoreContract(name: string, createStore: () => PostStore) {
+  describe(name, () => {
+    let store: PostStore;
+
+    beforeEach(() => {
+      store = createStore();
+    });
+
+    it('should save and read posts by id and slug', async () => {
+      await store.save(makePost());
+
+      expect((await store.getById('1'))?.title).toBe('Post 1');
+      expect((await store.getBySlug('post-1'))?.id).toBe('1');
+      expect(await store.getById('missing')).toBeUndefined();
+      expect(await store.getBySlug('missing')).toBeUndefined();
+    });
+
+    it('should list posts newest first', async () => {
+      await store.save(makePost({ id: '1', slug: 'old', publishedAt: new Date('2024-01-01') }));
+      await store.save(makePost({ id: '2', slug: 'new', publishedAt: new Date('2024-03-01') }));
+      await store.save(makePost({ id: '3', slug: 'mid', publishedAt: new Date('2024-02-01') }));
+
+      const posts = await store.list();
+      expect(posts.map(p => p.slug)).toEqual(['new', 'mid', 'old']);
+    });
+
+    it('should filter by tag and apply limits', async () => {
+      await store.save(makePost({ id: '1', slug: 'a', tags: ['ai'], publishedAt: new Date('2024-01-01') }));
+      await store.save(makePost({ id: '2', slug: 'b', tags: ['ai', 'react'], publishedAt: new Date('2024-02-01') }));
+      await store.save(makePost({ id: '3', slug: 'c', tags: ['react'], publishedAt: new Date('2024-03-01') }));
+
+      expect((await store.list({ tag: 'ai' })).map(p => p.slug)).toEqual(['b', 'a']);
+      expect((await store.list({ limit: 2 })).map(p => p.slug)).toEqual(['c', 'b']);
+    });
+
+    it('should only list public posts when publicOnly is set', async () => {
+      const now = new Date('2024-06-01');
+      await store.save(makePost({ id: '1', slug: 'published', publishedAt: new Date('2024-01-01') }));
+      await store.save(makePost({ id: '2', slug: 'draft', status: 'draft' }));
+      await store.save(makePost({ id: '3', slug: 'archived', status: 'archived' }));
+      await store.save(makePost({ id: '4', slug: 'due', status: 'scheduled', scheduledAt: new Date('2024-05-01') }));
+      await store.save(makePost({ id: '5', slug: 'future', status: 'scheduled', scheduledAt: new Date('2024-07-01') }));
+
+      expect((await store.list({ publicOnly: true, now })).map(p => p.slug)).toEqual(['due', 'published']);
+      expect(await store.list()).toHaveLength(5);
+    });
+
+    it('should require scheduledAt for scheduled posts', async () => {
+      await expect(store.save(makePost({ status: 'scheduled' }))).rejects.toBeInstanceOf(PostStoreError);
+    });
+
+    it('should replace an existing post with the same id', async () => {
+      await store.save(makePost());
+      await store.save(makePost({ title: 'Renamed' }));
+
+      const posts = await store.list();
+      expect(posts).toHaveLength(1);
+      expect(posts[0].title).toBe('Renamed');
+    });
+
+    it('should reject a slug used by another post', async () => {
+      await store.save(makePost({ id: '1', slug: 'taken' }));
+
+      await expect(store.save(makePost({ id: '2', slug: 'taken' }))).rejects.toBeInstanceOf(PostStoreError);
+    });
+
+    it('should delete posts', async () => {
+      await store.save(makePost());
+
+      expect(await store.delete('1')).toBe(true);
+      expect(await store.delete('1')).toBe(false);
+      expect(await store.list()).toHaveLength(0);
+    });
+
+    it('should not leak references to stored posts', async () => {
+      const post = makePost({ tags: ['nextjs'] });
+      await store.save(post);
+      post.tags.push('mutated');
+
+      const loaded = await store.getById('1');
+      loaded!.tags.push('mutated-again');
+
+      expect((await store.getById('1'))?.tags).toEqual(['nextjs']);
+    });
+  });
+}
+
+describePostStoreContract('InMemoryPostStore', () => new InMemoryPostStore());
+
+describe('InMemoryPostStore seeding', () => {
+  it('should load seed posts on first access', async () => {
+    const store = new InMemoryPostStore(async () => [makePost()]);
+
+    expect(await store.list()).toHaveLength(1);
+  });
+});
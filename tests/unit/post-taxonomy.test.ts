@@ -0,0 +1,52 @@
+/**
+ * Unit Tests for Post Taxonomy
+ *
+ * Tests tag/category slugs, counts and filtering
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  filterByCategorySlug,
+  filterByTagSlug,
+  getCategoryTerms,
+  getTagTerms,
+  slugifyTerm
+} from '@/lib/posts/taxonomy';
+import { makePost } from '../fixtures/posts';
+
+const posts = [
+  makePost({ id: '1', tags: ['react', 'Next.js'], category: 'Web Development' }),
+  makePost({ id: '2', tags: ['react', 'ai'], category: 'Inteligencia Artificial' }),
+  makePost({ id: '3', tags: ['React'], category: 'Web Development' }),
+];
+
+describe('slugifyTerm', () => {
+  it('should produce URL-safe slugs', () => {
+    expect(slugifyTerm('Web Development')).toBe('web-development');
+    expect(slugifyTerm('Next.js')).toBe('next-js');
+    expect(slugifyTerm('Programación ')).toBe('programacion');
+  });
+});
+
+describe('taxonomy terms', () => {
+  it('should count tags across posts, most used first', () => {
+    expect(getTagTerms(posts)).toEqual([
+      { name: 'react', slug: 'react', count: 3 },
+      { name: 'ai', slug: 'ai', count: 1 },
+      { name: 'Next.js', slug: 'next-js', count: 1 },
+    ]);
+  });
+
+  it('should count categories', () => {
+    expect(getCategoryTerms(posts).map(term => [term.slug, term.count])).toEqual([
+      ['web-development', 2],
+      ['inteligencia-artificial', 1],
+    ]);
+  });
+
+  it('should filter posts by tag and category slug', () => {
+    expect(filterByTagSlug(posts, 'react').map(post => post.id)).toEqual(['1', '2', '3']);
+    expect(filterByTagSlug(posts, 'next-js').map(post => post.id)).toEqual(['1']);
+    expect(filterByCategorySlug(posts, 'web-development').map(post => post.id)).toEqual(['1', '3']);
+  });
+});
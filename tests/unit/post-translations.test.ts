@@ -0,0 +1,179 @@
+/**
+ * Unit Tests for Post Translations
+ *
+ * Tests linking of language versions, locale formatting and the
+ * translation draft / approval flow against the fake LLM provider
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  InMemoryPostStore,
+  filterByLocale,
+  getCanonicalPostPath,
+  getMissingLocales,
+  getPostStore,
+  getPostTranslations,
+  listPublicPostsInLocale,
+  setPostStore,
+} from '@/lib/posts';
+import { formatPostDate, getMessages } from '@/lib/i18n';
+import {
+  approveTranslation,
+  createTranslationDraft,
+  listTranslations,
+} from '@/lib/translation/drafts';
+import { FakeLLMProvider, setLLMProvider } from '@/lib/llm';
+import { cache } from '@/lib/utils/cache';
+import { makePost } from '../fixtures/posts';
+
+const original = makePost({
+  id: 'hooks',
+  slug: 'hooks',
+  title: 'Understanding hooks',
+  excerpt: 'A short tour of hooks',
+  content: 'Hooks let components keep state.\n\nCall them at the top level.',
+});
+const spanish = makePost({ id: 'hooks-es', slug: 'hooks-es', locale: 'es', translationOf: 'hooks' });
+const legacy = makePost({ id: 'legacy', slug: 'legacy', alternates: { es: 'legado' } });
+const legado = makePost({ id: 'legado', slug: 'legado', locale: 'es' });
+const unrelated = makePost({ id: 'other', slug: 'other' });
+
+describe('getPostTranslations', () => {
+  const posts = [original, spanish, legacy, legado, unrelated];
+
+  it('should link versions sharing a translation key both ways', () => {
+    expect(getPostTranslations(original, posts)).toEqual({ en: original, es: spanish });
+    expect(getPostTranslations(spanish, posts)).toEqual({ en: original, es: spanish });
+  });
+
+  it('should still follow explicit alternates', () => {
+    expect(getPostTranslations(legacy, posts)).toEqual({ en: legacy, es: legado });
+    expect(getPostTranslations(legado, posts)).toEqual({ en: legacy, es: legado });
+  });
+
+  it('should list site locales without a version', () => {
+    expect(getMissingLocales(unrelated, posts)).toEqual(['es']);
+    expect(getMissingLocales(original, posts)).toEqual([]);
+  });
+
+  it('should build canonical paths and filter by locale', () => {
+    expect(getCanonicalPostPath(original)).toBe('/en/blog/hooks');
+    expect(getCanonicalPostPath(spanish)).toBe('/es/blog/hooks-es');
+    expect(filterByLocale(posts, 'es')).toEqual([spanish, legado]);
+  });
+});
+
+describe('listPublicPostsInLocale', () => {
+  beforeEach(() => {
+    setPostStore(new InMemoryPostStore(async () => [original, spanish, legacy, legado, unrelated]));
+  });
+
+  afterEach(() => {
+    setPostStore(null);
+  });
+
+  it('should list each translated post once, in the default locale', async () => {
+    const posts = await listPublicPostsInLocale();
+    expect(posts.map(p => p.id).sort()).toEqual(['hooks', 'legacy', 'other']);
+  });
+
+  it('should apply the limit after filtering by locale', async () => {
+    expect(await listPublicPostsInLocale('es', { limit: 1 })).toHaveLength(1);
+    expect(await listPublicPostsInLocale('es')).toHaveLength(2);
+  });
+});
+
+describe('i18n', () => {
+  it('should format dates in the reader language', () => {
+    const date = new Date('2024-01-15T12:00:00Z');
+
+    expect(formatPostDate(date, 'en')).toBe('January 15, 2024');
+    expect(formatPostDate(date, 'es')).toBe('15 de enero de 2024');
+  });
+
+  it('should fall back to the default locale messages', () => {
+    expect(getMessages('es').backToBlog).not.toBe(getMessages('en').backToBlog);
+    expect(getMessages('fr')).toEqual(getMessages('en'));
+  });
+});
+
+describe('translation drafts', () => {
+  beforeEach(() => {
+    cache.clear();
+    setLLMProvider(new FakeLLMProvider({
+      respond: request => {
+        const { segments } = JSON.parse(request.messages[1].content) as { segments: string[] };
+        return { segments: segments.map(s => `ES ${s}`) };
+      },
+    }));
+    setPostStore(new InMemoryPostStore(async () => [original, unrelated]));
+  });
+
+  afterEach(() => {
+    setPostStore(null);
+    setLLMProvider(null);
+  });
+
+  it('should save the translation as a linked draft', async () => {
+    const { post, confidence } = await createTranslationDraft('hooks', 'es', 'editor');
+
+    expect(post).toMatchObject({
+      id: 'hooks-es',
+      slug: 'es-understanding-hooks',
+      title: 'ES Understanding hooks',
+      excerpt: 'ES A short tour of hooks',
+      locale: 'es',
+      translationOf: 'hooks',
+      status: 'draft',
+    });
+    expect(post.content).toContain('ES Call them at the top level.');
+    expect(confidence).toBeGreaterThan(0);
+
+    // Drafts are never public
+    const publicPosts = await getPostStore().list({ publicOnly: true });
+    expect(getPostTranslations(original, publicPosts)).not.toHaveProperty('es');
+  });
+
+  it('should pick a free slug however many candidates are taken', async () => {
+    setPostStore(new InMemoryPostStore(async () => [
+      original,
+      makePost({ id: 'taken', slug: 'es-understanding-hooks' }),
+      makePost({ id: 'taken-too', slug: 'es-understanding-hooks-es' }),
+    ]));
+
+    const { post } = await createTranslationDraft('hooks', 'es', 'editor');
+
+    expect(post.slug).toBe('es-understanding-hooks-es-2');
+  });
+
+  it('should refuse locales that already have a version', async () => {
+    await createTranslationDraft('hooks', 'es', 'editor');
+
+    await expect(createTranslationDraft('hooks', 'es', 'editor')).rejects.toMatchObject({
+      code: 'TRANSLATION_EXISTS',
+    });
+    await expect(createTranslationDraft('hooks', 'en', 'editor')).rejects.toMatchObject({
+      code: 'SAME_LOCALE',
+    });
+    await expect(createTranslationDraft('missing', 'es', 'editor')).rejects.toMatchObject({
+      code: 'POST_NOT_FOUND',
+    });
+  });
+
+  it('should publish a draft once approved', async () => {
+    await expect(approveTranslation('hooks', 'es', 'editor')).rejects.toMatchObject({
+      code: 'NOT_PENDING',
+    });
+
+    await createTranslationDraft('hooks', 'es', 'editor');
+    const published = await approveTranslation('hooks', 'es', 'editor');
+
+    expect(published.status).toBe('published');
+    // Dated by its own publication, not the original's
+    expect(published.publishedAt.getTime()).toBeGreaterThan(original.publishedAt.getTime());
+    expect(await listTranslations('hooks')).toEqual([
+      { locale: 'en', slug: 'hooks', status: 'published', original: true },
+      { locale: 'es', slug: 'es-understanding-hooks', status: 'published', original: false },
+    ]);
+  });
+});
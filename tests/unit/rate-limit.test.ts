@@ -0,0 +1,175 @@
+/**
+ * Unit Tests for Rate Limiting
+ *
+ * Tests token-bucket refill, client identity and the 429 responses of
+ * withRateLimit
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { NextResponse } from 'next/server';
+import {
+  InMemoryRateLimitStore,
+  getRateLimitRule,
+  setRateLimitStore,
+  takeToken,
+  withRateLimit,
+  type RateLimitStore,
+} from '@/lib/rate-limit';
+import { getClientId } from '@/lib/auth/client';
+import { metrics, MetricNames } from '@/lib/utils/metrics';
+
+const rule = { limit: 2, windowMs: 60_000 };
+
+function apiRequest(headers: Record<string, string> = {}) {
+  return new Request('http://localhost:3000/api/ai/generate', { method: 'POST', headers });
+}
+
+describe('takeToken', () => {
+  it('should start full and refill one token per limit/window', () => {
+    let { bucket, result } = takeToken(undefined, rule, 0);
+    expect(result).toMatchObject({ allowed: true, remaining: 1, retryAfterMs: 0 });
+
+    ({ bucket, result } = takeToken(bucket, rule, 0));
+    expect(result).toMatchObject({ allowed: true, remaining: 0, retryAfterMs: 30_000, resetMs: 60_000 });
+
+    ({ bucket, result } = takeToken(bucket, rule, 10_000));
+    expect(result).toMatchObject({ allowed: false, remaining: 0, retryAfterMs: 20_000 });
+
+    ({ result } = takeToken(bucket, rule, 30_000));
+    expect(result.allowed).toBe(true);
+  });
+
+  it('should never hold more than the limit', () => {
+    const { result } = takeToken({ tokens: 0, updatedAt: 0 }, rule, 10 * 60_000);
+    expect(result.remaining).toBe(1);
+  });
+});
+
+describe('InMemoryRateLimitStore', () => {
+  it('should keep buckets apart', async () => {
+    const store = new InMemoryRateLimitStore();
+
+    await store.take('a', rule, 0);
+    await store.take('a', rule, 0);
+    expect((await store.take('a', rule, 0)).allowed).toBe(false);
+    expect((await store.take('b', rule, 0)).allowed).toBe(true);
+  });
+
+  it('should never hold more than maxKeys buckets, dropping the least recently used', async () => {
+    const store = new InMemoryRateLimitStore(2);
+
+    await store.take('a', rule, 0);
+    await store.take('b', rule, 0);
+    await store.take('a', rule, 0);
+    // 'b' is the least recently used, so it makes room for 'c'
+    await store.take('c', rule, 0);
+    expect((await store.take('a', rule, 0)).allowed).toBe(false);
+
+    for (let i = 0; i < 100; i++) {
+      await store.take(`client-${i}`, rule, 0);
+    }
+    expect(store.size).toBe(2);
+  });
+});
+
+describe('getClientId', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('should key on the IP our proxy saw, ignoring headers clients set freely', () => {
+    expect(getClientId(apiRequest({ 'x-user-id': 'ana', 'x-api-key': 'secret' }))).toBe('ip:unknown');
+    expect(getClientId(apiRequest({ 'x-forwarded-for': '198.51.100.1, 203.0.113.7' }))).toBe('ip:203.0.113.7');
+    expect(getClientId(apiRequest({ 'x-real-ip': '203.0.113.9', 'x-forwarded-for': '198.51.100.1' }))).toBe(
+      'ip:203.0.113.9'
+    );
+  });
+
+  it('should trust a valid admin key only', () => {
+    process.env.ADMIN_API_KEY = 'admin-secret';
+
+    expect(getClientId(apiRequest({ 'x-admin-key': 'admin-secret' }))).toBe('admin');
+    expect(getClientId(apiRequest({ 'x-admin-key': 'guess', 'x-real-ip': '203.0.113.9' }))).toBe('ip:203.0.113.9');
+  });
+});
+
+describe('getRateLimitRule', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('should read per-route overrides and fall back to the default', () => {
+    process.env.RATE_LIMIT_GENERATE = '3/30';
+    process.env.RATE_LIMIT_DEFAULT = 'unlimited';
+
+    expect(getRateLimitRule('/api/ai/generate')).toEqual({ limit: 3, windowMs: 30_000 });
+    expect(getRateLimitRule('/api/ai/chat')).toEqual({ limit: 20, windowMs: 60_000 });
+    expect(getRateLimitRule('/api/ai/health')).toEqual({ limit: 60, windowMs: 60_000 });
+  });
+});
+
+describe('withRateLimit', () => {
+  const handler = withRateLimit('/api/ai/generate', async () => NextResponse.json({ ok: true }), rule);
+
+  beforeEach(() => {
+    metrics.reset();
+    setRateLimitStore(new InMemoryRateLimitStore());
+  });
+
+  afterEach(() => {
+    setRateLimitStore(null);
+  });
+
+  it('should answer 429 with Retry-After once a client runs out', async () => {
+    const first = await handler(apiRequest({ 'x-real-ip': '203.0.113.7' }));
+    await handler(apiRequest({ 'x-real-ip': '203.0.113.7' }));
+    const limited = await handler(apiRequest({ 'x-real-ip': '203.0.113.7' }));
+
+    expect(first.status).toBe(200);
+    expect(first.headers.get('X-RateLimit-Limit')).toBe('2');
+    expect(first.headers.get('X-RateLimit-Remaining')).toBe('1');
+
+    expect(limited.status).toBe(429);
+    expect(await limited.json()).toMatchObject({ code: 'RATE_LIMITED' });
+    expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+    expect(limited.headers.get('X-RateLimit-Remaining')).toBe('0');
+
+    // Other clients have their own bucket
+    expect((await handler(apiRequest({ 'x-real-ip': '203.0.113.8' }))).status).toBe(200);
+  });
+
+  it('should not give a fresh bucket to a new x-user-id', async () => {
+    const statuses: number[] = [];
+    for (const userId of ['a', 'b', 'c']) {
+      statuses.push((await handler(apiRequest({ 'x-user-id': userId, 'x-real-ip': '203.0.113.7' }))).status);
+    }
+
+    expect(statuses).toEqual([200, 200, 429]);
+  });
+
+  it('should record checks and rejections as metrics', async () => {
+    for (let i = 0; i < 3; i++) {
+      await handler(apiRequest());
+    }
+
+    const labels = { endpoint: '/api/ai/generate' };
+    expect(metrics.getCounter(MetricNames.RATE_LIMIT_CHECKS_TOTAL, { ...labels, allowed: 'true' })).toBe(2);
+    expect(metrics.getCounter(MetricNames.RATE_LIMITED_TOTAL, labels)).toBe(1);
+  });
+
+  it('should let requests through when the store fails', async () => {
+    const broken: RateLimitStore = {
+      take: async () => {
+        throw new Error('Store unavailable');
+      },
+      clear: async () => {},
+    };
+    setRateLimitStore(broken);
+
+    expect((await handler(apiRequest())).status).toBe(200);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Unit Tests for Recommend Content
+ *
+ * Tests that related posts are scored against the real post being read
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { InMemoryPostStore, setPostStore } from '@/lib/posts';
+import { RecommendContentSkill } from '@/lib/skills/recommend_content';
+import { makePost } from '../fixtures/posts';
+
+const posts = [
+  makePost({
+    id: 'current',
+    title: 'Server components in Next.js',
+    excerpt: 'Rendering React server components with the App Router',
+    tags: ['nextjs', 'react'],
+    category: 'Web Development'
+  }),
+  makePost({
+    id: 'close',
+    title: 'Streaming server components',
+    excerpt: 'Suspense boundaries and streaming with the App Router',
+    tags: ['nextjs', 'React'],
+    category: 'Web Development'
+  }),
+  makePost({ id: 'same-category', tags: ['css'], category: 'Web Development' }),
+  makePost({ id: 'unrelated', title: 'Prompt engineering', tags: ['ai'], category: 'Artificial Intelligence' }),
+  makePost({ id: 'draft', tags: ['nextjs', 'react'], category: 'Web Development', status: 'draft' }),
+];
+
+describe('RecommendContentSkill', () => {
+  const skill = new RecommendContentSkill();
+
+  beforeEach(() => {
+    setPostStore(new InMemoryPostStore(async () => posts));
+  });
+
+  afterEach(() => {
+    setPostStore(null);
+  });
+
+  it('should rank posts by similarity to the current post', async () => {
+    const { recommendations, metadata } = await skill.execute({ currentPostId: 'current' });
+
+    expect(recommendations.map(r => r.postId)).toEqual(['close', 'same-category', 'unrelated']);
+    expect(metadata.totalCandidates).toBe(3);
+  });
+
+  it('should never recommend the current post or unpublished posts', async () => {
+    const { recommendations } = await skill.execute({ currentPostId: 'current' });
+    const ids = recommendations.map(r => r.postId);
+
+    expect(ids).not.toContain('current');
+    expect(ids).not.toContain('draft');
+  });
+
+  it('should explain shared tags, category and topic', async () => {
+    const { recommendations } = await skill.execute({ currentPostId: 'current' });
+    const close = recommendations.find(r => r.postId === 'close')!;
+    const unrelated = recommendations.find(r => r.postId === 'unrelated')!;
+
+    expect(close.reasons.map(r => r.type)).toEqual(['same-tags', 'same-category', 'similar-content']);
+    expect(close.reasons[0].explanation).toContain('nextjs, React');
+    expect(unrelated.reasons.map(r => r.type)).not.toContain('same-tags');
+  });
+
+  it('should respect maxRecommendations', async () => {
+    const { recommendations } = await skill.execute({
+      currentPostId: 'current',
+      context: { maxRecommendations: 1 }
+    });
+
+    expect(recommendations).toHaveLength(1);
+    expect(recommendations[0].rank).toBe(1);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Unit Tests for Search
+ *
+ * Tests tokenizing, BM25 ranking, prefix matching and snippets
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  buildSnippet,
+  highlightText,
+  InvertedIndex,
+  invalidatePostSearchIndex,
+  searchPosts,
+  stripMarkdown,
+  tokenize
+} from '@/lib/search';
+import { InMemoryPostStore, setPostStore } from '@/lib/posts';
+import { makePost } from '../fixtures/posts';
+
+const weights = { title: 3, body: 1 };
+
+const doc = (id: string, title: string, body: string) => ({ id, fields: { title, body } });
+
+describe('tokenize', () => {
+  it('should lowercase, fold accents and drop stop words', () => {
+    expect(tokenize('La Programación en TypeScript, ¿cómo empezar?')).toEqual(['programacion', 'typescript', 'empezar']);
+  });
+});
+
+describe('InvertedIndex', () => {
+  const index = InvertedIndex.build([
+    doc('1', 'Getting started with Next.js', 'Next.js is a React framework.'),
+    doc('2', 'TypeScript tips', 'Types make React code safer. TypeScript everywhere.'),
+    doc('3', 'Cooking pasta', 'Boil water and add salt.'),
+  ], weights);
+
+  it('should rank title matches above body matches', () => {
+    const hits = index.search('typescript react');
+
+    expect(hits.map(hit => hit.id)).toEqual(['2', '1']);
+    expect(hits[0].coverage).toBe(1);
+    expect(hits[1].coverage).toBe(0.5);
+  });
+
+  it('should match term prefixes, ranking exact matches first', () => {
+    expect(index.search('type').map(hit => hit.id)).toEqual(['2']);
+    expect(index.search('type', { prefix: false })).toEqual([]);
+  });
+
+  it('should match accented queries against unaccented text', () => {
+    expect(index.search('pastá').map(hit => hit.id)).toEqual(['3']);
+  });
+
+  it('should return nothing for empty or stop-word queries', () => {
+    expect(index.search('')).toEqual([]);
+    expect(index.search('the and of')).toEqual([]);
+  });
+});
+
+describe('snippets', () => {
+  it('should highlight matched words and escape HTML', () => {
+    expect(highlightText('Use <b>TypeScript</b>', ['typescript'])).toBe('Use &lt;b&gt;<mark>TypeScript</mark>&lt;/b&gt;');
+  });
+
+  it('should cut a window around the first match', () => {
+    const text = `${'intro '.repeat(30)}the Programación part ${'outro '.repeat(40)}`;
+    const snippet = buildSnippet(text, ['programacion'], 80);
+
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet).toContain('<mark>Programación</mark>');
+  });
+
+  it('should strip markdown syntax', () => {
+    expect(stripMarkdown('## Title\n\nSee [the docs](https://x.dev) and **bold** `code`')).toBe('Title See the docs and bold code');
+  });
+});
+
+describe('searchPosts', () => {
+  beforeEach(async () => {
+    const store = new InMemoryPostStore();
+    await store.save(makePost({ id: '1', slug: 'graphql', title: 'GraphQL APIs', content: 'Designing a GraphQL schema.' }));
+    await store.save(makePost({ id: '2', slug: 'draft', title: 'GraphQL draft', status: 'draft' }));
+    setPostStore(store);
+    invalidatePostSearchIndex();
+  });
+
+  it('should search public posts only and return highlighted snippets', async () => {
+    const results = await searchPosts('graphql');
+
+    expect(results.map(result => result.post.slug)).toEqual(['graphql']);
+    expect(results[0].highlightedTitle).toBe('<mark>GraphQL</mark> APIs');
+    expect(results[0].snippet).toBe('Designing a <mark>GraphQL</mark> schema.');
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Unit Tests for SEO
+ *
+ * Tests sitemap entries, hreflang alternates, sitemap XML, and the
+ * social/structured metadata checked by AnalyzeSEOSkill
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildSitemapEntries, renderSitemap } from '@/lib/seo/sitemap';
+import { getLanguageAlternates } from '@/lib/seo/alternates';
+import {
+  buildBlogPostingJsonLd,
+  buildPostMetadata,
+  describePostMetadata,
+  getPostImageUrl,
+  serializeJsonLd
+} from '@/lib/seo/metadata';
+import { AnalyzeSEOSkill } from '@/lib/skills/analyze_seo';
+import { makePost } from '../fixtures/posts';
+
+const SITE = 'https://example.com';
+const NOW = new Date('2024-06-01T00:00:00Z');
+
+const english = makePost({
+  id: 'hooks',
+  slug: 'hooks',
+  title: 'Understanding hooks',
+  tags: ['react'],
+  alternates: { es: 'hooks-es', fr: 'hooks-fr' },
+  updatedAt: new Date('2024-03-01T00:00:00Z'),
+  imageUrl: '/images/hooks.jpg'
+});
+const spanish = makePost({ id: 'hooks-es', slug: 'hooks-es', locale: 'es' });
+const frenchDraft = makePost({ id: 'hooks-fr', slug: 'hooks-fr', locale: 'fr', status: 'draft' });
+const scheduled = makePost({
+  id: 'future',
+  slug: 'future',
+  status: 'scheduled',
+  scheduledAt: new Date('2024-07-01T00:00:00Z')
+});
+
+describe('getLanguageAlternates', () => {
+  const publicPosts = [english, spanish];
+
+  it('should link translations both ways with x-default', () => {
+    const expected = {
+      en: '/en/blog/hooks',
+      es: '/es/blog/hooks-es',
+      'x-default': '/en/blog/hooks'
+    };
+
+    expect(getLanguageAlternates(english, publicPosts)).toEqual(expected);
+    // The Spanish post does not declare alternates but is declared by the English one
+    expect(getLanguageAlternates(spanish, publicPosts)).toEqual(expected);
+  });
+
+  it('should ignore translations that are not public', () => {
+    expect(getLanguageAlternates(english, publicPosts)).not.toHaveProperty('fr');
+  });
+
+  it('should return nothing for single-language posts', () => {
+    expect(getLanguageAlternates(makePost({ id: 'solo', slug: 'solo' }), publicPosts)).toEqual({});
+  });
+});
+
+describe('buildSitemapEntries', () => {
+  const entries = buildSitemapEntries([english, spanish, frenchDraft, scheduled], SITE, NOW);
+  const urls = entries.map(entry => entry.url);
+
+  it('should never include unpublished posts', () => {
+    expect(urls).toContain('https://example.com/en/blog/hooks');
+    expect(urls).toContain('https://example.com/es/blog/hooks-es');
+    expect(urls).not.toContain('https://example.com/fr/blog/hooks-fr');
+    expect(urls).not.toContain('https://example.com/en/blog/future');
+  });
+
+  it('should describe posts with lastModified, images and alternates', () => {
+    const entry = entries.find(e => e.url === 'https://example.com/en/blog/hooks')!;
+
+    expect(entry.lastModified).toEqual(new Date('2024-03-01T00:00:00Z'));
+    expect(entry.images).toEqual(['https://example.com/images/hooks.jpg']);
+    expect(entry.languages).toEqual({
+      en: 'https://example.com/en/blog/hooks',
+      es: 'https://example.com/es/blog/hooks-es',
+      'x-default': 'https://example.com/en/blog/hooks'
+    });
+  });
+
+  it('should include listing pages dated by the latest post', () => {
+    const blog = entries.find(e => e.url === 'https://example.com/blog')!;
+    expect(blog.lastModified).toEqual(new Date('2024-03-01T00:00:00Z'));
+    expect(urls).toContain('https://example.com/blog/tag/react');
+    expect(urls).toContain('https://example.com/blog/category/web-development');
+  });
+});
+
+describe('renderSitemap', () => {
+  it('should produce well-formed XML with image and hreflang elements', () => {
+    const xml = renderSitemap(buildSitemapEntries([english, spanish], SITE, NOW));
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+
+    expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+    expect(doc.getElementsByTagName('url').length).toBeGreaterThan(2);
+    expect(
+      doc.getElementsByTagNameNS('http://www.google.com/schemas/sitemap-image/1.1', 'loc')[0].textContent
+    ).toBe('https://example.com/images/hooks.jpg');
+    expect(
+      doc.getElementsByTagNameNS('http://www.w3.org/1999/xhtml', 'link')
+    ).toHaveLength(6);
+  });
+});
+
+describe('post metadata', () => {
+  it('should fall back to the generated OG image', () => {
+    expect(getPostImageUrl(english, SITE)).toBe('https://example.com/images/hooks.jpg');
+    expect(getPostImageUrl(spanish, SITE)).toBe('https://example.com/blog/hooks-es/og.png');
+  });
+
+  it('should emit Open Graph and Twitter card fields', () => {
+    const metadata = buildPostMetadata(english, {}, SITE);
+
+    expect(metadata.openGraph).toMatchObject({
+      type: 'article',
+      url: 'https://example.com/en/blog/hooks',
+      publishedTime: '2024-01-15T00:00:00.000Z',
+      modifiedTime: '2024-03-01T00:00:00.000Z',
+      images: [{ url: 'https://example.com/images/hooks.jpg', width: 1200, height: 630 }]
+    });
+    expect(metadata.twitter).toMatchObject({ card: 'summary_large_image', title: 'Understanding hooks' });
+  });
+
+  it('should describe the post as a BlogPosting', () => {
+    const jsonLd = buildBlogPostingJsonLd(
+      makePost({ title: 'Typed', content: '# Typed\n\nSome **typed** words here.', tags: ['react', 'typescript'] }),
+      SITE
+    );
+
+    expect(jsonLd).toMatchObject({
+      '@type': 'BlogPosting',
+      headline: 'Typed',
+      author: { '@type': 'Person', name: 'Guido Miranda' },
+      datePublished: '2024-01-15T00:00:00.000Z',
+      keywords: 'react, typescript',
+      wordCount: 5
+    });
+  });
+
+  it('should escape "<" when serializing JSON-LD', () => {
+    const json = serializeJsonLd({ headline: '</script><script>alert(1)</script>' });
+    expect(json).not.toContain('<');
+    expect(JSON.parse(json).headline).toBe('</script><script>alert(1)</script>');
+  });
+});
+
+describe('AnalyzeSEOSkill structured data check', () => {
+  const skill = new AnalyzeSEOSkill();
+  const content = {
+    title: 'Understanding React hooks in depth for modern apps',
+    excerpt: 'A guide to hooks',
+    body: 'React hooks let function components hold state and side effects. '.repeat(10),
+    slug: 'hooks'
+  };
+
+  it('should pass when the page metadata is complete', async () => {
+    const result = await skill.execute({ content: { ...content, metadata: describePostMetadata(english, SITE) } });
+
+    expect(result.analysis.technical.structuredData).toEqual({
+      checked: true,
+      openGraph: true,
+      twitterCard: true,
+      jsonLd: true,
+      missing: []
+    });
+  });
+
+  it('should report missing fields', async () => {
+    const result = await skill.execute({
+      content: { ...content, metadata: { openGraph: { title: 'Hooks' } } }
+    });
+    const { structuredData } = result.analysis.technical;
+
+    expect(structuredData.openGraph).toBe(false);
+    expect(structuredData.jsonLd).toBe(false);
+    expect(structuredData.missing).toContain('og:image');
+    expect(structuredData.missing).toContain('twitter:card');
+    expect(structuredData.missing).toContain('BlogPosting');
+    expect(result.issues.some(issue => issue.message.startsWith('Missing social/structured metadata'))).toBe(true);
+  });
+
+  it('should skip the check when no metadata is given', async () => {
+    const result = await skill.execute({ content });
+    expect(result.analysis.technical.structuredData.checked).toBe(false);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Unit Tests for Content Summarization
+ *
+ * Runs the summarize_content skill end to end against recorded model
+ * replies (tests/fixtures/llm/summarize-content.json)
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { summarizeContentSkill } from '@/lib/skills/summarize_content';
+import { setLLMProvider } from '@/lib/llm';
+import { RecordedLLMProvider } from '@/lib/llm/recording';
+import { metrics, MetricNames } from '@/lib/utils/metrics';
+
+const ARTICLE = `Los hooks permiten que los componentes funcionales de React gestionen estado y efectos secundarios sin escribir clases. useState guarda valores entre renderizados y devuelve una función para actualizarlos. useEffect sincroniza el componente con sistemas externos, como una suscripción o una petición de datos, y su función de limpieza se ejecuta antes del siguiente efecto o al desmontar.
+
+Las reglas de los hooks son sencillas pero estrictas: llámalos siempre en el nivel superior del componente y nunca dentro de condiciones o bucles. React identifica cada hook por el orden de llamada, así que un orden distinto entre renderizados rompe el estado.
+
+Cuando la lógica se repite entre componentes, los hooks personalizados la extraen en funciones reutilizables que empiezan por use. Un hook como useFetch puede encapsular la petición, el estado de carga y los errores, y cada componente que lo usa obtiene su propio estado independiente.
+
+Por último, useMemo y useCallback evitan cálculos y funciones nuevas en cada renderizado, pero conviene medir antes de optimizar: la memorización también tiene un coste.`;
+
+describe('summarize_content skill', () => {
+  beforeEach(() => {
+    setLLMProvider(new RecordedLLMProvider({ fixture: 'summarize-content' }));
+  });
+
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  it('should summarize within the compression and coherence bounds', async () => {
+    const { summary, keyPoints, metrics, metadata } = await summarizeContentSkill.execute({
+      content: ARTICLE,
+      length: 'medium',
+    });
+
+    expect(summary).not.toBe('');
+    expect(keyPoints.length).toBeGreaterThanOrEqual(3);
+    expect(keyPoints.length).toBeLessThanOrEqual(7);
+    expect(metrics.summaryWordCount).toBeLessThan(metrics.originalWordCount);
+    expect(metrics.compressionRatio).toBeGreaterThanOrEqual(0.05);
+    expect(metrics.compressionRatio).toBeLessThanOrEqual(0.5);
+    expect(metrics.coherenceScore).toBeGreaterThanOrEqual(70);
+    expect(metadata.tokensUsed).toBeGreaterThan(0);
+  });
+
+  it('should send the focus and audience to the model', async () => {
+    const { keyPoints } = await summarizeContentSkill.execute({
+      content: ARTICLE,
+      length: 'medium',
+      style: 'bullet-points',
+      focus: ['reglas de los hooks'],
+      targetAudience: 'technical',
+    });
+
+    expect(keyPoints.join(' ').toLowerCase()).toContain('nivel superior');
+  });
+
+  it('should report the tokens and cost it used to the metrics', async () => {
+    metrics.reset();
+
+    const { metadata } = await summarizeContentSkill.execute({ content: ARTICLE, length: 'medium' });
+    const labels = { skill: 'summarize_content' };
+
+    expect(metadata.costUSD).toBeGreaterThan(0);
+    expect(metrics.getCounter(MetricNames.TOKENS_USED_TOTAL, labels)).toBe(metadata.tokensUsed);
+    expect(metrics.getCounter(MetricNames.COST_USD_TOTAL, labels)).toBeCloseTo(metadata.costUSD, 6);
+    expect(metrics.getCounter(MetricNames.SKILL_EXECUTION_TOTAL, { ...labels, success: 'true' })).toBe(1);
+  });
+
+  it('should refuse content too short to summarize', async () => {
+    await expect(summarizeContentSkill.execute({ content: 'Los hooks son funciones.' })).rejects.toMatchObject({
+      code: 'PRECONDITION_FAILED',
+    });
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Unit Tests for Content Translation
+ *
+ * Tests markdown segmentation, chunking, glossary handling, the
+ * translate_content skill against the fake LLM provider, and planning
+ * of translate intents
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  chunkSegments,
+  getGlossary,
+  getSegments,
+  placeholder,
+  prepareDocument,
+  restoreDocument,
+} from '@/lib/translation';
+import { translateContentSkill } from '@/lib/skills/translate_content';
+import { plannerAgent } from '@/lib/agents/planner';
+import { FakeLLMProvider, setLLMProvider, type LLMChatRequest } from '@/lib/llm';
+import { cache } from '@/lib/utils/cache';
+
+const respond = vi.fn<[LLMChatRequest, boolean], object>();
+
+/**
+ * Stub model: marks every segment as translated and keeps placeholders
+ */
+function respondWith(translate: (segment: string) => string) {
+  respond.mockImplementation(request => {
+    const { segments } = JSON.parse(request.messages[1].content) as { segments: string[] };
+    return { segments: segments.map(translate) };
+  });
+}
+
+const POST = `---
+title: 'Getting started with Next.js'
+slug: getting-started
+date: 2024-01-15
+tags: [nextjs]
+---
+
+# Getting started
+
+Install it with \`npm install next\` and read [the docs](https://nextjs.org/docs).
+
+\`\`\`ts
+const greeting = 'do not translate';
+\`\`\`
+
+Deploy on Vercel: https://vercel.com/new`;
+
+describe('prepareDocument', () => {
+  it('should keep code blocks and frontmatter keys out of the segments', () => {
+    const document = prepareDocument(POST, { glossary: [], targetLanguage: 'es' });
+    const segments = getSegments(document);
+
+    expect(segments[0]).toBe('Getting started with Next.js');
+    expect(segments).toContain('# Getting started');
+    expect(segments.join('\n')).not.toContain('do not translate');
+    expect(segments.join('\n')).not.toContain('slug');
+    expect(segments.join('\n')).not.toContain('2024-01-15');
+  });
+
+  it('should replace inline code, link targets and URLs with placeholders', () => {
+    const document = prepareDocument(POST, { glossary: [], targetLanguage: 'es' });
+    const paragraph = getSegments(document).find(segment => segment.startsWith('Install'));
+
+    expect(paragraph).toBe(`Install it with ${placeholder(0)} and read [the docs${placeholder(1)}.`);
+    expect(document.tokens.slice(0, 2)).toEqual(['`npm install next`', '](https://nextjs.org/docs)']);
+  });
+
+  it('should protect glossary terms and restore pinned translations', () => {
+    const document = prepareDocument('Firebase and pull requests', {
+      glossary: [{ term: 'Firebase' }, { term: 'pull requests', translations: { es: 'solicitudes de cambio' } }],
+      targetLanguage: 'es',
+    });
+
+    expect(getSegments(document)).toEqual([`${placeholder(0)} and ${placeholder(1)}`]);
+    expect(restoreDocument(document, [`${placeholder(0)} y ${placeholder(1)}`]).text).toBe(
+      'Firebase y solicitudes de cambio'
+    );
+  });
+
+  it('should reassemble the source unchanged when segments come back as-is', () => {
+    const document = prepareDocument(POST, { glossary: getGlossary(), targetLanguage: 'es' });
+    const restored = restoreDocument(document, getSegments(document));
+
+    // Frontmatter values are rewritten as double-quoted strings
+    expect(restored.text).toBe(POST.replace("'Getting started with Next.js'", '"Getting started with Next.js"'));
+    expect(restored.warnings).toEqual([]);
+  });
+
+  it('should split paragraphs longer than the chunk length', () => {
+    const paragraph = Array.from({ length: 200 }, (_, i) => `word${i}`).join(' ');
+    const document = prepareDocument(paragraph, { glossary: [], targetLanguage: 'es', maxLength: 100 });
+    const segments = getSegments(document);
+
+    expect(segments.length).toBeGreaterThan(1);
+    expect(segments.every(segment => segment.length <= 100)).toBe(true);
+    expect(restoreDocument(document, segments).text).toBe(paragraph);
+  });
+});
+
+describe('chunkSegments', () => {
+  it('should group segments under the length limit', () => {
+    const chunks = chunkSegments(['a'.repeat(40), 'b'.repeat(40), 'c'.repeat(40)], 100);
+
+    expect(chunks.map(chunk => chunk.length)).toEqual([2, 1]);
+  });
+});
+
+describe('restoreDocument', () => {
+  it('should keep the source text of segments that lost placeholders', () => {
+    const document = prepareDocument('Run `npm test` now', { glossary: [], targetLanguage: 'es' });
+    const restored = restoreDocument(document, ['Ejecuta ahora']);
+
+    expect(restored.text).toBe('Run `npm test` now');
+    expect(restored.warnings).toHaveLength(1);
+  });
+});
+
+describe('getGlossary', () => {
+  afterEach(() => {
+    delete process.env.TRANSLATION_GLOSSARY;
+  });
+
+  it('should merge defaults, TRANSLATION_GLOSSARY and per-call terms', () => {
+    process.env.TRANSLATION_GLOSSARY = 'Shiki, Vitest';
+    const terms = getGlossary(['Acme Cloud']).map(entry => entry.term);
+
+    expect(terms).toEqual(expect.arrayContaining(['Next.js', 'Shiki', 'Vitest', 'Acme Cloud']));
+  });
+});
+
+describe('translateContentSkill', () => {
+  beforeEach(() => {
+    cache.clear();
+    respond.mockReset();
+    setLLMProvider(new FakeLLMProvider({ respond }));
+  });
+
+  afterEach(() => {
+    setLLMProvider(null);
+  });
+
+  it('should translate prose and leave code, URLs and glossary terms untouched', async () => {
+    respondWith(segment => `[es] ${segment}`);
+
+    const result = await translateContentSkill.execute({ text: POST, sourceLanguage: 'en', targetLanguage: 'es' });
+
+    expect(result.translatedText).toContain('title: "[es] Getting started with Next.js"');
+    expect(result.translatedText).toContain('[es] # Getting started');
+    expect(result.translatedText).toContain("const greeting = 'do not translate';");
+    expect(result.translatedText).toContain('`npm install next`');
+    expect(result.translatedText).toContain('[es] Deploy on Vercel: https://vercel.com/new');
+    expect(result.warnings).toBeUndefined();
+    expect(result.metadata.chunks).toBe(1);
+  });
+
+  it('should send long posts in several requests', async () => {
+    respondWith(segment => segment.toUpperCase());
+    const paragraphs = Array.from({ length: 6 }, (_, i) => `Paragraph ${i} `.repeat(400).trim());
+
+    const result = await translateContentSkill.execute({
+      text: paragraphs.join('\n\n'),
+      sourceLanguage: 'en',
+      targetLanguage: 'es',
+    });
+
+    expect(respond.mock.calls.length).toBeGreaterThan(1);
+    expect(result.translatedText).toBe(paragraphs.map(p => p.toUpperCase()).join('\n\n'));
+  });
+
+  it('should report the model that answered, not the one requested', async () => {
+    respondWith(segment => `[es] ${segment}`);
+    // Local providers answer with their own model tag
+    class LocalProvider extends FakeLLMProvider {
+      async completeJSON<T = any>(request: LLMChatRequest) {
+        return { ...(await super.completeJSON<T>(request)), model: 'llama3.1:8b' };
+      }
+    }
+    setLLMProvider(new LocalProvider({ respond }));
+
+    const result = await translateContentSkill.execute({ text: 'Hello world', sourceLanguage: 'en', targetLanguage: 'es' });
+
+    expect(result.metadata.model).toBe('llama3.1:8b');
+  });
+
+  it('should fail when the model drops segments', async () => {
+    respond.mockReturnValue({ segments: [] });
+
+    await expect(
+      translateContentSkill.execute({ text: 'Hello world', sourceLanguage: 'en', targetLanguage: 'es' })
+    ).rejects.toMatchObject({ code: 'EXECUTION_FAILED', message: expect.stringContaining('expected 1') });
+  });
+
+  it('should accept texts longer than a single request', async () => {
+    const validation = await translateContentSkill.validatePreconditions({ text: 'a'.repeat(60000), targetLanguage: 'es' });
+
+    expect(validation.valid).toBe(true);
+  });
+
+  it('should reject unsupported or identical languages (PRE-TRANS-002, PRE-TRANS-003)', async () => {
+    const unsupported = await translateContentSkill.validatePreconditions({ text: 'Hello', targetLanguage: 'xx' });
+    const identical = await translateContentSkill.validatePreconditions({
+      text: 'Hello',
+      sourceLanguage: 'es',
+      targetLanguage: 'es',
+    });
+
+    expect(unsupported.errors.map(error => error.code)).toEqual(['PRE-TRANS-002']);
+    expect(identical.errors.map(error => error.code)).toEqual(['PRE-TRANS-003']);
+    await expect(
+      translateContentSkill.execute({ text: 'Hello', targetLanguage: 'xx' })
+    ).rejects.toMatchObject({ code: 'PRECONDITION_FAILED' });
+    expect(respond).not.toHaveBeenCalled();
+  });
+});
+
+describe('planning translate intents', () => {
+  it('should select translate_content with the requested target language', async () => {
+    const plan = await plannerAgent.process(
+      {
+        userIntent: 'Translate the post I wrote to Spanish',
+        userContext: { preferences: { text: '# Hello' } },
+        systemContext: { availableSkills: ['generate_content', 'translate_content'] },
+      },
+      { traceId: 'test-trace', timestamp: new Date() }
+    );
+
+    expect(plan.steps).toHaveLength(1);
+    expect(plan.steps[0].skillId).toBe('translate_content');
+    expect(plan.steps[0].params).toMatchObject({ text: '# Hello', targetLanguage: 'es' });
+  });
+});